@@ -1,20 +1,26 @@
 // Import necessary modules from Obsidian
-import { Plugin, TFile } from "obsidian";
+import { Plugin, TAbstractFile, TFile } from "obsidian";
 
 // Import local modules
 import { S3SyncSettings, DEFAULT_SETTINGS } from "./settings";
 import { SyncManager } from "./sync/SyncManager";
+import { LivePushQueue } from "./sync/LivePushQueue";
 import { S3SyncSettingTab } from "./ui/S3SyncSettingTab";
 
 
 
 export default class S3SyncPlugin extends Plugin {
 	settings: S3SyncSettings;
-	private syncManager: SyncManager;
+	syncManager: SyncManager;
 	private syncIntervalId: number | null = null;
+	private livePushQueue: LivePushQueue;
 	async onload() {
 		await this.loadSettings();
 		this.syncManager = new SyncManager(this.app, this);
+		this.livePushQueue = new LivePushQueue(
+			() => this.settings.livePushDelaySeconds * 1000,
+			(paths) => this.syncManager.pushLocalFiles(paths),
+		);
 
 		this.addSettingTab(new S3SyncSettingTab(this.app, this));
 
@@ -26,38 +32,153 @@ export default class S3SyncPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "s3-full-sync",
+			name: "Full sync now",
+			callback: () => {
+				this.syncManager.runFullSync();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-sync-preview",
+			name: "Preview sync",
+			callback: () => {
+				this.syncManager.previewSync();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-restore-last-deletions",
+			name: "Restore files deleted by last sync",
+			callback: () => {
+				this.syncManager.restoreLastDeletions();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-browse-remote-trash",
+			name: "Browse remote trash",
+			callback: () => {
+				this.syncManager.browseRemoteTrash();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-purge-remote-trash",
+			name: "Purge remote trash",
+			callback: () => {
+				this.syncManager.purgeRemoteTrash();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-show-remote-history",
+			name: "Show remote history",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
+				}
+				if (!checking) {
+					this.syncManager.showRemoteHistory(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "s3-restore-to-date",
+			name: "Restore vault to date…",
+			callback: () => {
+				this.syncManager.restoreToDate();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-create-snapshot",
+			name: "Create snapshot now",
+			callback: () => {
+				this.syncManager.createSnapshot();
+			},
+		});
+
+		this.addCommand({
+			id: "s3-show-snapshots",
+			name: "Show snapshots",
+			callback: () => {
+				this.syncManager.showSnapshots();
+			},
+		});
+
 		// Register delete event handler for real-time sync
 		this.registerEvent(
 			this.app.vault.on("delete", (file) => {
+				this.syncManager.trackLocalChange(file);
 				if (
 					file instanceof TFile &&
 					!file.path.split("/").some((part) => part.startsWith("."))
 				) {
-					this.syncManager.handleLocalDelete(file.path);
+					this.syncManager.handleLocalDelete(file);
 				}
 			}),
 		);
 
+		// Move the remote copies of renamed files and folders right away
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.syncManager.handleLocalRename(file, oldPath);
+			}),
+		);
+
+		// Track changed files for incremental syncs and push them after a quiet
+		// period. Registered once the vault is loaded, as the vault emits a
+		// create event for every file on startup.
+		this.app.workspace.onLayoutReady(() => {
+			const onChange = (file: TAbstractFile, oldPath?: string) => {
+				this.syncManager.trackLocalChange(file, oldPath);
+				if (this.settings.enableLivePush && file instanceof TFile) {
+					this.livePushQueue.add(file.path);
+				}
+			};
+			this.registerEvent(this.app.vault.on("create", onChange));
+			this.registerEvent(this.app.vault.on("modify", onChange));
+			this.registerEvent(this.app.vault.on("rename", onChange));
+		});
+
 		this.updateSyncInterval();
 		this.syncManager; // Run initial sync automatically when plugin loads
 	}
 
 	onunload() {
+		this.livePushQueue.cancel();
 		if (this.syncIntervalId !== null) {
 			window.clearInterval(this.syncIntervalId);
 		}
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData(),
-		);
+		const pluginData = (await this.loadData()) ?? {};
+		// Plugin data also holds the sync state, which is not a setting
+		const settings: Partial<S3SyncSettings> = {};
+		for (const key of Object.keys(DEFAULT_SETTINGS)) {
+			if (key in pluginData) {
+				settings[key as keyof S3SyncSettings] = pluginData[key];
+			}
+		}
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		// Empty or garbled saved values fall back to the defaults
+		for (const key of ["downloadConcurrency", "uploadConcurrency"] as const) {
+			const value = Math.floor(this.settings[key]);
+			this.settings[key] =
+				Number.isFinite(value) && value >= 1 ? value : DEFAULT_SETTINGS[key];
+		}
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		// Keep the sync state and other data stored next to the settings
+		const pluginData = (await this.loadData()) ?? {};
+		await this.saveData({ ...pluginData, ...this.settings });
 		// Inform the sync manager and scheduler of setting changes.
 		this.syncManager.updateSettings(this.settings);
 		this.updateSyncInterval();
@@ -71,13 +192,18 @@ export default class S3SyncPlugin extends Plugin {
 		}
 
 		if (
-			this.settings.enableAutomaticSync &&
+			(this.settings.enableAutomaticSync ||
+				this.settings.enableSnapshots) &&
 			this.settings.syncIntervalMinutes > 0
 		) {
 			const intervalMillis =
 				this.settings.syncIntervalMinutes * 60 * 1000;
-			this.syncIntervalId = window.setInterval(() => {
-				this.syncManager.runSync();
+			this.syncIntervalId = window.setInterval(async () => {
+				if (this.settings.enableAutomaticSync) {
+					await this.syncManager.runSync();
+				}
+				// Snapshots are checked on the same schedule
+				await this.syncManager.createSnapshotIfDue();
 			}, intervalMillis);
 
 			if (this.settings.enableDebugLogging) {
@@ -0,0 +1,54 @@
+import { App } from "obsidian";
+import S3SyncPlugin from "../main";
+import { PluginJsonFile } from "../sync/PluginFolder";
+import { ManifestEntry } from "./RemoteManifest";
+
+/**
+ * Remembers vault files changed remotely that are not in the remote
+ * manifest yet, null for deletions. Stored in its own file in the plugin
+ * folder, so changes of an interrupted sync are published by the next one
+ * instead of looking like remote deletions.
+ */
+export class ManifestChangeStore {
+	// Without the file, the next full sync rebuilds the manifest
+	private file: PluginJsonFile<Record<string, ManifestEntry | null>>;
+
+	constructor(app: App, plugin: S3SyncPlugin) {
+		this.file = new PluginJsonFile(
+			app,
+			plugin,
+			"manifest-changes.json",
+			"unpublished manifest changes",
+			() => ({}),
+		);
+	}
+
+	/**
+	 * Gets a copy of the unpublished changes
+	 */
+	async entries(): Promise<Map<string, ManifestEntry | null>> {
+		return new Map(Object.entries(await this.file.load()));
+	}
+
+	async set(path: string, entry: ManifestEntry | null): Promise<void> {
+		(await this.file.load())[path] = entry;
+		await this.file.save();
+	}
+
+	/**
+	 * Forgets published changes, unless the file changed again since
+	 */
+	async removePublished(published: Map<string, ManifestEntry | null>): Promise<void> {
+		const changes = await this.file.load();
+		for (const [path, entry] of published) {
+			if (path in changes && this.isSameEntry(changes[path], entry)) {
+				delete changes[path];
+			}
+		}
+		await this.file.save();
+	}
+
+	private isSameEntry(a: ManifestEntry | null, b: ManifestEntry | null): boolean {
+		return JSON.stringify(a) === JSON.stringify(b);
+	}
+}
@@ -0,0 +1,56 @@
+import { App } from "obsidian";
+import S3SyncPlugin from "../main";
+import { PluginJsonFile } from "../sync/PluginFolder";
+
+/**
+ * A multipart upload that was started but not completed
+ */
+export interface PendingUpload {
+	uploadId: string;
+	hash: string; // SHA-256 of the content being uploaded
+	partSize: number;
+	parts: { partNumber: number; etag: string }[]; // Uploaded parts
+	startedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Remembers unfinished multipart uploads by remote key, so an interrupted
+ * upload continues with the missing parts on the next sync.
+ * Stored in its own file in the plugin folder, as parts complete while a
+ * sync runs.
+ */
+export class MultipartUploadStore {
+	// Without the file, an interrupted upload starts over
+	private file: PluginJsonFile<Record<string, PendingUpload>>;
+
+	constructor(app: App, plugin: S3SyncPlugin) {
+		this.file = new PluginJsonFile(
+			app,
+			plugin,
+			"uploads.json",
+			"pending uploads",
+			() => ({}),
+		);
+	}
+
+	async get(key: string): Promise<PendingUpload | undefined> {
+		return (await this.file.load())[key];
+	}
+
+	async entries(): Promise<[string, PendingUpload][]> {
+		return Object.entries(await this.file.load());
+	}
+
+	async set(key: string, upload: PendingUpload): Promise<void> {
+		(await this.file.load())[key] = upload;
+		await this.file.save();
+	}
+
+	async delete(key: string): Promise<void> {
+		const uploads = await this.file.load();
+		if (key in uploads) {
+			delete uploads[key];
+			await this.file.save();
+		}
+	}
+}
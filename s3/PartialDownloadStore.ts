@@ -0,0 +1,201 @@
+import { App, DataAdapter, DataWriteOptions } from "obsidian";
+import S3SyncPlugin from "../main";
+import { computeContentHash } from "../sync/ContentHash";
+import { getPluginDir, readJsonFile, writeJsonFile } from "../sync/PluginFolder";
+
+/**
+ * A ranged download that was started but not completed
+ */
+export interface PartialDownload {
+	key: string;
+	etag: string; // ETag of the object version the chunks belong to
+	size: number;
+	chunkSize: number;
+	chunks: number[]; // Indexes of the downloaded chunks
+	startedAt: number; // Unix timestamp in milliseconds
+}
+
+// DataAdapter.appendBinary, available from Obsidian 1.12.3
+type AppendingAdapter = DataAdapter & {
+	appendBinary?: (
+		normalizedPath: string,
+		data: ArrayBuffer,
+		options?: DataWriteOptions,
+	) => Promise<void>;
+};
+
+/**
+ * Keeps the downloaded chunks of large files in the plugin folder, so an
+ * interrupted download continues with the missing chunks on the next sync.
+ * Each download is stored in a folder named after the SHA-256 of its key.
+ */
+export class PartialDownloadStore {
+	private readonly DOWNLOADS_FOLDER = "downloads";
+	private readonly INFO_FILE = "download.json";
+	private readonly CONTENT_FILE = "content";
+
+	constructor(
+		private app: App,
+		private plugin: S3SyncPlugin,
+	) {}
+
+	/**
+	 * Opens the download of an object version. Chunks of a different version
+	 * or chunk size are discarded.
+	 */
+	async open(
+		key: string,
+		etag: string,
+		size: number,
+		chunkSize: number,
+	): Promise<PartialDownload> {
+		const folder = await this.getDownloadFolder(key);
+		const stored = await this.readInfo(folder);
+		if (
+			stored &&
+			stored.key === key &&
+			stored.etag === etag &&
+			stored.size === size &&
+			stored.chunkSize === chunkSize
+		) {
+			return stored;
+		}
+
+		await this.discard(key);
+		const download: PartialDownload = {
+			key,
+			etag,
+			size,
+			chunkSize,
+			chunks: [],
+			startedAt: Date.now(),
+		};
+		await this.writeInfo(folder, download);
+		return download;
+	}
+
+	/**
+	 * Stores a chunk, then records it as downloaded
+	 */
+	async saveChunk(
+		download: PartialDownload,
+		index: number,
+		data: ArrayBuffer,
+	): Promise<void> {
+		const folder = await this.getDownloadFolder(download.key);
+		await this.app.vault.adapter.writeBinary(`${folder}/${index}`, data);
+		download.chunks.push(index);
+		await this.writeInfo(folder, download);
+	}
+
+	async readChunk(download: PartialDownload, index: number): Promise<ArrayBuffer> {
+		const folder = await this.getDownloadFolder(download.key);
+		return this.app.vault.adapter.readBinary(`${folder}/${index}`);
+	}
+
+	/**
+	 * Checks if the chunks can be joined into one file on disk, which needs
+	 * an app that can append to files
+	 */
+	canJoinChunks(): boolean {
+		return (
+			typeof (this.app.vault.adapter as AppendingAdapter).appendBinary ===
+			"function"
+		);
+	}
+
+	/**
+	 * Appends a chunk to the joined file of a download, starting the file
+	 * with the first chunk
+	 */
+	async appendToContent(
+		download: PartialDownload,
+		index: number,
+		data: ArrayBuffer,
+		options?: DataWriteOptions,
+	): Promise<void> {
+		const adapter = this.app.vault.adapter as AppendingAdapter;
+		const path = await this.getContentPath(download);
+		if (index === 0) {
+			await adapter.writeBinary(path, data, options);
+		} else if (adapter.appendBinary) {
+			await adapter.appendBinary(path, data, options);
+		} else {
+			throw new Error("Appending to files needs Obsidian 1.12.3 or later");
+		}
+	}
+
+	/**
+	 * Moves the joined file of a download to its place in the vault,
+	 * replacing the file there
+	 */
+	async moveContent(download: PartialDownload, targetPath: string): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(targetPath)) {
+			await adapter.remove(targetPath);
+		}
+		await adapter.rename(await this.getContentPath(download), targetPath);
+	}
+
+	/**
+	 * Removes the chunks of a completed or failed download
+	 */
+	async discard(key: string): Promise<void> {
+		const folder = await this.getDownloadFolder(key);
+		if (await this.app.vault.adapter.exists(folder)) {
+			await this.app.vault.adapter.rmdir(folder, true);
+		}
+	}
+
+	/**
+	 * Removes downloads started before the cutoff, which are unlikely to be
+	 * continued
+	 * @returns The number of removed downloads
+	 */
+	async discardOlderThan(cutoff: number): Promise<number> {
+		const downloadsFolder = this.getDownloadsFolder();
+		if (!(await this.app.vault.adapter.exists(downloadsFolder))) {
+			return 0;
+		}
+		let removed = 0;
+		const { folders } = await this.app.vault.adapter.list(downloadsFolder);
+		for (const folder of folders) {
+			const download = await this.readInfo(folder);
+			if (!download || download.startedAt < cutoff) {
+				await this.app.vault.adapter.rmdir(folder, true);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	private async readInfo(folder: string): Promise<PartialDownload | null> {
+		try {
+			return await readJsonFile<PartialDownload>(
+				this.app,
+				`${folder}/${this.INFO_FILE}`,
+			);
+		} catch (error) {
+			// Without the record, an interrupted download starts over
+			console.warn("S3 Sync: Could not load partial download:", error);
+			return null;
+		}
+	}
+
+	private async writeInfo(folder: string, download: PartialDownload): Promise<void> {
+		await writeJsonFile(this.app, `${folder}/${this.INFO_FILE}`, download);
+	}
+
+	private async getContentPath(download: PartialDownload): Promise<string> {
+		return `${await this.getDownloadFolder(download.key)}/${this.CONTENT_FILE}`;
+	}
+
+	private getDownloadsFolder(): string {
+		return `${getPluginDir(this.app, this.plugin)}/${this.DOWNLOADS_FOLDER}`;
+	}
+
+	private async getDownloadFolder(key: string): Promise<string> {
+		const keyHash = await computeContentHash(new TextEncoder().encode(key).buffer);
+		return `${this.getDownloadsFolder()}/${keyHash}`;
+	}
+}
@@ -0,0 +1,49 @@
+// Object below the remote prefix listing all vault files, maintained by
+// every device that writes to the bucket
+export const MANIFEST_PATH = ".kisss3/manifest.json";
+
+/**
+ * A remote vault file as recorded in the manifest
+ */
+export interface ManifestEntry {
+	mtime: number; // S3 LastModified in milliseconds
+	size: number;
+	etag?: string;
+	hash?: string; // SHA-256 of the content, if known
+}
+
+/**
+ * Contents of the manifest object
+ */
+export interface RemoteManifest {
+	generation: number; // Incremented with every write
+	files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Parses the manifest object
+ * @returns The manifest, or null if it is not a valid manifest
+ */
+export function parseManifest(text: string): RemoteManifest | null {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	const { generation, files } = (data ?? {}) as Partial<RemoteManifest>;
+	if (
+		!Number.isInteger(generation) ||
+		(generation as number) < 1 ||
+		typeof files !== "object" ||
+		files === null ||
+		Array.isArray(files)
+	) {
+		return null;
+	}
+	const valid = Object.values(files).every(
+		(entry) =>
+			typeof entry?.mtime === "number" && typeof entry?.size === "number",
+	);
+	return valid ? { generation: generation as number, files } : null;
+}
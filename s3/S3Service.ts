@@ -7,18 +7,150 @@ import {
 	PutObjectCommand,
 	DeleteObjectCommand,
 	HeadObjectCommand,
+	CopyObjectCommand,
+	ListObjectVersionsCommand,
+	ListObjectVersionsCommandOutput,
+	CreateMultipartUploadCommand,
+	UploadPartCommand,
+	UploadPartCopyCommand,
+	CompleteMultipartUploadCommand,
+	AbortMultipartUploadCommand,
+	ListMultipartUploadsCommand,
+	ListMultipartUploadsCommandOutput,
+	GetObjectCommandOutput,
+	HeadObjectCommandOutput,
+	ObjectVersion,
+	DeleteMarkerEntry,
 	_Object as S3Object, // Alias to avoid conflict with Object
 } from "@aws-sdk/client-s3";
 
 import { S3SyncSettings } from "../settings";
 import S3SyncPlugin from "../main";
+import { computeContentHash } from "../sync/ContentHash";
+import { createMd5, createSha256 } from "../sync/IncrementalHash";
+import { IGNORE_FILE } from "../sync/IgnoreRules";
+import {
+	MANIFEST_PATH,
+	ManifestEntry,
+	RemoteManifest,
+	parseManifest,
+} from "./RemoteManifest";
+import { ManifestChangeStore } from "./ManifestChangeStore";
+import { MultipartUploadStore } from "./MultipartUploadStore";
+import { PartialDownload, PartialDownloadStore } from "./PartialDownloadStore";
+
+/**
+ * Metadata of a remote object as returned by HeadObject
+ */
+export interface RemoteFileMetadata {
+	mtime: number; // S3 LastModified in milliseconds
+	size?: number;
+	etag?: string;
+	hash?: string; // SHA-256 stored as object metadata on upload
+	md5?: string; // MD5 from the ETag of objects uploaded in one part
+}
+
+/**
+ * An object below a folder, as listed by listFolder
+ */
+export interface RemoteFolderEntry {
+	key: string; // S3 object key
+	path: string; // Path relative to the remote prefix
+	mtime: number; // LastModified in milliseconds
+	size?: number;
+}
+
+/**
+ * A file in the remote trash
+ */
+export interface RemoteTrashEntry {
+	key: string; // S3 object key of the trashed copy
+	path: string; // Original vault path
+	deletedAt: number; // LastModified of the trashed copy in milliseconds
+	size?: number;
+}
+
+/**
+ * A stored version of a remote file, as listed by ListObjectVersions
+ */
+export interface RemoteFileVersion {
+	versionId: string;
+	mtime: number; // LastModified of the version in milliseconds
+	size?: number;
+	etag?: string;
+	isLatest: boolean;
+}
+
+// Folder below the remote prefix that holds deleted files
+const REMOTE_TRASH_FOLDER = ".trash";
+
+// Multipart uploads and partial downloads started longer ago are discarded
+const STALE_TRANSFER_DAYS = 7;
+
+/**
+ * The remote files as recorded in the manifest, in the same form as
+ * listRemoteFiles
+ */
+export interface ManifestListing {
+	etag: string; // Empty if there is no manifest
+	files: Map<string, S3Object> | null; // Null if missing or inconsistent
+}
+
+/**
+ * The manifest ETag before and after it was rewritten
+ */
+export interface PublishedChanges {
+	previous: string; // Empty if there was no manifest
+	current: string;
+}
+
+/**
+ * Gets the MD5 of an object's content from its ETag. Only objects uploaded
+ * in one part without SSE-KMS or SSE-C have such an ETag.
+ * @returns The MD5 as a lowercase hex string, or undefined if the ETag is
+ * not an MD5
+ */
+export function getEtagMd5(object: {
+	ETag?: string;
+	ServerSideEncryption?: string;
+	SSECustomerAlgorithm?: string;
+}): string | undefined {
+	const etag = object.ETag?.replace(/"/g, "").toLowerCase();
+	if (
+		!etag ||
+		!/^[0-9a-f]{32}$/.test(etag) ||
+		object.ServerSideEncryption?.startsWith("aws:kms") ||
+		object.SSECustomerAlgorithm
+	) {
+		return undefined;
+	}
+	return etag;
+}
 
 // Manages all interactions with the S3-compatible object storage.
 export class S3Service {
 	private client: S3Client | null = null;
+	// Vault files changed since the last publishChanges, null for deletions
+	private manifestChanges: ManifestChangeStore;
+	// Last manifest read or written by this device
+	private manifest: { etag: string; content: RemoteManifest } | null = null;
+	private manifestNeedsRebuild = false;
+	private readonly MANIFEST_WRITE_ATTEMPTS = 5;
+	private readonly PART_SIZE = 8 * 1024 * 1024; // At least 5 MiB, except the last part
+	private readonly MAX_PARTS = 10000;
+	private readonly PART_ATTEMPTS = 3;
+	private readonly PART_RETRY_DELAY_MS = 1000;
+	private readonly RANGE_SIZE = 8 * 1024 * 1024;
+	private readonly MAX_COPY_SIZE = 5 * 1024 * 1024 * 1024; // Limit of CopyObject
+	private readonly COPY_PART_SIZE = 1024 * 1024 * 1024; // At most 5 GiB
+	private uploadStore: MultipartUploadStore;
+	private downloadStore: PartialDownloadStore;
 
 	constructor(private settings: S3SyncSettings, private plugin: S3SyncPlugin) {
 		this.initializeClient();
+		this.uploadStore = new MultipartUploadStore(plugin.app, plugin);
+		this.downloadStore = new PartialDownloadStore(plugin.app, plugin);
+		this.manifestChanges = new ManifestChangeStore(plugin.app, plugin);
 	}
 
 	private initializeClient() {
@@ -115,30 +247,288 @@ export class S3Service {
 		if (this.plugin.settings.enableDebugLogging) {
 			console.log(`listRemoteFiles(),found ${remoteFiles.size} files`);
 		}
+		if (this.manifest && !this.matchesManifest(remoteFiles)) {
+			this.manifestNeedsRebuild = true;
+		}
 		return remoteFiles;
 	}
 
-	async uploadFile(file: TFile, content: ArrayBuffer): Promise<number> {
+	async uploadFile(
+		file: TFile,
+		content: ArrayBuffer,
+	): Promise<RemoteFileMetadata> {
+		return this.putFile(file.path, content);
+	}
+
+	/**
+	 * Uploads content to a path below the remote prefix, which does not have
+	 * to be a vault file (e.g. snapshots)
+	 */
+	async putFile(
+		filePath: string,
+		content: ArrayBuffer,
+	): Promise<RemoteFileMetadata> {
 		if (!this.isConfigured()) throw new Error("S3 client not configured.");
 
 		const body = new Uint8Array(content);
+		const hash = await computeContentHash(content);
 		if (this.plugin.settings.enableDebugLogging) {
 			console.log(
-				`uploadFile(${file.path}), bucket: ${this.settings.bucketName}, key: ${this.getRemoteKey(file.path)}`,
+				`uploadFile(${filePath}), bucket: ${this.settings.bucketName}, key: ${this.getRemoteKey(filePath)}`,
+			);
+		}
+		if (body.length > this.settings.multipartThresholdMB * 1024 * 1024) {
+			await this.putFileInParts(this.getRemoteKey(filePath), body, hash);
+		} else {
+			const command = new PutObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: this.getRemoteKey(filePath),
+				Body: body,
+				ContentLength: body.length,
+				ContentType: "application/octet-stream", // Always use octet-stream
+				Metadata: { sha256: hash },
+			});
+
+			await this.client!.send(command);
+		}
+
+		// After upload, retrieve the actual LastModified timestamp and ETag from S3 using HeadObject
+		const metadata = await this.headFile(filePath);
+		await this.noteChange(filePath, { ...metadata, size: body.length, hash });
+		return { ...metadata, size: body.length, hash };
+	}
+
+	/**
+	 * Uploads content with a multipart upload. Failed parts are retried, and
+	 * an interrupted upload of the same content continues with the parts
+	 * that are still missing.
+	 */
+	private async putFileInParts(
+		key: string,
+		body: Uint8Array,
+		hash: string,
+	): Promise<void> {
+		const partSize = Math.max(
+			this.PART_SIZE,
+			Math.ceil(body.length / this.MAX_PARTS),
+		);
+		let upload = await this.uploadStore.get(key);
+		if (upload && (upload.hash !== hash || upload.partSize !== partSize)) {
+			// The file changed since the upload was started
+			await this.abortUpload(key, upload.uploadId);
+			upload = undefined;
+		}
+		const resumed = !!upload;
+		if (!upload) {
+			const response = await this.client!.send(
+				new CreateMultipartUploadCommand({
+					Bucket: this.settings.bucketName,
+					Key: key,
+					ContentType: "application/octet-stream",
+					Metadata: { sha256: hash },
+				}),
+			);
+			if (!response.UploadId) {
+				throw new Error(`No upload ID returned for ${key}`);
+			}
+			upload = {
+				uploadId: response.UploadId,
+				hash,
+				partSize,
+				parts: [],
+				startedAt: Date.now(),
+			};
+			await this.uploadStore.set(key, upload);
+		} else if (this.plugin.settings.enableDebugLogging) {
+			console.log(
+				`putFileInParts(${key}), resuming with ${upload.parts.length} uploaded parts`,
+			);
+		}
+
+		const partCount = Math.max(1, Math.ceil(body.length / partSize));
+		try {
+			for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+				if (upload.parts.some((part) => part.partNumber === partNumber)) {
+					continue;
+				}
+				const etag = await this.uploadPart(
+					key,
+					upload.uploadId,
+					partNumber,
+					body.subarray((partNumber - 1) * partSize, partNumber * partSize),
+				);
+				upload.parts.push({ partNumber, etag });
+				await this.uploadStore.set(key, upload);
+			}
+			await this.client!.send(
+				new CompleteMultipartUploadCommand({
+					Bucket: this.settings.bucketName,
+					Key: key,
+					UploadId: upload.uploadId,
+					MultipartUpload: {
+						Parts: [...upload.parts]
+							.sort((a, b) => a.partNumber - b.partNumber)
+							.map((part) => ({
+								PartNumber: part.partNumber,
+								ETag: part.etag,
+							})),
+					},
+				}),
 			);
+		} catch (error) {
+			if (!this.isNoSuchUpload(error)) {
+				throw error;
+			}
+			// The upload was aborted or expired in the meantime
+			await this.uploadStore.delete(key);
+			if (resumed) {
+				return this.putFileInParts(key, body, hash);
+			}
+			throw error;
+		}
+		await this.uploadStore.delete(key);
+	}
+
+	/**
+	 * Uploads one part, retrying it a few times before giving up
+	 * @returns The ETag of the part
+	 */
+	private async uploadPart(
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		body: Uint8Array,
+	): Promise<string> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const response = await this.client!.send(
+					new UploadPartCommand({
+						Bucket: this.settings.bucketName,
+						Key: key,
+						UploadId: uploadId,
+						PartNumber: partNumber,
+						Body: body,
+						ContentLength: body.length,
+					}),
+				);
+				if (!response.ETag) {
+					throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+				}
+				return response.ETag;
+			} catch (error) {
+				if (this.isNoSuchUpload(error) || attempt === this.PART_ATTEMPTS) {
+					throw error;
+				}
+				console.warn(
+					`S3 Sync: Retrying part ${partNumber} of ${key}:`,
+					error,
+				);
+				await new Promise((resolve) =>
+					setTimeout(resolve, this.PART_RETRY_DELAY_MS * attempt),
+				);
+			}
 		}
-		const command = new PutObjectCommand({
+	}
+
+	/**
+	 * Aborts multipart uploads below the remote prefix that were started
+	 * more than a week ago, by this or any other device
+	 * @returns The number of aborted uploads
+	 */
+	async abortStaleUploads(): Promise<number> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		const cutoff = Date.now() - STALE_TRANSFER_DAYS * 24 * 60 * 60 * 1000;
+		let aborted = 0;
+		let keyMarker: string | undefined = undefined;
+		let uploadIdMarker: string | undefined = undefined;
+		let isTruncated = true;
+		while (isTruncated) {
+			const response: ListMultipartUploadsCommandOutput =
+				await this.client!.send(
+					new ListMultipartUploadsCommand({
+						Bucket: this.settings.bucketName,
+						Prefix: this.settings.remotePrefix.trim(),
+						KeyMarker: keyMarker,
+						UploadIdMarker: uploadIdMarker,
+					}),
+				);
+			for (const upload of response.Uploads ?? []) {
+				if (
+					upload.Key &&
+					upload.UploadId &&
+					(upload.Initiated?.getTime() ?? 0) < cutoff
+				) {
+					await this.abortUpload(upload.Key, upload.UploadId);
+					aborted++;
+				}
+			}
+			isTruncated = response.IsTruncated ?? false;
+			keyMarker = response.NextKeyMarker;
+			uploadIdMarker = response.NextUploadIdMarker;
+		}
+		for (const [key, upload] of await this.uploadStore.entries()) {
+			if (upload.startedAt < cutoff) {
+				await this.uploadStore.delete(key);
+			}
+		}
+		return aborted;
+	}
+
+	private async abortUpload(key: string, uploadId: string): Promise<void> {
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`abortUpload(${key}, ${uploadId})`);
+		}
+		try {
+			await this.client!.send(
+				new AbortMultipartUploadCommand({
+					Bucket: this.settings.bucketName,
+					Key: key,
+					UploadId: uploadId,
+				}),
+			);
+		} catch (error) {
+			if (!this.isNoSuchUpload(error)) {
+				throw error;
+			}
+		}
+		await this.uploadStore.delete(key);
+	}
+
+	private isNoSuchUpload(error: unknown): boolean {
+		return (error as { name?: string }).name === "NoSuchUpload";
+	}
+
+	/**
+	 * Gets mtime, size, ETag, stored SHA-256 and, if the ETag is one, the
+	 * MD5 of a remote file (or one of its versions) using HeadObject
+	 */
+	async headFile(
+		filePath: string,
+		versionId?: string,
+	): Promise<RemoteFileMetadata> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`headFile(${filePath}${versionId ? `, ${versionId}` : ""})`);
+		}
+		const command = new HeadObjectCommand({
 			Bucket: this.settings.bucketName,
-			Key: this.getRemoteKey(file.path),
-			Body: body,
-			ContentLength: body.length,
-			ContentType: "application/octet-stream", // Always use octet-stream
+			Key: this.getRemoteKey(filePath),
+			VersionId: versionId,
 		});
 
-		await this.client!.send(command);
+		const response = await this.client!.send(command);
 
-		// After upload, retrieve the actual LastModified timestamp from S3 using HeadObject
-		return await this.getFileMetadata(file.path);
+		if (!response.LastModified) {
+			console.error(`LastModified not available for ${filePath}`);
+		}
+		return {
+			mtime: response.LastModified?.getTime() ?? Date.now(),
+			size: response.ContentLength,
+			etag: response.ETag,
+			hash: response.Metadata?.sha256,
+			md5: getEtagMd5(response),
+		};
 	}
 
 	/**
@@ -165,15 +555,375 @@ export class S3Service {
 		return Date.now();
 	}
 
-	async downloadFile(s3Object: S3Object): Promise<ArrayBuffer> {
+	/**
+	 * Downloads a remote object. Objects above the ranged download threshold
+	 * are fetched in byte ranges, if their size is known.
+	 * @param onProgress Called with the received and total bytes of ranged downloads
+	 */
+	async downloadFile(
+		s3Object: S3Object,
+		onProgress?: (received: number, total: number) => void,
+	): Promise<ArrayBuffer> {
 		if (!this.isConfigured()) throw new Error("S3 client not configured.");
 
+		if (s3Object.Key && this.isRangedDownload(s3Object)) {
+			return this.downloadInRanges(s3Object.Key, onProgress);
+		}
+
 		const command = new GetObjectCommand({
 			Bucket: this.settings.bucketName,
 			Key: s3Object.Key,
 		});
 
 		const response = await this.client!.send(command);
+		return this.readBody(response);
+	}
+
+	/**
+	 * Downloads an object above the ranged download threshold into a vault
+	 * file. The ranges are joined on disk, so the content is never held in
+	 * memory as a whole. Needs an app that can append to files.
+	 * @param mtime Modification time to set on the file
+	 * @param onProgress Called with the received and total bytes
+	 * @returns Size and SHA-256 of the file, or null if the object is not
+	 * downloaded in ranges or the app cannot append to files
+	 */
+	async downloadFileTo(
+		s3Object: S3Object,
+		filePath: string,
+		mtime: number,
+		onProgress?: (received: number, total: number) => void,
+	): Promise<{ size: number; hash: string } | null> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		const key = s3Object.Key;
+		if (!key || !this.isRangedDownload(s3Object) || !this.downloadStore.canJoinChunks()) {
+			return null;
+		}
+		const { head, download } = await this.downloadRanges(key, onProgress);
+		const hash = await this.joinRanges(key, head, download, (index, chunk) =>
+			this.downloadStore.appendToContent(download, index, chunk, { mtime }),
+		);
+		await this.downloadStore.moveContent(download, filePath);
+		await this.downloadStore.discard(key);
+		return { size: download.size, hash };
+	}
+
+	private isRangedDownload(s3Object: S3Object): boolean {
+		return (
+			(s3Object.Size ?? 0) >
+			this.settings.rangedDownloadThresholdMB * 1024 * 1024
+		);
+	}
+
+	/**
+	 * Downloads an object in byte ranges and joins them in memory
+	 */
+	private async downloadInRanges(
+		key: string,
+		onProgress?: (received: number, total: number) => void,
+	): Promise<ArrayBuffer> {
+		const { head, download } = await this.downloadRanges(key, onProgress);
+		const content = new Uint8Array(download.size);
+		await this.joinRanges(key, head, download, async (index, chunk) => {
+			content.set(new Uint8Array(chunk), index * download.chunkSize);
+		});
+		await this.downloadStore.discard(key);
+		return content.buffer;
+	}
+
+	/**
+	 * Downloads the current version of an object in byte ranges, keeping
+	 * each range in the plugin folder. Failed ranges are retried, and an
+	 * interrupted download of the same version continues with the ranges
+	 * that are still missing.
+	 */
+	private async downloadRanges(
+		key: string,
+		onProgress?: (received: number, total: number) => void,
+	): Promise<{ head: HeadObjectCommandOutput; download: PartialDownload }> {
+		const head = await this.client!.send(
+			new HeadObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: key,
+			}),
+		);
+		if (!head.ETag) {
+			throw new Error(`No ETag returned for ${key}`);
+		}
+		const size = head.ContentLength ?? 0;
+		const rangeCount = Math.ceil(size / this.RANGE_SIZE);
+		const getRangeLength = (index: number) =>
+			Math.min(this.RANGE_SIZE, size - index * this.RANGE_SIZE);
+
+		const download = await this.downloadStore.open(
+			key,
+			head.ETag,
+			size,
+			this.RANGE_SIZE,
+		);
+		const stored = new Set(download.chunks);
+		let received = download.chunks.reduce(
+			(total, index) => total + getRangeLength(index),
+			0,
+		);
+		onProgress?.(received, size);
+		try {
+			for (let index = 0; index < rangeCount; index++) {
+				if (stored.has(index)) {
+					continue;
+				}
+				const data = await this.downloadRange(
+					key,
+					head.ETag,
+					index * this.RANGE_SIZE,
+					getRangeLength(index),
+				);
+				await this.downloadStore.saveChunk(download, index, data);
+				received += data.byteLength;
+				onProgress?.(received, size);
+			}
+		} catch (error) {
+			if (this.isWriteConflict(error)) {
+				// The object changed, so the stored ranges are outdated
+				await this.downloadStore.discard(key);
+			}
+			throw error;
+		}
+		return { head, download };
+	}
+
+	/**
+	 * Passes the stored ranges of a download on in order, checking their
+	 * sizes and the checksum of the whole content. Objects uploaded by this
+	 * plugin are checked against their stored SHA-256, other objects
+	 * uploaded in one part against their ETag. Objects uploaded elsewhere in
+	 * several parts are only checked by size. A download that fails the
+	 * checks is discarded and starts over on the next sync.
+	 * @returns The SHA-256 of the content
+	 */
+	private async joinRanges(
+		key: string,
+		head: HeadObjectCommandOutput,
+		download: PartialDownload,
+		write: (index: number, chunk: ArrayBuffer) => Promise<void>,
+	): Promise<string> {
+		const reject = async (problem: string): Promise<never> => {
+			await this.downloadStore.discard(key);
+			throw new Error(`Downloaded content of ${key} does not match its ${problem}`);
+		};
+		const expectedHash = head.Metadata?.sha256;
+		const expectedMd5 = expectedHash ? undefined : getEtagMd5(head);
+		const sha256 = createSha256();
+		const md5 = expectedMd5 ? createMd5() : null;
+		const rangeCount = Math.ceil(download.size / download.chunkSize);
+		for (let index = 0; index < rangeCount; index++) {
+			const chunk = await this.downloadStore.readChunk(download, index);
+			const offset = index * download.chunkSize;
+			if (chunk.byteLength !== Math.min(download.chunkSize, download.size - offset)) {
+				return reject("size");
+			}
+			sha256.update(chunk);
+			md5?.update(chunk);
+			await write(index, chunk);
+		}
+		const hash = sha256.digest();
+		if ((expectedHash && hash !== expectedHash) || (md5 && md5.digest() !== expectedMd5)) {
+			return reject("checksum");
+		}
+		return hash;
+	}
+
+	/**
+	 * Downloads a byte range of an object version, retrying failed requests.
+	 * A changed object is not retried, as its ranges cannot be combined.
+	 */
+	private async downloadRange(
+		key: string,
+		etag: string,
+		start: number,
+		length: number,
+	): Promise<ArrayBuffer> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const response = await this.client!.send(
+					new GetObjectCommand({
+						Bucket: this.settings.bucketName,
+						Key: key,
+						Range: `bytes=${start}-${start + length - 1}`,
+						IfMatch: etag,
+					}),
+				);
+				const data = await this.readBody(response);
+				if (data.byteLength !== length) {
+					throw new Error(
+						`Received ${data.byteLength} of ${length} bytes at offset ${start} of ${key}`,
+					);
+				}
+				return data;
+			} catch (error) {
+				if (this.isWriteConflict(error) || attempt === this.PART_ATTEMPTS) {
+					throw error;
+				}
+				console.warn(
+					`S3 Sync: Retrying bytes at offset ${start} of ${key}:`,
+					error,
+				);
+				await new Promise((resolve) =>
+					setTimeout(resolve, this.PART_RETRY_DELAY_MS * attempt),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Removes partial downloads that were started more than a week ago
+	 * @returns The number of removed downloads
+	 */
+	async discardStaleDownloads(): Promise<number> {
+		return this.downloadStore.discardOlderThan(
+			Date.now() - STALE_TRANSFER_DAYS * 24 * 60 * 60 * 1000,
+		);
+	}
+
+	/**
+	 * Lists the stored versions of a file, newest first. Delete markers are
+	 * left out. Without bucket versioning, only the current version is listed.
+	 */
+	async listFileVersions(filePath: string): Promise<RemoteFileVersion[]> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`listFileVersions(${filePath})`);
+		}
+
+		const key = this.getRemoteKey(filePath);
+		const { versions } = await this.listObjectVersions(key);
+		return versions
+			// The prefix also matches longer keys, e.g. "note.md.bak"
+			.filter((version) => version.Key === key && version.VersionId)
+			.map((version) => this.toRemoteFileVersion(version))
+			.sort((a, b) => b.mtime - a.mtime);
+	}
+
+	/**
+	 * Determines which version of each file was current at a point in time.
+	 * Files that did not exist then, or were deleted, are not included.
+	 * @param timestamp Point in time in milliseconds
+	 * @param folder Only consider files in this folder, empty for the vault
+	 */
+	async listVersionsAt(
+		timestamp: number,
+		folder = "",
+	): Promise<Map<string, RemoteFileVersion>> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`listVersionsAt(${new Date(timestamp).toISOString()}, ${folder})`);
+		}
+
+		const { versions, deleteMarkers } = await this.listObjectVersions(
+			this.getRemoteKey(folder ? `${folder}/` : ""),
+		);
+
+		// Newest version or delete marker per key at the timestamp
+		const current = new Map<
+			string,
+			{ mtime: number; version: ObjectVersion | null }
+		>();
+		const consider = (
+			key: string | undefined,
+			lastModified: Date | undefined,
+			version: ObjectVersion | null,
+		) => {
+			const mtime = lastModified?.getTime() ?? 0;
+			if (!key || mtime > timestamp) return;
+			const existing = current.get(key);
+			if (!existing || mtime > existing.mtime) {
+				current.set(key, { mtime, version });
+			}
+		};
+		versions.forEach((v) => consider(v.Key, v.LastModified, v));
+		deleteMarkers.forEach((m) => consider(m.Key, m.LastModified, null));
+
+		const result = new Map<string, RemoteFileVersion>();
+		for (const [key, { version }] of current.entries()) {
+			const relativePath = this.getLocalPath(key);
+			if (
+				version?.VersionId &&
+				relativePath &&
+				!key.endsWith("/") &&
+				!this.shouldIgnoreFile(relativePath)
+			) {
+				result.set(relativePath, this.toRemoteFileVersion(version));
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Lists all object versions and delete markers below a key prefix
+	 */
+	private async listObjectVersions(prefix: string): Promise<{
+		versions: ObjectVersion[];
+		deleteMarkers: DeleteMarkerEntry[];
+	}> {
+		const versions: ObjectVersion[] = [];
+		const deleteMarkers: DeleteMarkerEntry[] = [];
+		let keyMarker: string | undefined = undefined;
+		let versionIdMarker: string | undefined = undefined;
+		let isTruncated = true;
+		while (isTruncated) {
+			const response: ListObjectVersionsCommandOutput =
+				await this.client!.send(
+					new ListObjectVersionsCommand({
+						Bucket: this.settings.bucketName,
+						Prefix: prefix,
+						KeyMarker: keyMarker,
+						VersionIdMarker: versionIdMarker,
+					}),
+				);
+
+			versions.push(...(response.Versions ?? []));
+			deleteMarkers.push(...(response.DeleteMarkers ?? []));
+
+			isTruncated = response.IsTruncated ?? false;
+			keyMarker = response.NextKeyMarker;
+			versionIdMarker = response.NextVersionIdMarker;
+		}
+		return { versions, deleteMarkers };
+	}
+
+	private toRemoteFileVersion(version: ObjectVersion): RemoteFileVersion {
+		return {
+			versionId: version.VersionId ?? "",
+			mtime: version.LastModified?.getTime() ?? 0,
+			size: version.Size,
+			etag: version.ETag,
+			isLatest: version.IsLatest ?? false,
+		};
+	}
+
+	/**
+	 * Downloads a specific version of a file
+	 */
+	async downloadFileVersion(
+		filePath: string,
+		versionId: string,
+	): Promise<ArrayBuffer> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		const response = await this.client!.send(
+			new GetObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: this.getRemoteKey(filePath),
+				VersionId: versionId,
+			}),
+		);
+		return this.readBody(response);
+	}
+
+	private async readBody(
+		response: GetObjectCommandOutput,
+	): Promise<ArrayBuffer> {
 		const byteArray = await response.Body?.transformToByteArray();
 
 		if (!byteArray) return new ArrayBuffer(0);
@@ -187,21 +937,556 @@ export class S3Service {
 		}
 	}
 
-	async deleteRemoteFile(path: string): Promise<void> {
+	/**
+	 * Downloads the file at a path below the remote prefix
+	 */
+	async downloadFileAtPath(filePath: string): Promise<ArrayBuffer> {
+		return this.downloadFile({ Key: this.getRemoteKey(filePath) });
+	}
+
+	/**
+	 * Lists all objects below a folder of the remote prefix, including
+	 * files that are excluded from sync (e.g. in dot folders)
+	 */
+	async listFolder(folder: string): Promise<RemoteFolderEntry[]> {
 		if (!this.isConfigured()) throw new Error("S3 client not configured.");
 
+		const entries: RemoteFolderEntry[] = [];
+		let continuationToken: string | undefined = undefined;
+		let isTruncated = true;
+		while (isTruncated) {
+			const response: ListObjectsV2CommandOutput =
+				await this.client!.send(
+					new ListObjectsV2Command({
+						Bucket: this.settings.bucketName,
+						Prefix: this.getRemoteKey(`${folder}/`),
+						ContinuationToken: continuationToken,
+					}),
+				);
+
+			response.Contents?.forEach((obj: S3Object) => {
+				if (!obj.Key || obj.Key.endsWith("/")) return;
+				entries.push({
+					key: obj.Key,
+					path: this.getLocalPath(obj.Key),
+					mtime: obj.LastModified?.getTime() ?? 0,
+					size: obj.Size,
+				});
+			});
+
+			isTruncated = response.IsTruncated ?? false;
+			continuationToken = response.NextContinuationToken;
+		}
+		return entries;
+	}
+
+	/**
+	 * Deletes a remote file, moving it to the remote trash if enabled
+	 * @param useTrash Set to false to delete without a trash copy
+	 */
+	async deleteRemoteFile(path: string, useTrash = true): Promise<void> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		if (useTrash && this.settings.enableRemoteTrash) {
+			// Keep a copy in <prefix>/.trash/<timestamp>/<path>
+			const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+			await this.copyObject(
+				this.getRemoteKey(path),
+				this.getRemoteKey(`${REMOTE_TRASH_FOLDER}/${timestamp}/${path}`),
+			);
+		}
+
 		const command = new DeleteObjectCommand({
 			Bucket: this.settings.bucketName,
 			Key: this.getRemoteKey(path),
 		});
 
 		await this.client!.send(command);
+		await this.noteChange(path, null);
+	}
+
+	/**
+	 * Moves a remote file with a server-side copy, so the content is not
+	 * transferred again
+	 * @returns The metadata of the file at its new path
+	 */
+	async renameRemoteFile(
+		oldPath: string,
+		newPath: string,
+	): Promise<RemoteFileMetadata> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		await this.copyObject(
+			this.getRemoteKey(oldPath),
+			this.getRemoteKey(newPath),
+		);
+		await this.deleteRemoteFile(oldPath, false);
+		const metadata = await this.headFile(newPath);
+		await this.noteChange(newPath, metadata);
+		return metadata;
+	}
+
+	/**
+	 * Gets the current objects of the given files with HeadObject, in the
+	 * same form as listRemoteFiles. Files that do not exist are left out.
+	 */
+	async listRemoteFilesAt(paths: string[]): Promise<Map<string, S3Object>> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		const remoteFiles = new Map<string, S3Object>();
+		for (const path of paths) {
+			if (this.shouldIgnoreFile(path)) continue;
+			try {
+				const response = await this.client!.send(
+					new HeadObjectCommand({
+						Bucket: this.settings.bucketName,
+						Key: this.getRemoteKey(path),
+					}),
+				);
+				remoteFiles.set(path, {
+					Key: this.getRemoteKey(path),
+					LastModified: response.LastModified,
+					Size: response.ContentLength,
+					ETag: response.ETag,
+				});
+			} catch (error) {
+				if (!this.isNotFound(error)) {
+					throw error;
+				}
+			}
+		}
+		return remoteFiles;
+	}
+
+	/**
+	 * Reads the manifest, downloading it only if it changed since this
+	 * device last read or wrote it, with this device's unpublished changes
+	 * applied. A manifest that cannot be parsed or whose generation did not
+	 * increase with its ETag is inconsistent and will be rebuilt from a
+	 * listing on the next publishChanges.
+	 */
+	async readManifest(): Promise<ManifestListing> {
+		const { etag, content } = await this.fetchManifest();
+		if (!content) {
+			this.manifestNeedsRebuild = true;
+			return { etag, files: null };
+		}
+		// Changes this device has not published yet, e.g. because a sync was
+		// interrupted, are already on the remote
+		const entries: Record<string, ManifestEntry | null> = {
+			...content.files,
+			...Object.fromEntries(await this.manifestChanges.entries()),
+		};
+		const files = new Map<string, S3Object>();
+		for (const [path, entry] of Object.entries(entries)) {
+			if (entry && !this.shouldIgnoreFile(path)) {
+				files.set(path, {
+					Key: this.getRemoteKey(path),
+					LastModified: new Date(entry.mtime),
+					Size: entry.size,
+					ETag: entry.etag,
+				});
+			}
+		}
+		return { etag, files };
+	}
+
+	/**
+	 * Writes the vault files changed since the last call to the manifest.
+	 * The write only succeeds if no other device wrote the manifest in the
+	 * meantime, otherwise it is read again and the write retried.
+	 * @returns The manifest ETag before and after, or null if nothing changed
+	 */
+	async publishChanges(): Promise<PublishedChanges | null> {
+		const changes = await this.manifestChanges.entries();
+		if (changes.size === 0 && !this.manifestNeedsRebuild) {
+			return null;
+		}
+		for (let attempt = 1; ; attempt++) {
+			const { etag, content } = await this.fetchManifest();
+			const files =
+				content && !this.manifestNeedsRebuild
+					? { ...content.files }
+					: await this.listManifestEntries(content);
+			for (const [path, entry] of changes) {
+				if (entry) {
+					files[path] = entry;
+				} else {
+					delete files[path];
+				}
+			}
+			const next: RemoteManifest = {
+				generation:
+					Math.max(
+						content?.generation ?? 0,
+						this.manifest?.content.generation ?? 0,
+					) + 1,
+				files,
+			};
+			try {
+				const response = await this.client!.send(
+					new PutObjectCommand({
+						Bucket: this.settings.bucketName,
+						Key: this.getRemoteKey(MANIFEST_PATH),
+						Body: JSON.stringify(next),
+						ContentType: "application/json",
+						...(etag ? { IfMatch: etag } : { IfNoneMatch: "*" }),
+					}),
+				);
+				const current = response.ETag ?? "";
+				this.manifest = { etag: current, content: next };
+				this.manifestNeedsRebuild = false;
+				await this.manifestChanges.removePublished(changes);
+				return { previous: etag, current };
+			} catch (error) {
+				if (
+					!this.isWriteConflict(error) ||
+					attempt === this.MANIFEST_WRITE_ATTEMPTS
+				) {
+					throw error;
+				}
+				if (this.plugin.settings.enableDebugLogging) {
+					console.log("publishChanges(), manifest changed, retrying");
+				}
+			}
+		}
+	}
+
+	/**
+	 * Gets the current manifest, or the cached one if its ETag did not change
+	 */
+	private async fetchManifest(): Promise<{
+		etag: string;
+		content: RemoteManifest | null;
+	}> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		let response: GetObjectCommandOutput;
+		try {
+			response = await this.client!.send(
+				new GetObjectCommand({
+					Bucket: this.settings.bucketName,
+					Key: this.getRemoteKey(MANIFEST_PATH),
+					IfNoneMatch: this.manifest?.etag,
+				}),
+			);
+		} catch (error) {
+			// Not modified since the cached ETag
+			if (this.manifest && this.getStatusCode(error) === 304) {
+				return this.manifest;
+			}
+			if (this.isNotFound(error)) {
+				return { etag: "", content: null };
+			}
+			throw error;
+		}
+		const etag = response.ETag ?? "";
+		const content = parseManifest(
+			new TextDecoder().decode(await this.readBody(response)),
+		);
+		if (
+			!content ||
+			(this.manifest &&
+				content.generation <= this.manifest.content.generation)
+		) {
+			console.warn("S3 Sync: The remote manifest is inconsistent.");
+			return { etag, content: null };
+		}
+		this.manifest = { etag, content };
+		return this.manifest;
+	}
+
+	/**
+	 * Builds the manifest entries from a listing, keeping the known hashes of
+	 * files that did not change
+	 */
+	private async listManifestEntries(
+		previous: RemoteManifest | null,
+	): Promise<Record<string, ManifestEntry>> {
+		const known = previous?.files ?? this.manifest?.content.files ?? {};
+		const files: Record<string, ManifestEntry> = {};
+		for (const [path, s3Object] of await this.listRemoteFiles()) {
+			const entry: ManifestEntry = {
+				mtime: s3Object.LastModified?.getTime() ?? 0,
+				size: s3Object.Size ?? 0,
+				etag: s3Object.ETag,
+			};
+			if (entry.etag && known[path]?.etag === entry.etag) {
+				entry.hash = known[path].hash;
+			}
+			files[path] = entry;
+		}
+		return files;
+	}
+
+	/**
+	 * Checks if a listing has the same files and ETags as the last manifest
+	 */
+	private matchesManifest(remoteFiles: Map<string, S3Object>): boolean {
+		const entries = Object.entries(this.manifest?.content.files ?? {}).filter(
+			([path]) => !this.shouldIgnoreFile(path),
+		);
+		return (
+			entries.length === remoteFiles.size &&
+			entries.every(
+				([path, entry]) => remoteFiles.get(path)?.ETag === entry.etag,
+			)
+		);
+	}
+
+	/**
+	 * Remembers a vault file changed remotely, for the manifest
+	 */
+	private async noteChange(
+		filePath: string,
+		metadata: RemoteFileMetadata | null,
+	): Promise<void> {
+		if (this.shouldIgnoreFile(filePath)) {
+			return;
+		}
+		await this.manifestChanges.set(
+			filePath,
+			metadata && {
+				mtime: metadata.mtime,
+				size: metadata.size ?? 0,
+				etag: metadata.etag,
+				hash: metadata.hash,
+			},
+		);
+	}
+
+	/**
+	 * Checks if a conditional write (or ranged read) failed because the
+	 * object changed
+	 */
+	private isWriteConflict(error: unknown): boolean {
+		const status = this.getStatusCode(error);
+		return status === 412 || status === 409;
+	}
+
+	private getStatusCode(error: unknown): number | undefined {
+		return (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+			?.httpStatusCode;
+	}
+
+	private isNotFound(error: unknown): boolean {
+		const { name } = error as { name?: string };
+		return (
+			name === "NotFound" ||
+			name === "NoSuchKey" ||
+			this.getStatusCode(error) === 404
+		);
+	}
+
+	/**
+	 * Lists all files in the remote trash, newest first
+	 */
+	async listRemoteTrash(): Promise<RemoteTrashEntry[]> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		const trashKey = this.getRemoteKey(`${REMOTE_TRASH_FOLDER}/`);
+		const entries: RemoteTrashEntry[] = [];
+		let continuationToken: string | undefined = undefined;
+		let isTruncated = true;
+		while (isTruncated) {
+			const response: ListObjectsV2CommandOutput =
+				await this.client!.send(
+					new ListObjectsV2Command({
+						Bucket: this.settings.bucketName,
+						Prefix: trashKey,
+						ContinuationToken: continuationToken,
+					}),
+				);
+
+			response.Contents?.forEach((obj: S3Object) => {
+				// Strip ".trash/<timestamp>/" to get the original path
+				const relativePath = obj.Key?.substring(trashKey.length) ?? "";
+				const separator = relativePath.indexOf("/");
+				if (!obj.Key || separator === -1 || obj.Key.endsWith("/")) return;
+				entries.push({
+					key: obj.Key,
+					path: relativePath.substring(separator + 1),
+					deletedAt: obj.LastModified?.getTime() ?? 0,
+					size: obj.Size,
+				});
+			});
+
+			isTruncated = response.IsTruncated ?? false;
+			continuationToken = response.NextContinuationToken;
+		}
+		return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+	}
+
+	/**
+	 * Moves a trashed file back to its original path
+	 */
+	async restoreFromTrash(entry: RemoteTrashEntry): Promise<void> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		await this.copyObject(entry.key, this.getRemoteKey(entry.path));
+		await this.noteChange(entry.path, await this.headFile(entry.path));
+		await this.deleteTrashEntry(entry);
+	}
+
+	/**
+	 * Permanently deletes a file from the remote trash
+	 */
+	async deleteTrashEntry(entry: RemoteTrashEntry): Promise<void> {
+		if (!this.isConfigured()) throw new Error("S3 client not configured.");
+
+		await this.client!.send(
+			new DeleteObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: entry.key,
+			}),
+		);
 	}
 
 	/**
-	 * Checks if a file should be ignored based on exclusion rules
+	 * Copies an object server-side, keeping its metadata. Objects above the
+	 * CopyObject limit of 5 GiB are copied in parts.
+	 */
+	private async copyObject(sourceKey: string, targetKey: string): Promise<void> {
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`copyObject(${sourceKey} -> ${targetKey})`);
+		}
+		const encodedSource = `${this.settings.bucketName}/${sourceKey}`
+			.split("/")
+			.map(encodeURIComponent)
+			.join("/");
+		const head = await this.client!.send(
+			new HeadObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: sourceKey,
+			}),
+		);
+		if ((head.ContentLength ?? 0) > this.MAX_COPY_SIZE) {
+			await this.copyObjectInParts(encodedSource, targetKey, head);
+			return;
+		}
+		await this.client!.send(
+			new CopyObjectCommand({
+				Bucket: this.settings.bucketName,
+				Key: targetKey,
+				CopySource: encodedSource,
+			}),
+		);
+	}
+
+	/**
+	 * Copies an object as a multipart upload of byte ranges of the source.
+	 * All ranges must come from the version read before the copy. The upload
+	 * is aborted if a part fails.
+	 */
+	private async copyObjectInParts(
+		copySource: string,
+		key: string,
+		head: HeadObjectCommandOutput,
+	): Promise<void> {
+		const size = head.ContentLength ?? 0;
+		const partSize = Math.max(
+			this.COPY_PART_SIZE,
+			Math.ceil(size / this.MAX_PARTS),
+		);
+		const response = await this.client!.send(
+			new CreateMultipartUploadCommand({
+				Bucket: this.settings.bucketName,
+				Key: key,
+				ContentType: head.ContentType,
+				Metadata: head.Metadata,
+			}),
+		);
+		if (!response.UploadId) {
+			throw new Error(`No upload ID returned for ${key}`);
+		}
+		const uploadId = response.UploadId;
+		try {
+			const parts: { PartNumber: number; ETag: string }[] = [];
+			for (let start = 0; start < size; start += partSize) {
+				const partNumber = parts.length + 1;
+				const range = `bytes=${start}-${Math.min(start + partSize, size) - 1}`;
+				parts.push({
+					PartNumber: partNumber,
+					ETag: await this.copyPart(copySource, head.ETag, key, uploadId, partNumber, range),
+				});
+			}
+			await this.client!.send(
+				new CompleteMultipartUploadCommand({
+					Bucket: this.settings.bucketName,
+					Key: key,
+					UploadId: uploadId,
+					MultipartUpload: { Parts: parts },
+				}),
+			);
+		} catch (error) {
+			await this.abortUpload(key, uploadId);
+			throw error;
+		}
+	}
+
+	/**
+	 * Copies a byte range of the source as one part, retrying it a few times
+	 * before giving up. A changed source is not retried.
+	 * @returns The ETag of the part
+	 */
+	private async copyPart(
+		copySource: string,
+		sourceEtag: string | undefined,
+		key: string,
+		uploadId: string,
+		partNumber: number,
+		range: string,
+	): Promise<string> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				const response = await this.client!.send(
+					new UploadPartCopyCommand({
+						Bucket: this.settings.bucketName,
+						Key: key,
+						UploadId: uploadId,
+						PartNumber: partNumber,
+						CopySource: copySource,
+						CopySourceRange: range,
+						CopySourceIfMatch: sourceEtag,
+					}),
+				);
+				const etag = response.CopyPartResult?.ETag;
+				if (!etag) {
+					throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+				}
+				return etag;
+			} catch (error) {
+				if (
+					this.isNoSuchUpload(error) ||
+					this.isWriteConflict(error) ||
+					attempt === this.PART_ATTEMPTS
+				) {
+					throw error;
+				}
+				console.warn(
+					`S3 Sync: Retrying part ${partNumber} of ${key}:`,
+					error,
+				);
+				await new Promise((resolve) =>
+					setTimeout(resolve, this.PART_RETRY_DELAY_MS * attempt),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Checks if a file should be ignored based on exclusion rules. The ignore
+	 * file and, if enabled, the configuration folder are the only synced dot
+	 * paths; the sync applies the finer rules.
 	 */
 	private shouldIgnoreFile(filePath: string): boolean {
+		if (
+			filePath === IGNORE_FILE ||
+			(this.settings.enableConfigSync &&
+				filePath.startsWith(`${this.plugin.app.vault.configDir}/`))
+		) {
+			return false;
+		}
 		// Ignore files/folders beginning with a dot
 		return filePath.split("/").some((part) => part.startsWith("."));
 	}
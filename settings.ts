@@ -1,3 +1,31 @@
+// --- Conflict Policies ---
+// How a file that was changed on both sides is resolved
+export type ConflictPolicy =
+	| "keep-both" // Upload local, save remote as a conflict copy
+	| "keep-local" // Upload local, discard the remote change
+	| "keep-remote" // Download remote, discard the local change
+	| "newest-wins" // Keep the side with the newer mtime
+	| "ask"; // Ask the user for each conflict
+
+// What happens to local files deleted by a sync
+export type LocalDeleteMode =
+	| "vault-trash" // Move to the vault's .trash folder
+	| "system-trash" // Move to the system trash
+	| "delete"; // Delete permanently
+
+// Unit of the mass-deletion threshold
+export type DeleteThresholdUnit = "files" | "percent";
+
+// How snapshots are stored
+export type SnapshotFormat =
+	| "tar.gz" // One compressed archive per snapshot
+	| "manifest"; // A manifest per snapshot, file contents stored once by hash
+
+export interface ConflictPolicyOverride {
+	pattern: string; // Glob, e.g. "*.canvas" or "Journal/"
+	policy: ConflictPolicy;
+}
+
 // --- Plugin Settings Interface ---
 export interface S3SyncSettings {
 	endpoint: string;
@@ -8,7 +36,44 @@ export interface S3SyncSettings {
 	remotePrefix: string;
 	syncIntervalMinutes: number;
 	enableAutomaticSync: boolean;
+	enableLivePush: boolean; // Push edited files after a quiet period
+	livePushDelaySeconds: number; // Quiet period before edited files are pushed
+	enableIncrementalSync: boolean; // Only analyze changed files on routine syncs
+	fullSyncIntervalHours: number; // Run a full sync at least this often
+	downloadConcurrency: number; // Files downloaded at the same time
+	uploadConcurrency: number; // Files uploaded at the same time
+	multipartThresholdMB: number; // Upload larger files in parts
+	rangedDownloadThresholdMB: number; // Download larger files in byte ranges
 	enableDebugLogging: boolean;
+	conflictPolicy: ConflictPolicy;
+	conflictPolicyOverrides: ConflictPolicyOverride[]; // First match wins
+	enableThreeWayMerge: boolean; // Merge Markdown notes changed on both sides
+	enableFrontmatterMerge: boolean; // Merge frontmatter key by key if the body is identical
+	mergeConflictMarkers: boolean; // Write markers instead of applying the conflict policy
+	enableCanvasMerge: boolean; // Merge .canvas nodes and edges by id
+	deleteThreshold: number; // Ask before deleting more than this, 0 disables
+	deleteThresholdUnit: DeleteThresholdUnit;
+	localDeleteMode: LocalDeleteMode;
+	enableRemoteTrash: boolean; // Move deleted remote files to <prefix>/.trash/
+	remoteTrashRetentionDays: number; // Purge trashed files after a sync, 0 keeps them
+	enableSnapshots: boolean; // Create snapshots on the sync schedule
+	snapshotFormat: SnapshotFormat;
+	snapshotIntervalHours: number; // Minimum time between two snapshots
+	snapshotKeepDaily: number; // Keep the newest snapshot of this many days
+	snapshotKeepWeekly: number; // Keep the newest snapshot of this many weeks
+	syncFolders: string[]; // Folders this device syncs, empty for the whole vault
+	privateNoteTag: string; // Notes with this tag stay on the device, empty disables
+	maxFileSizeMB: number; // Larger files are out of scope, 0 disables
+	includeExtensions: string[]; // Only sync these extensions (lowercase, no dot), empty for all
+	excludeExtensions: string[]; // Never sync these extensions
+	recentOnlyDays: number; // Only sync files modified in this many days, 0 disables
+	enableConfigSync: boolean; // Sync the configuration folder (app.vault.configDir)
+	configSyncPlugins: boolean;
+	configSyncThemes: boolean;
+	configSyncSnippets: boolean;
+	configSyncHotkeys: boolean;
+	configSyncCore: boolean; // App, appearance and core plugin settings
+	configSyncWorkspace: boolean; // workspace*.json, differs per device
 	// lastSyncTimestamp removed - now using sync-state.json file
 }
 
@@ -22,5 +87,42 @@ export const DEFAULT_SETTINGS: S3SyncSettings = {
 	remotePrefix: "",
 	syncIntervalMinutes: 15,
 	enableAutomaticSync: false,
+	enableLivePush: false,
+	livePushDelaySeconds: 10,
+	enableIncrementalSync: false,
+	fullSyncIntervalHours: 24,
+	downloadConcurrency: 4,
+	uploadConcurrency: 4,
+	multipartThresholdMB: 16,
+	rangedDownloadThresholdMB: 16,
 	enableDebugLogging: false,
+	conflictPolicy: "keep-both",
+	conflictPolicyOverrides: [],
+	enableThreeWayMerge: true,
+	enableFrontmatterMerge: true,
+	mergeConflictMarkers: false,
+	enableCanvasMerge: true,
+	deleteThreshold: 20,
+	deleteThresholdUnit: "files",
+	localDeleteMode: "vault-trash",
+	enableRemoteTrash: false,
+	remoteTrashRetentionDays: 30,
+	enableSnapshots: false,
+	snapshotFormat: "tar.gz",
+	snapshotIntervalHours: 24,
+	snapshotKeepDaily: 7,
+	snapshotKeepWeekly: 4,
+	syncFolders: [],
+	privateNoteTag: "#local-only",
+	maxFileSizeMB: 0,
+	includeExtensions: [],
+	excludeExtensions: [],
+	recentOnlyDays: 0,
+	enableConfigSync: false,
+	configSyncPlugins: true,
+	configSyncThemes: true,
+	configSyncSnippets: true,
+	configSyncHotkeys: true,
+	configSyncCore: true,
+	configSyncWorkspace: false,
 };
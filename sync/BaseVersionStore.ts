@@ -0,0 +1,122 @@
+import { App } from "obsidian";
+import S3SyncPlugin from "../main";
+import { computeContentHash } from "./ContentHash";
+import { getPluginDir } from "./PluginFolder";
+
+// Extensions of text files whose last-synced content is kept as merge base
+const TEXT_EXTENSIONS = ["md", "canvas", "txt"];
+
+/**
+ * Keeps the last-synced content ("base") of text files in the plugin folder,
+ * so that changes on both sides can be merged against it.
+ * Each base is stored under the SHA-256 of its vault path.
+ */
+export class BaseVersionStore {
+	private readonly BASE_FOLDER = "bases";
+
+	constructor(
+		private app: App,
+		private plugin: S3SyncPlugin,
+	) {}
+
+	/**
+	 * Checks if a base version is kept for this file type
+	 */
+	isTextFile(filePath: string): boolean {
+		const extension = filePath.split(".").pop()?.toLowerCase() ?? "";
+		return filePath.includes(".") && TEXT_EXTENSIONS.includes(extension);
+	}
+
+	/**
+	 * Loads the base version of a file. If the hash of the synced content is
+	 * known, a base that does not match it is ignored.
+	 * @returns The base content or null if no usable base exists
+	 */
+	async load(filePath: string, expectedHash?: string): Promise<string | null> {
+		try {
+			const basePath = await this.getBasePath(filePath);
+			if (!(await this.app.vault.adapter.exists(basePath))) {
+				return null;
+			}
+			const content = await this.app.vault.adapter.read(basePath);
+			if (
+				expectedHash &&
+				(await computeContentHash(new TextEncoder().encode(content).buffer)) !==
+					expectedHash
+			) {
+				return null;
+			}
+			return content;
+		} catch (error) {
+			console.warn(`S3 Sync: Could not load base of ${filePath}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Stores the synced content of a text file as its new base
+	 */
+	async save(filePath: string, content: ArrayBuffer): Promise<void> {
+		if (!this.isTextFile(filePath)) {
+			return;
+		}
+		try {
+			const folder = this.getBaseFolder();
+			if (!(await this.app.vault.adapter.exists(folder))) {
+				try {
+					await this.app.vault.adapter.mkdir(folder);
+				} catch (error) {
+					// Folder likely created while saving another base
+					if (!(await this.app.vault.adapter.exists(folder))) throw error;
+				}
+			}
+			await this.app.vault.adapter.write(
+				await this.getBasePath(filePath),
+				new TextDecoder().decode(content),
+			);
+		} catch (error) {
+			// A missing base only disables merging for this file
+			console.warn(`S3 Sync: Could not save base of ${filePath}:`, error);
+		}
+	}
+
+	/**
+	 * Moves the base of a renamed file to its new path
+	 */
+	async rename(oldPath: string, newPath: string): Promise<void> {
+		const content = await this.load(oldPath);
+		if (content === null) {
+			return;
+		}
+		await this.save(newPath, new TextEncoder().encode(content).buffer);
+		await this.remove(oldPath);
+	}
+
+	/**
+	 * Removes the base of a file that no longer exists on either side
+	 */
+	async remove(filePath: string): Promise<void> {
+		if (!this.isTextFile(filePath)) {
+			return;
+		}
+		try {
+			const basePath = await this.getBasePath(filePath);
+			if (await this.app.vault.adapter.exists(basePath)) {
+				await this.app.vault.adapter.remove(basePath);
+			}
+		} catch (error) {
+			console.warn(`S3 Sync: Could not remove base of ${filePath}:`, error);
+		}
+	}
+
+	private getBaseFolder(): string {
+		return `${getPluginDir(this.app, this.plugin)}/${this.BASE_FOLDER}`;
+	}
+
+	private async getBasePath(filePath: string): Promise<string> {
+		const pathHash = await computeContentHash(
+			new TextEncoder().encode(filePath).buffer,
+		);
+		return `${this.getBaseFolder()}/${pathHash}`;
+	}
+}
@@ -0,0 +1,107 @@
+import { App } from "obsidian";
+import S3SyncPlugin from "../main";
+import { PluginJsonFile } from "./PluginFolder";
+
+// Contents of the tracking file in the plugin folder
+interface ChangeTrackingData {
+	dirtyPaths: string[];
+	lastFullSync: number; // Unix timestamp in milliseconds, 0 if never
+	manifestEtag: string | null; // Remote manifest ETag as of the last sync, null if unknown
+}
+
+/**
+ * Remembers which local paths changed since the last sync (the dirty set),
+ * when the last full sync ran and which remote manifest it saw, so
+ * routine syncs only need to look at changed files.
+ * Stored in its own file in the plugin folder, as vault events arrive at any
+ * time and must not rewrite the plugin data while a sync saves its state.
+ */
+export class ChangeTracker {
+	private readonly SAVE_DELAY_MS = 2000;
+	// Without the file, the next sync is a full sync
+	private file: PluginJsonFile<ChangeTrackingData>;
+	private dirtyPaths = new Set<string>();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(app: App, plugin: S3SyncPlugin) {
+		this.file = new PluginJsonFile(
+			app,
+			plugin,
+			"changes.json",
+			"change tracking",
+			() => ({ dirtyPaths: [], lastFullSync: 0, manifestEtag: null }),
+		);
+	}
+
+	/**
+	 * Adds a changed file or folder to the dirty set
+	 */
+	markDirty(path: string): void {
+		this.dirtyPaths.add(path);
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = setTimeout(() => this.save(), this.SAVE_DELAY_MS);
+	}
+
+	/**
+	 * Returns the dirty set and starts a new one. Paths changed while the
+	 * sync runs are collected for the next sync.
+	 */
+	async takeDirtyPaths(): Promise<Set<string>> {
+		const data = await this.file.load();
+		const paths = new Set([...data.dirtyPaths, ...this.dirtyPaths]);
+		this.dirtyPaths.clear();
+		data.dirtyPaths = [];
+		await this.save();
+		return paths;
+	}
+
+	/**
+	 * Puts paths taken for a sync that failed back into the dirty set
+	 */
+	async restoreDirtyPaths(paths: Iterable<string>): Promise<void> {
+		for (const path of paths) {
+			this.dirtyPaths.add(path);
+		}
+		await this.save();
+	}
+
+	/**
+	 * Checks if the last full sync is longer ago than the interval
+	 */
+	async isFullSyncDue(intervalHours: number): Promise<boolean> {
+		const { lastFullSync } = await this.file.load();
+		return (
+			lastFullSync === 0 ||
+			Date.now() - lastFullSync >= intervalHours * 60 * 60 * 1000
+		);
+	}
+
+	async recordFullSync(): Promise<void> {
+		(await this.file.load()).lastFullSync = Date.now();
+		await this.save();
+	}
+
+	async getManifestEtag(): Promise<string | null> {
+		return (await this.file.load()).manifestEtag;
+	}
+
+	async setManifestEtag(etag: string | null): Promise<void> {
+		(await this.file.load()).manifestEtag = etag;
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		const data = await this.file.load();
+		data.dirtyPaths = Array.from(
+			new Set([...data.dirtyPaths, ...this.dirtyPaths]),
+		);
+		this.dirtyPaths.clear();
+		await this.file.save();
+	}
+}
@@ -0,0 +1,85 @@
+import { S3SyncSettings } from "../settings";
+
+// Parts of the configuration folder that can be synced
+export type ConfigCategory =
+	| "plugins" // Community plugins and the list of enabled plugins
+	| "themes"
+	| "snippets" // CSS snippets
+	| "hotkeys"
+	| "core" // App, appearance and core plugin settings
+	| "workspace"; // Open panes and files, differs per device
+
+// Files of this plugin's own folder that are synced: its code, but never
+// data.json with credentials and sync state or the stored merge bases
+const OWN_PLUGIN_FILES = ["main.js", "manifest.json", "styles.css"];
+
+/**
+ * Gets the category of a file in the configuration folder
+ * @param relativePath Path relative to the configuration folder
+ * @returns The category, or null if the file is never synced (caches,
+ * unknown folders)
+ */
+export function getConfigCategory(relativePath: string): ConfigCategory | null {
+	if (
+		relativePath.startsWith("plugins/") ||
+		relativePath === "community-plugins.json"
+	) {
+		return "plugins";
+	}
+	if (relativePath.startsWith("themes/")) {
+		return "themes";
+	}
+	if (relativePath.startsWith("snippets/")) {
+		return "snippets";
+	}
+	if (relativePath.includes("/") || !relativePath.endsWith(".json")) {
+		return null;
+	}
+	if (relativePath === "hotkeys.json") {
+		return "hotkeys";
+	}
+	if (/^workspace.*\.json$/.test(relativePath)) {
+		return "workspace";
+	}
+	return "core";
+}
+
+/**
+ * Checks if a file in the configuration folder is synced with the current
+ * settings
+ * @param configDir The vault's configuration folder
+ * @param pluginDir This plugin's folder
+ */
+export function isSyncedConfigFile(
+	filePath: string,
+	configDir: string,
+	pluginDir: string,
+	settings: S3SyncSettings,
+): boolean {
+	if (!settings.enableConfigSync || !filePath.startsWith(`${configDir}/`)) {
+		return false;
+	}
+	if (
+		filePath.startsWith(`${pluginDir}/`) &&
+		!OWN_PLUGIN_FILES.includes(filePath.substring(pluginDir.length + 1))
+	) {
+		return false;
+	}
+
+	switch (getConfigCategory(filePath.substring(configDir.length + 1))) {
+		case "plugins":
+			return settings.configSyncPlugins;
+		case "themes":
+			return settings.configSyncThemes;
+		case "snippets":
+			return settings.configSyncSnippets;
+		case "hotkeys":
+			return settings.configSyncHotkeys;
+		case "core":
+			return settings.configSyncCore;
+		case "workspace":
+			return settings.configSyncWorkspace;
+		default:
+			return false;
+	}
+}
@@ -0,0 +1,12 @@
+/**
+ * Computes the SHA-256 hash of file content as a lowercase hex string.
+ * Uses the Web Crypto API, which is available on desktop and mobile.
+ */
+export async function computeContentHash(
+	content: ArrayBuffer,
+): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", content);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
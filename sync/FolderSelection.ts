@@ -0,0 +1,23 @@
+/**
+ * Checks if a file is synced with the given folder selection. An empty
+ * selection syncs the whole vault, and files at the vault root are always
+ * synced.
+ */
+export function isInFolders(filePath: string, folders: string[]): boolean {
+	if (folders.length === 0 || !filePath.includes("/")) {
+		return true;
+	}
+	return folders.some((folder) => filePath.startsWith(`${folder}/`));
+}
+
+/**
+ * Sorts a folder selection and drops folders that are already included
+ * through a selected parent folder
+ */
+export function normalizeFolderSelection(folders: string[]): string[] {
+	const unique = Array.from(new Set(folders)).sort();
+	return unique.filter(
+		(folder) =>
+			!unique.some((other) => folder.startsWith(`${other}/`)),
+	);
+}
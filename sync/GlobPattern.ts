@@ -0,0 +1,50 @@
+/**
+ * Converts a glob pattern into a regular expression matching vault paths.
+ * Supports "*" (within a path segment), "**" (across segments) and "?".
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let regex = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more folders, a trailing "**" everything
+				if (pattern[i + 2] === "/") {
+					regex += "(?:.*/)?";
+					i += 2;
+				} else {
+					regex += ".*";
+					i += 1;
+				}
+			} else {
+				regex += "[^/]*";
+			}
+		} else if (char === "?") {
+			regex += "[^/]";
+		} else {
+			regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Checks if a vault path matches a glob pattern:
+ * - "Journal/" matches everything inside the Journal folder
+ * - "*.canvas" (no slash) matches the file name in any folder
+ * - anything else is matched against the full path
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed) {
+		return false;
+	}
+	if (trimmed.endsWith("/")) {
+		return globToRegExp(`${trimmed}**`).test(filePath);
+	}
+	if (!trimmed.includes("/")) {
+		const fileName = filePath.substring(filePath.lastIndexOf("/") + 1);
+		return globToRegExp(trimmed).test(fileName);
+	}
+	return globToRegExp(trimmed).test(filePath);
+}
@@ -0,0 +1,92 @@
+import { globToRegExp } from "./GlobPattern";
+
+// Vault root file holding the ignore rules, synced like a normal file
+export const IGNORE_FILE = ".kisss3ignore";
+
+interface IgnoreRule {
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+/**
+ * Ignore rules with gitignore semantics:
+ * - blank lines and lines starting with "#" are skipped
+ * - "!" re-includes paths excluded by an earlier rule
+ * - a trailing "/" matches folders only (and so everything inside them)
+ * - a pattern with a slash at the start or in the middle is matched against
+ *   the full path, any other pattern against every path segment
+ * The last matching rule wins. As in git, a file inside an ignored folder
+ * cannot be re-included.
+ */
+export class IgnoreRules {
+	private rules: IgnoreRule[];
+
+	constructor(content = "") {
+		this.rules = content
+			.split(/\r?\n/)
+			.map((line) => this.parseLine(line))
+			.filter((rule): rule is IgnoreRule => rule !== null);
+	}
+
+	get isEmpty(): boolean {
+		return this.rules.length === 0;
+	}
+
+	isIgnored(filePath: string): boolean {
+		if (this.isEmpty) {
+			return false;
+		}
+		const parts = filePath.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			if (this.matches(parts.slice(0, i).join("/"), true)) {
+				return true;
+			}
+		}
+		return this.matches(filePath, false);
+	}
+
+	private matches(path: string, isDirectory: boolean): boolean {
+		let ignored = false;
+		for (const rule of this.rules) {
+			if (rule.directoryOnly && !isDirectory) continue;
+			if (rule.regex.test(path)) {
+				ignored = !rule.negated;
+			}
+		}
+		return ignored;
+	}
+
+	private parseLine(line: string): IgnoreRule | null {
+		if (!line.trim() || line.startsWith("#")) {
+			return null;
+		}
+		// Trailing spaces are ignored unless escaped
+		let pattern = line.replace(/([^\\])\s+$/, "$1");
+
+		let negated = false;
+		if (pattern.startsWith("!")) {
+			negated = true;
+			pattern = pattern.substring(1);
+		} else if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+			pattern = pattern.substring(1);
+		}
+		pattern = pattern.replace(/\\ /g, " ");
+
+		const directoryOnly = pattern.endsWith("/");
+		if (directoryOnly) {
+			pattern = pattern.replace(/\/+$/, "");
+		}
+		const anchored = pattern.includes("/");
+		pattern = pattern.replace(/^\/+/, "");
+		if (!pattern) {
+			return null;
+		}
+
+		return {
+			regex: globToRegExp(anchored ? pattern : `**/${pattern}`),
+			negated,
+			directoryOnly,
+		};
+	}
+}
@@ -0,0 +1,211 @@
+/**
+ * A hash that is fed the content piece by piece, so large files can be
+ * checked without holding them in memory. The Web Crypto API only hashes
+ * complete buffers.
+ */
+export interface IncrementalHash {
+	update(data: ArrayBuffer | Uint8Array): IncrementalHash;
+	/**
+	 * @returns The hash as a lowercase hex string
+	 */
+	digest(): string;
+}
+
+export function createSha256(): IncrementalHash {
+	return new Sha256();
+}
+
+export function createMd5(): IncrementalHash {
+	return new Md5();
+}
+
+/**
+ * Computes the MD5 of content, which S3 returns as ETag of objects
+ * uploaded in one part
+ */
+export function computeMd5(content: ArrayBuffer): string {
+	return createMd5().update(content).digest();
+}
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Buffers the content into 64-byte blocks and appends the padding and the
+ * bit length shared by SHA-256 and MD5
+ */
+abstract class BlockHash implements IncrementalHash {
+	private buffer = new Uint8Array(BLOCK_SIZE);
+	private buffered = 0;
+	private length = 0; // Bytes fed so far
+
+	protected abstract readonly littleEndian: boolean;
+	protected abstract processBlock(view: DataView, offset: number): void;
+	protected abstract output(): Uint8Array;
+
+	update(data: ArrayBuffer | Uint8Array): this {
+		const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+		this.length += bytes.length;
+		let offset = 0;
+		if (this.buffered > 0) {
+			offset = Math.min(BLOCK_SIZE - this.buffered, bytes.length);
+			this.buffer.set(bytes.subarray(0, offset), this.buffered);
+			this.buffered += offset;
+			if (this.buffered < BLOCK_SIZE) {
+				return this;
+			}
+			this.processBlock(new DataView(this.buffer.buffer), 0);
+			this.buffered = 0;
+		}
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		for (; offset + BLOCK_SIZE <= bytes.length; offset += BLOCK_SIZE) {
+			this.processBlock(view, offset);
+		}
+		this.buffer.set(bytes.subarray(offset));
+		this.buffered = bytes.length - offset;
+		return this;
+	}
+
+	digest(): string {
+		const bits = this.length * 8;
+		const padding = new Uint8Array(
+			(this.buffered < 56 ? 64 : 128) - this.buffered,
+		);
+		padding[0] = 0x80;
+		const view = new DataView(padding.buffer);
+		const high = Math.floor(bits / 0x100000000);
+		const low = bits >>> 0;
+		if (this.littleEndian) {
+			view.setUint32(padding.length - 8, low, true);
+			view.setUint32(padding.length - 4, high, true);
+		} else {
+			view.setUint32(padding.length - 8, high);
+			view.setUint32(padding.length - 4, low);
+		}
+		this.update(padding);
+		return Array.from(this.output())
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("");
+	}
+}
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+const SHA256_K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+	0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+	0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+	0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+	0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+	0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+class Sha256 extends BlockHash {
+	protected readonly littleEndian = false;
+	private state = new Uint32Array([
+		0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+		0x1f83d9ab, 0x5be0cd19,
+	]);
+	private words = new Uint32Array(64);
+
+	protected processBlock(view: DataView, offset: number): void {
+		const w = this.words;
+		for (let i = 0; i < 16; i++) {
+			w[i] = view.getUint32(offset + i * 4);
+		}
+		for (let i = 16; i < 64; i++) {
+			const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+			const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+			w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+		}
+
+		let [a, b, c, d, e, f, g, h] = this.state;
+		for (let i = 0; i < 64; i++) {
+			const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+			const ch = (e & f) ^ (~e & g);
+			const t1 = (h + s1 + ch + SHA256_K[i] + w[i]) | 0;
+			const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+			const maj = (a & b) ^ (a & c) ^ (b & c);
+			const t2 = (s0 + maj) | 0;
+			h = g;
+			g = f;
+			f = e;
+			e = (d + t1) | 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) | 0;
+		}
+		[a, b, c, d, e, f, g, h].forEach((value, i) => {
+			this.state[i] += value;
+		});
+	}
+
+	protected output(): Uint8Array {
+		const result = new Uint8Array(32);
+		const view = new DataView(result.buffer);
+		this.state.forEach((value, i) => view.setUint32(i * 4, value));
+		return result;
+	}
+}
+
+const MD5_SHIFTS = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+	5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+	4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+	6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_K = new Uint32Array(64).map((_, i) =>
+	Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000),
+);
+
+class Md5 extends BlockHash {
+	protected readonly littleEndian = true;
+	private state = new Uint32Array([
+		0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476,
+	]);
+	private words = new Uint32Array(16);
+
+	protected processBlock(view: DataView, offset: number): void {
+		const m = this.words;
+		for (let i = 0; i < 16; i++) {
+			m[i] = view.getUint32(offset + i * 4, true);
+		}
+
+		let [a, b, c, d] = this.state;
+		for (let i = 0; i < 64; i++) {
+			let f: number;
+			let g: number;
+			if (i < 16) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (i < 32) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) % 16;
+			} else if (i < 48) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) % 16;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) % 16;
+			}
+			const x = (a + f + MD5_K[i] + m[g]) | 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + rotl(x, MD5_SHIFTS[i])) | 0;
+		}
+		[a, b, c, d].forEach((value, i) => {
+			this.state[i] += value;
+		});
+	}
+
+	protected output(): Uint8Array {
+		const result = new Uint8Array(16);
+		const view = new DataView(result.buffer);
+		this.state.forEach((value, i) => view.setUint32(i * 4, value, true));
+		return result;
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * Collects the paths of changed files and pushes them together once no
+ * file changed for the quiet period. Paths the push could not handle, e.g.
+ * because a sync was running, are queued again.
+ */
+export class LivePushQueue {
+	private pending = new Set<string>();
+	private timer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		private getDelayMs: () => number,
+		private push: (paths: string[]) => Promise<string[]>,
+	) {}
+
+	/**
+	 * Queues a changed file and restarts the quiet period
+	 */
+	add(filePath: string): void {
+		this.pending.add(filePath);
+		this.schedule();
+	}
+
+	/**
+	 * Drops all queued paths
+	 */
+	cancel(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.pending.clear();
+	}
+
+	private schedule(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+		}
+		this.timer = setTimeout(() => this.flush(), this.getDelayMs());
+	}
+
+	private async flush(): Promise<void> {
+		this.timer = null;
+		const paths = Array.from(this.pending);
+		this.pending.clear();
+		if (paths.length === 0) {
+			return;
+		}
+
+		const remaining = await this.push(paths);
+		if (remaining.length > 0) {
+			remaining.forEach((path) => this.pending.add(path));
+			if (this.timer === null) {
+				this.schedule();
+			}
+		}
+	}
+}
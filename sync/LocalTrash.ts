@@ -0,0 +1,131 @@
+import { App, TFile, normalizePath } from "obsidian";
+import S3SyncPlugin from "../main";
+import { LocalDeleteMode } from "../settings";
+import { computeContentHash } from "./ContentHash";
+
+// Folder used by Obsidian for "Move to Obsidian trash"
+const VAULT_TRASH_FOLDER = ".trash";
+
+export interface DeletedFileRecord {
+	path: string;
+	deletedAt: number; // Unix timestamp in milliseconds
+	mode: LocalDeleteMode; // Where the file went
+	hash?: string; // SHA-256 of the deleted content, if known
+}
+
+/**
+ * Deletes local files on behalf of the sync according to the configured
+ * delete mode, and remembers the files deleted by the last sync so they can
+ * be restored from the vault trash.
+ */
+export class LocalTrash {
+	private readonly DELETIONS_KEY = "lastSyncDeletions";
+
+	constructor(
+		private app: App,
+		private plugin: S3SyncPlugin,
+	) {}
+
+	/**
+	 * Deletes a file, moving it to the system or vault trash if configured
+	 * @returns The record describing the deletion
+	 */
+	async deleteFile(file: TFile, hash?: string): Promise<DeletedFileRecord> {
+		let mode = this.plugin.settings.localDeleteMode;
+		// Vault.trash falls back to the vault trash silently
+		if (
+			mode === "system-trash" &&
+			!(await this.app.vault.adapter.trashSystem(file.path))
+		) {
+			mode = "vault-trash"; // No system trash available
+		}
+		if (mode === "vault-trash") {
+			await this.app.vault.trash(file, false);
+		} else if (mode === "delete") {
+			await this.app.vault.delete(file);
+		}
+		return { path: file.path, deletedAt: Date.now(), mode, hash };
+	}
+
+	/**
+	 * Deletes a file that is hidden from the vault index, like the ignore
+	 * file, through the adapter
+	 * @returns The record describing the deletion
+	 */
+	async deleteHiddenFile(
+		filePath: string,
+		hash?: string,
+	): Promise<DeletedFileRecord> {
+		const adapter = this.app.vault.adapter;
+		let mode = this.plugin.settings.localDeleteMode;
+		if (mode === "system-trash" && !(await adapter.trashSystem(filePath))) {
+			mode = "vault-trash"; // No system trash available
+		}
+		if (mode === "vault-trash") {
+			await adapter.trashLocal(filePath);
+		} else if (mode === "delete") {
+			await adapter.remove(filePath);
+		}
+		return { path: filePath, deletedAt: Date.now(), mode, hash };
+	}
+
+	/**
+	 * Replaces the recorded deletions with those of the last sync
+	 */
+	async saveDeletions(records: DeletedFileRecord[]): Promise<void> {
+		const pluginData = (await this.plugin.loadData()) ?? {};
+		pluginData[this.DELETIONS_KEY] = records;
+		await this.plugin.saveData(pluginData);
+	}
+
+	async loadDeletions(): Promise<DeletedFileRecord[]> {
+		const pluginData = await this.plugin.loadData();
+		return (pluginData?.[this.DELETIONS_KEY] as DeletedFileRecord[]) ?? [];
+	}
+
+	/**
+	 * Finds a deleted file in the vault trash. Obsidian appends a number to
+	 * the name if the trash already holds a file with the same name, so all
+	 * candidates are checked against the recorded hash.
+	 * @returns The path of the file in the trash, or null if it is not there
+	 */
+	async findInVaultTrash(record: DeletedFileRecord): Promise<string | null> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(VAULT_TRASH_FOLDER))) {
+			return null;
+		}
+
+		const name = record.path.split("/").pop() ?? record.path;
+		const extensionIndex = name.lastIndexOf(".");
+		const baseName =
+			extensionIndex > 0 ? name.substring(0, extensionIndex) : name;
+		const extension = extensionIndex > 0 ? name.substring(extensionIndex) : "";
+
+		const listing = await adapter.list(VAULT_TRASH_FOLDER);
+		const candidates = listing.files.filter((trashPath) => {
+			const trashName = trashPath.split("/").pop() ?? "";
+			if (trashName === name) return true;
+			return (
+				trashName.startsWith(`${baseName} `) &&
+				trashName.endsWith(extension) &&
+				/^\d+$/.test(
+					trashName.substring(
+						baseName.length + 1,
+						trashName.length - extension.length,
+					),
+				)
+			);
+		});
+
+		for (const trashPath of candidates) {
+			if (!record.hash) {
+				return normalizePath(trashPath);
+			}
+			const content = await adapter.readBinary(trashPath);
+			if ((await computeContentHash(content)) === record.hash) {
+				return normalizePath(trashPath);
+			}
+		}
+		return null;
+	}
+}
@@ -0,0 +1,106 @@
+import { App, normalizePath } from "obsidian";
+import S3SyncPlugin from "../main";
+
+/**
+ * Gets this plugin's folder in the configuration folder, which holds the
+ * files the plugin keeps for itself (change tracking, merge bases,
+ * unfinished transfers)
+ */
+export function getPluginDir(app: App, plugin: S3SyncPlugin): string {
+	return normalizePath(
+		plugin.manifest.dir ??
+			`${app.vault.configDir}/plugins/${plugin.manifest.id}`,
+	);
+}
+
+/**
+ * Reads a JSON file through the adapter
+ * @returns The parsed content, or null if the file does not exist
+ */
+export async function readJsonFile<T>(app: App, path: string): Promise<T | null> {
+	if (!(await app.vault.adapter.exists(path))) {
+		return null;
+	}
+	return JSON.parse(await app.vault.adapter.read(path)) as T;
+}
+
+/**
+ * Writes a JSON file through the adapter, creating its folders if needed
+ */
+export async function writeJsonFile(app: App, path: string, data: unknown): Promise<void> {
+	await createFolder(app, path.substring(0, path.lastIndexOf("/")));
+	await app.vault.adapter.write(path, JSON.stringify(data));
+}
+
+async function createFolder(app: App, folder: string): Promise<void> {
+	if (!folder || (await app.vault.adapter.exists(folder))) {
+		return;
+	}
+	await createFolder(app, folder.substring(0, folder.lastIndexOf("/")));
+	try {
+		await app.vault.adapter.mkdir(folder);
+	} catch (error) {
+		// Folder likely created by a parallel write
+		if (!(await app.vault.adapter.exists(folder))) throw error;
+	}
+}
+
+/**
+ * A JSON file in the plugin folder that is updated while syncs run. It is
+ * read once, also when parallel transfers ask at the same time, and written
+ * one write at a time. Failures are only logged, as the file holds nothing
+ * that cannot be recovered without it.
+ */
+export class PluginJsonFile<T extends object> {
+	private loading: Promise<T> | null = null;
+	private saving: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param description What the file holds, for warnings
+	 * @param createDefault Creates the content of a missing file, and the
+	 * defaults of fields missing in the file
+	 */
+	constructor(
+		private app: App,
+		private plugin: S3SyncPlugin,
+		private fileName: string,
+		private description: string,
+		private createDefault: () => T,
+	) {}
+
+	/**
+	 * Gets the content, which callers change in place before saving
+	 */
+	load(): Promise<T> {
+		if (!this.loading) {
+			this.loading = this.read();
+		}
+		return this.loading;
+	}
+
+	async save(): Promise<void> {
+		const data = await this.load();
+		this.saving = this.saving.then(async () => {
+			try {
+				await writeJsonFile(this.app, this.getPath(), data);
+			} catch (error) {
+				console.warn(`S3 Sync: Could not save ${this.description}:`, error);
+			}
+		});
+		await this.saving;
+	}
+
+	private async read(): Promise<T> {
+		const data = this.createDefault();
+		try {
+			Object.assign(data, await readJsonFile<Partial<T>>(this.app, this.getPath()));
+		} catch (error) {
+			console.warn(`S3 Sync: Could not load ${this.description}:`, error);
+		}
+		return data;
+	}
+
+	private getPath(): string {
+		return `${getPluginDir(this.app, this.plugin)}/${this.fileName}`;
+	}
+}
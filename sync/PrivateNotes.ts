@@ -0,0 +1,29 @@
+import { CachedMetadata, getAllTags } from "obsidian";
+
+// Frontmatter key that excludes a note with `kisss3: false`
+export const PRIVATE_FRONTMATTER_KEY = "kisss3";
+
+/**
+ * Checks if a note must stay on this device: its frontmatter sets
+ * `kisss3: false`, or it has the private tag or one of its nested tags
+ * (`#local-only/journal` for `#local-only`)
+ * @param privateTag Tag with or without "#", empty to only use the frontmatter
+ */
+export function isPrivateNote(
+	cache: CachedMetadata,
+	privateTag: string,
+): boolean {
+	const flag = cache.frontmatter?.[PRIVATE_FRONTMATTER_KEY];
+	if (flag === false || flag === "false") {
+		return true;
+	}
+
+	const tag = privateTag.trim().replace(/^#/, "").toLowerCase();
+	if (!tag) {
+		return false;
+	}
+	return (getAllTags(cache) ?? []).some((noteTag) => {
+		const name = noteTag.replace(/^#/, "").toLowerCase();
+		return name === tag || name.startsWith(`${tag}/`);
+	});
+}
@@ -8,9 +8,19 @@ import {
 	RemoteFilesMap,
 	StateFilesMap,
 	SyncFileState,
+	MergeStrategy,
 } from "./SyncTypes";
 
 import S3SyncPlugin from "../main";
+import { ConflictPolicy } from "../settings";
+import { matchesGlob } from "./GlobPattern";
+import { isInFolders } from "./FolderSelection";
+
+// How a file changed on both sides will be resolved
+interface ConflictResolution {
+	policy: ConflictPolicy;
+	mergeStrategy?: MergeStrategy;
+}
 /**
  * Engine for making sync decisions based on three-source comparison
  */
@@ -48,6 +58,11 @@ export class SyncDecisionEngine {
 			);
 		}
 		for (const filePath of allFilePaths) {
+			// Files outside the folders this device syncs are neither
+			// downloaded nor, being absent locally, deleted remotely
+			if (!this.isInSelectedFolders(filePath)) {
+				continue;
+			}
 			if (this.plugin.settings.enableDebugLogging) {
 				console.log(
 					`generateSyncDecisions: Analyzing now: ${filePath}`,
@@ -68,7 +83,111 @@ export class SyncDecisionEngine {
 			decisions.push(decision);
 		}
 
-		return decisions;
+		return this.detectRenames(decisions, localFiles, remoteFiles, stateFiles);
+	}
+
+	/**
+	 * Pairs a file deleted on one side with a file created on the same side
+	 * with the same content, and replaces the delete and the transfer with a
+	 * RENAME that moves the file on the other side. If several deleted files
+	 * match, one with the same file name is preferred.
+	 */
+	private detectRenames(
+		decisions: FileSyncDecision[],
+		localFiles: LocalFilesMap,
+		remoteFiles: RemoteFilesMap,
+		stateFiles: StateFilesMap,
+	): FileSyncDecision[] {
+		const pairedDeletes = new Set<FileSyncDecision>();
+		const renames = new Map<FileSyncDecision, FileSyncDecision>();
+
+		for (const decision of decisions) {
+			const createdLocally =
+				decision.action === SyncAction.UPLOAD &&
+				decision.localStatus === FileStatus.CREATED &&
+				!remoteFiles.has(decision.filePath);
+			const createdRemotely =
+				decision.action === SyncAction.DOWNLOAD &&
+				decision.remoteStatus === FileStatus.CREATED &&
+				!localFiles.has(decision.filePath);
+			const file = createdLocally
+				? localFiles.get(decision.filePath)
+				: remoteFiles.get(decision.filePath);
+			if (!file || (!createdLocally && !createdRemotely)) {
+				continue;
+			}
+
+			// The moved file must still exist unchanged on the other side
+			const candidates = decisions.filter(
+				(d) =>
+					!pairedDeletes.has(d) &&
+					(createdLocally
+						? d.action === SyncAction.DELETE_REMOTE &&
+							remoteFiles.has(d.filePath)
+						: d.action === SyncAction.DELETE_LOCAL &&
+							localFiles.has(d.filePath)) &&
+					this.hasSyncedContent(
+						file,
+						stateFiles.get(d.filePath),
+						createdLocally,
+					),
+			);
+			const fileName = (path: string) => path.split("/").pop();
+			const previous =
+				candidates.find(
+					(d) => fileName(d.filePath) === fileName(decision.filePath),
+				) ?? candidates[0];
+			if (!previous) {
+				continue;
+			}
+
+			pairedDeletes.add(previous);
+			renames.set(decision, {
+				...decision,
+				action: SyncAction.RENAME,
+				previousPath: previous.filePath,
+			});
+			if (this.plugin.settings.enableDebugLogging) {
+				console.log(
+					`detectRenames: ${previous.filePath} -> ${decision.filePath} (${createdLocally ? "local" : "remote"})`,
+				);
+			}
+		}
+
+		return decisions
+			.filter((d) => !pairedDeletes.has(d))
+			.map((d) => renames.get(d) ?? d);
+	}
+
+	/**
+	 * Checks whether a file has the content recorded in a sync state: the
+	 * same SHA-256, or for remote files the same size and ETag
+	 */
+	private hasSyncedContent(
+		file: LocalFile | RemoteFile,
+		syncState: SyncFileState | undefined,
+		isLocal: boolean,
+	): boolean {
+		if (!syncState) {
+			return false;
+		}
+		if (
+			file.size !== undefined &&
+			syncState.size !== undefined &&
+			file.size !== syncState.size
+		) {
+			return false;
+		}
+		if (file.hash && syncState.hash) {
+			return file.hash === syncState.hash;
+		}
+		const etag = isLocal ? undefined : (file as RemoteFile).etag;
+		return (
+			!!etag &&
+			etag === syncState.remoteEtag &&
+			file.size !== undefined &&
+			file.size === syncState.size
+		);
 	}
 
 	/**
@@ -97,12 +216,28 @@ export class SyncDecisionEngine {
 		);
 
 		// Apply decision matrix
-		const action = this.applyDecisionMatrix(
+		const resolution: ConflictResolution = {
+			policy: this.getConflictPolicy(filePath),
+			mergeStrategy: this.getMergeStrategy(filePath),
+		};
+		let action = this.applyDecisionMatrix(
 			localStatus,
 			remoteStatus,
+			resolution,
 			localFile,
 			remoteFile,
 		);
+
+		// Touched but identical files: record the new mtimes so the
+		// content does not have to be compared again on the next sync
+		if (
+			action === SyncAction.DO_NOTHING &&
+			localFile &&
+			remoteFile &&
+			this.isTouched(localFile, remoteFile, syncState)
+		) {
+			action = SyncAction.UPDATE_STATE;
+		}
 		if (this.plugin.settings.enableDebugLogging) {
 			console.log(
 				`analyzeFile: ${filePath}, localStatus: ${localStatus}, remoteStatus: ${remoteStatus}, action: ${action}`,
@@ -118,9 +253,58 @@ export class SyncDecisionEngine {
 				action === SyncAction.CONFLICT
 					? this.getConflictDescription(localStatus, remoteStatus)
 					: undefined,
+			conflictPolicy:
+				action === SyncAction.CONFLICT ? resolution.policy : undefined,
+			mergeStrategy:
+				action === SyncAction.CONFLICT
+					? resolution.mergeStrategy
+					: undefined,
 		};
 	}
 
+	/**
+	 * Checks if a file is inside the folders this device syncs. The
+	 * configuration folder is not part of the selection.
+	 */
+	isInSelectedFolders(filePath: string): boolean {
+		if (filePath.startsWith(`${this.plugin.app.vault.configDir}/`)) {
+			return true;
+		}
+		return isInFolders(filePath, this.plugin.settings.syncFolders ?? []);
+	}
+
+	/**
+	 * Gets the conflict policy for a file: the first matching override,
+	 * otherwise the global policy
+	 */
+	getConflictPolicy(filePath: string): ConflictPolicy {
+		const override = (
+			this.plugin.settings.conflictPolicyOverrides ?? []
+		).find((o) => matchesGlob(filePath, o.pattern));
+		return override?.policy ?? this.plugin.settings.conflictPolicy;
+	}
+
+	/**
+	 * Gets the merge strategy for a file, if its content can be merged
+	 */
+	private getMergeStrategy(filePath: string): MergeStrategy | undefined {
+		const lowerPath = filePath.toLowerCase();
+		if (
+			(this.plugin.settings.enableThreeWayMerge ||
+				this.plugin.settings.enableFrontmatterMerge) &&
+			lowerPath.endsWith(".md")
+		) {
+			return "text";
+		}
+		if (
+			this.plugin.settings.enableCanvasMerge &&
+			lowerPath.endsWith(".canvas")
+		) {
+			return "canvas";
+		}
+		return undefined;
+	}
+
 	/**
 	 * Determines the status of a file compared to its state
 	 */
@@ -154,7 +338,10 @@ export class SyncDecisionEngine {
 
 		if (file && stateTime) {
 			// Compare exact timestamps - no tolerance needed since we control both values
-			if (file.mtime > stateTime) {
+			if (
+				file.mtime > stateTime &&
+				this.hasContentChanged(file, syncState, isLocal)
+			) {
 				return FileStatus.MODIFIED; // File was modified since state
 			}
 			return FileStatus.UNCHANGED; // File hasn't changed since state
@@ -163,12 +350,80 @@ export class SyncDecisionEngine {
 		return FileStatus.UNCHANGED;
 	}
 
+	/**
+	 * Checks whether a file with a newer mtime really has different content.
+	 * Local files are compared by size and SHA-256, remote files by ETag and
+	 * size. Without recorded content info the file is considered changed.
+	 */
+	private hasContentChanged(
+		file: LocalFile | RemoteFile,
+		syncState: SyncFileState | undefined,
+		isLocal: boolean,
+	): boolean {
+		if (
+			file.size !== undefined &&
+			syncState?.size !== undefined &&
+			file.size !== syncState.size
+		) {
+			return true;
+		}
+
+		if (isLocal) {
+			if (file.hash && syncState?.hash) {
+				return file.hash !== syncState.hash;
+			}
+			return true;
+		}
+
+		const etag = (file as RemoteFile).etag;
+		if (etag && syncState?.remoteEtag) {
+			return etag !== syncState.remoteEtag;
+		}
+		return true;
+	}
+
+	/**
+	 * Checks whether local and remote are known to have identical content
+	 */
+	private hasSameContent(localFile: LocalFile, remoteFile: RemoteFile): boolean {
+		if (
+			localFile.size !== undefined &&
+			remoteFile.size !== undefined &&
+			localFile.size !== remoteFile.size
+		) {
+			return false;
+		}
+		return (
+			!!localFile.hash &&
+			!!remoteFile.hash &&
+			localFile.hash === remoteFile.hash
+		);
+	}
+
+	/**
+	 * Checks whether either side has a newer mtime than recorded in the state
+	 */
+	private isTouched(
+		localFile: LocalFile,
+		remoteFile: RemoteFile,
+		syncState: SyncFileState | undefined,
+	): boolean {
+		if (!syncState?.localMtime || !syncState?.remoteMtime) {
+			return false;
+		}
+		return (
+			localFile.mtime > syncState.localMtime ||
+			remoteFile.mtime > syncState.remoteMtime
+		);
+	}
+
 	/**
 	 * Applies the decision matrix to determine sync action
 	 */
 	private applyDecisionMatrix(
 		localStatus: FileStatus,
 		remoteStatus: FileStatus,
+		resolution: ConflictResolution,
 		localFile?: LocalFile,
 		remoteFile?: RemoteFile,
 	): SyncAction {
@@ -227,6 +482,7 @@ export class SyncDecisionEngine {
 			return this.resolveConflict(
 				localStatus,
 				remoteStatus,
+				resolution,
 				localFile,
 				remoteFile,
 			);
@@ -240,6 +496,7 @@ export class SyncDecisionEngine {
 	private resolveConflict(
 		localStatus: FileStatus,
 		remoteStatus: FileStatus,
+		resolution: ConflictResolution,
 		localFile?: LocalFile,
 		remoteFile?: RemoteFile,
 	): SyncAction {
@@ -271,20 +528,57 @@ export class SyncDecisionEngine {
 			return SyncAction.UPLOAD;
 		}
 
-		// All other conflicts: Newest wins by mtime
-		if (localFile && remoteFile) {
+		// Both sides changed to identical content: just record the new state
+		if (localFile && remoteFile && this.hasSameContent(localFile, remoteFile)) {
+			return SyncAction.UPDATE_STATE;
+		}
+
+		// Mergeable content: try merging first,
+		// SyncManager.handleConflict falls back to the policy
+		if (this.canMerge(localStatus, remoteStatus, resolution.mergeStrategy)) {
+			return SyncAction.CONFLICT;
+		}
+
+		// All other conflicts: apply the configured policy
+		if (resolution.policy === "keep-local") {
+			return SyncAction.UPLOAD;
+		}
+		if (resolution.policy === "keep-remote") {
+			return SyncAction.DOWNLOAD;
+		}
+		if (resolution.policy === "newest-wins" && localFile && remoteFile) {
 			if (localFile.mtime > remoteFile.mtime) {
 				return SyncAction.UPLOAD;
 			} else if (remoteFile.mtime > localFile.mtime) {
 				return SyncAction.DOWNLOAD;
 			}
-			// If timestamps are exactly equal, no action needed
+			// If timestamps are exactly equal, fall through to a conflict
 		}
 
-		// If we can't determine, flag as conflict for manual resolution
+		// keep-both and ask are carried out by SyncManager.handleConflict
 		return SyncAction.CONFLICT;
 	}
 
+	/**
+	 * Checks if a file changed on both sides can be merged. Notes are only
+	 * merged if both sides modified a synced file, which has a base version.
+	 * Canvas files can also be merged without a base.
+	 */
+	private canMerge(
+		localStatus: FileStatus,
+		remoteStatus: FileStatus,
+		mergeStrategy: MergeStrategy | undefined,
+	): boolean {
+		if (mergeStrategy === "canvas") {
+			return true;
+		}
+		return (
+			mergeStrategy === "text" &&
+			localStatus === FileStatus.MODIFIED &&
+			remoteStatus === FileStatus.MODIFIED
+		);
+	}
+
 	/**
 	 * Gets a description of the conflict type for logging
 	 */
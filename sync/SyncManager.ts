@@ -1,13 +1,47 @@
-import { App, Notice, TFile, TFolder } from "obsidian";
-import { S3Service } from "../s3/S3Service";
+import { App, Notice, TAbstractFile, TFile, TFolder } from "obsidian";
+import {
+	ManifestListing,
+	RemoteFileVersion,
+	RemoteTrashEntry,
+	S3Service,
+} from "../s3/S3Service";
 import S3SyncPlugin from "../main";
 
 import { S3SyncSettings } from "../settings";
 import { _Object as S3Object } from "@aws-sdk/client-s3";
 import { SyncStateManager } from "./SyncStateManager";
 import { SyncDecisionEngine } from "./SyncDecisionEngine";
+import { computeContentHash } from "./ContentHash";
+import { ConflictModal } from "../ui/ConflictModal";
+import { SyncPreviewModal } from "../ui/SyncPreviewModal";
+import { MassDeleteModal } from "../ui/MassDeleteModal";
+import { RemoteTrashModal } from "../ui/RemoteTrashModal";
+import { RemoteHistoryModal } from "../ui/RemoteHistoryModal";
+import { RestoreToDateModal, RestoreTarget } from "../ui/RestoreToDateModal";
+import { SnapshotsModal } from "../ui/SnapshotsModal";
+import { BaseVersionStore } from "./BaseVersionStore";
+import { DeletedFileRecord, LocalTrash } from "./LocalTrash";
+import { ChangeTracker } from "./ChangeTracker";
+import { runWithConcurrency } from "./TransferPool";
+import { computeMd5 } from "./IncrementalHash";
+import { IGNORE_FILE, IgnoreRules } from "./IgnoreRules";
+import { isInFolders, normalizeFolderSelection } from "./FolderSelection";
+import { isSyncedConfigFile } from "./ConfigSync";
+import { getPluginDir } from "./PluginFolder";
+import { isPrivateNote } from "./PrivateNotes";
+import {
+	ScopeFilterReason,
+	getScopeFilterReason,
+	hasScopeFilters,
+} from "./SyncScope";
+import { PrivateNotesModal } from "../ui/PrivateNotesModal";
+import { SnapshotInfo, SnapshotManager } from "./snapshot/SnapshotManager";
+import { threeWayMerge } from "./merge/ThreeWayMerge";
+import { mergeCanvas } from "./merge/CanvasMerge";
+import { mergeFrontmatter, splitFrontmatter } from "./merge/FrontmatterMerge";
 import {
 	SyncAction,
+	FileStatus,
 	FileSyncDecision,
 	LocalFilesMap,
 	RemoteFilesMap,
@@ -16,16 +50,47 @@ import {
 	RemoteFile,
 	SyncState,
 	SyncFileState,
+	SyncAbortedError,
 } from "./SyncTypes";
 
 // Contains the core logic for comparing and synchronizing files.
 // https://docs.obsidian.md/Reference/TypeScript+API/FileStats
 
+// A file left out by the size, extension or age filters on one side
+interface OutOfScopeFile<T> {
+	file: T;
+	reason: ScopeFilterReason;
+}
+
+// Paths an incremental sync analyzes. The remote listing is only present if
+// the manifest showed that other devices changed files.
+interface SyncCandidates {
+	paths: Set<string>;
+	remoteListing?: Map<string, S3Object>;
+}
+
+// Lets the user approve planned actions before they are executed.
+// Returns the approved decisions, or null to cancel the sync.
+type DecisionApprover = (
+	decisions: FileSyncDecision[],
+) => Promise<FileSyncDecision[] | null>;
+
 export class SyncManager {
 	private s3Service: S3Service;
 	private stateManager: SyncStateManager;
 	private decisionEngine: SyncDecisionEngine;
+	private baseStore: BaseVersionStore;
+	private localTrash: LocalTrash;
+	private snapshotManager: SnapshotManager;
+	private changeTracker: ChangeTracker;
 	private running = false;
+	private vaultScanned = false; // Vault files compared with the state since loading
+	private remoteListingSize: number | null = null; // Null if only single files were checked
+	private ignoreRules = new IgnoreRules();
+	private privateNotes = new Set<string>(); // Excluded by frontmatter or tag
+	private unindexedNotes = new Set<string>(); // Not in the metadata cache yet
+	private outOfScopeLocal = new Map<string, OutOfScopeFile<LocalFile>>();
+	private outOfScopeRemote = new Map<string, OutOfScopeFile<RemoteFile>>();
 
 	// Cache for file maps during sync operation
 	private cachedLocalFiles: LocalFilesMap | null = null;
@@ -39,13 +104,53 @@ export class SyncManager {
 		this.s3Service = new S3Service(this.plugin.settings, this.plugin);
 		this.stateManager = new SyncStateManager(this.app, this.plugin);
 		this.decisionEngine = new SyncDecisionEngine(this.plugin);
+		this.baseStore = new BaseVersionStore(this.app, this.plugin);
+		this.localTrash = new LocalTrash(this.app, this.plugin);
+		this.changeTracker = new ChangeTracker(this.app, this.plugin);
+		this.snapshotManager = new SnapshotManager(
+			this.app,
+			this.plugin,
+			this.s3Service,
+		);
 	}
 
 	updateSettings(settings: S3SyncSettings) {
 		this.s3Service.updateSettings(settings);
 	}
 
-	async runSync(): Promise<void> {
+	/**
+	 * Shows the planned actions and only executes those the user approves.
+	 * Skipped files keep their state and come up again on the next sync.
+	 */
+	async previewSync(): Promise<void> {
+		await this.runSync((decisions) =>
+			SyncPreviewModal.confirm(this.app, decisions),
+		);
+	}
+
+	/**
+	 * Runs a full sync that lists the bucket and analyzes every file, even if
+	 * incremental syncs are enabled
+	 */
+	async runFullSync(): Promise<void> {
+		await this.runSync(undefined, true);
+	}
+
+	/**
+	 * Adds a changed, created, deleted or renamed file or folder to the
+	 * dirty set analyzed by the next incremental sync
+	 */
+	trackLocalChange(file: TAbstractFile, oldPath?: string): void {
+		this.changeTracker.markDirty(file.path);
+		if (oldPath) {
+			this.changeTracker.markDirty(oldPath);
+		}
+	}
+
+	async runSync(
+		approveDecisions?: DecisionApprover,
+		forceFullSync = false,
+	): Promise<void> {
 		if (this.running) {
 			new Notice("S3 Sync: A sync is already in progress.");
 			return;
@@ -58,39 +163,146 @@ export class SyncManager {
 		}
 		this.running = true;
 		const syncNotice = new Notice("S3 Sync: Starting sync...", 0);
+		// Paths to analyze again if the sync does not complete
+		let unsyncedPaths: Set<string> | null = null;
+		// Decisions that were not approved or left unresolved
+		const skipped: FileSyncDecision[] = [];
 
 		try {
 			// Step 1: Generate and cache the three maps (Local, Remote, State)
 			syncNotice.setMessage("S3 Sync: Generating file maps...");
-			const [localFiles, remoteFiles, stateFiles] = await Promise.all([
-				this.getLocalFilesMap(),
-				this.getRemoteFilesMap(),
-				this.getStateFilesMap(),
+			await this.loadIgnoreRules();
+			const stateFiles = await this.getStateFilesMap();
+			const fullSync =
+				forceFullSync ||
+				(await this.changeTracker.isFullSyncDue(
+					this.plugin.settings.fullSyncIntervalHours,
+				));
+			const manifest = await this.s3Service.readManifest();
+			unsyncedPaths = await this.changeTracker.takeDirtyPaths();
+			const candidates =
+				this.plugin.settings.enableIncrementalSync && !fullSync
+					? await this.getSyncCandidates(
+							stateFiles,
+							manifest,
+							unsyncedPaths,
+						)
+					: null;
+			unsyncedPaths = candidates?.paths ?? unsyncedPaths;
+			if (candidates?.paths.size === 0) {
+				await this.changeTracker.setManifestEtag(manifest.etag);
+				unsyncedPaths = null;
+				syncNotice.setMessage("S3 Sync: Nothing to sync.");
+				return;
+			}
+			// A full sync lists the bucket, to also catch changes made
+			// without updating the manifest
+			const [localFiles, remoteFiles] = await Promise.all([
+				this.getLocalFilesMap(candidates?.paths),
+				this.getRemoteFilesMap(
+					candidates ?? undefined,
+					fullSync ? null : manifest.files,
+				),
 			]);
+			if (candidates) {
+				syncNotice.setMessage(
+					`S3 Sync: Analyzing ${candidates.paths.size} changed files...`,
+				);
+			}
+			await this.excludePrivateNotes(remoteFiles, stateFiles);
+			const scopedStateFiles = this.applyScopeFilters(
+				localFiles,
+				remoteFiles,
+				stateFiles,
+			);
+			if (candidates) {
+				for (const path of scopedStateFiles.keys()) {
+					if (!candidates.paths.has(path)) {
+						scopedStateFiles.delete(path);
+					}
+				}
+			}
+			await this.computeContentHashes(
+				localFiles,
+				remoteFiles,
+				scopedStateFiles,
+			);
 
 			// Step 2: Generate sync decisions
 			syncNotice.setMessage("S3 Sync: Analyzing files...");
-			const decisions = this.decisionEngine.generateSyncDecisions(
+			let decisions = this.decisionEngine.generateSyncDecisions(
 				localFiles,
 				remoteFiles,
-				stateFiles,
+				scopedStateFiles,
 			);
 
+			if (approveDecisions) {
+				syncNotice.setMessage("S3 Sync: Waiting for approval...");
+				const approved = await approveDecisions(decisions);
+				if (!approved) {
+					syncNotice.setMessage("S3 Sync: Sync cancelled.");
+					return;
+				}
+				skipped.push(
+					...decisions.filter(
+						(d) =>
+							d.action !== SyncAction.DO_NOTHING &&
+							!approved.includes(d),
+					),
+				);
+				decisions = approved;
+			}
+
 			// Step 3: Execute sync actions in safe order, updating state map on-the-fly
-			await this.executeSyncDecisions(decisions, syncNotice, stateFiles);
+			skipped.push(
+				...(await this.executeSyncDecisions(
+					decisions,
+					syncNotice,
+					stateFiles,
+				)),
+			);
 
 			// Step 4: Save updated state map (no rescanning needed)
 			syncNotice.setMessage("S3 Sync: Updating state...");
 			await this.saveUpdatedSyncState(stateFiles);
+			await this.purgeExpiredRemoteTrash();
+			if (fullSync) {
+				await this.discardStaleTransfers();
+				await this.changeTracker.recordFullSync();
+			}
+			if (!candidates) {
+				this.vaultScanned = true;
+			}
+			// The remote now reflects the manifest read before listing it,
+			// unless remote changes were skipped and have to be found again
+			if (!skipped.some((d) => d.remoteStatus !== FileStatus.UNCHANGED)) {
+				await this.changeTracker.setManifestEtag(manifest.etag);
+			}
+			// Skipped files come up again on the next sync
+			unsyncedPaths = new Set(
+				skipped.flatMap((d) =>
+					d.previousPath ? [d.filePath, d.previousPath] : [d.filePath],
+				),
+			);
 
-			syncNotice.setMessage("S3 Sync: Sync complete!");
+			syncNotice.setMessage(
+				`S3 Sync: Sync complete!${this.describeSkippedFiles()}`,
+			);
 		} catch (error) {
+			if (error instanceof SyncAbortedError) {
+				syncNotice.setMessage(`S3 Sync: ${error.message}`);
+				return;
+			}
 			console.error("S3 Sync Error:", error);
 			syncNotice.setMessage(
 				`S3 Sync: Error during sync. Check console for details.`,
 			);
 			// Don't update state on error
 		} finally {
+			if (unsyncedPaths && unsyncedPaths.size > 0) {
+				await this.changeTracker.restoreDirtyPaths(unsyncedPaths);
+			}
+			await this.publishRemoteChanges();
 			// Clear cached maps
 			this.clearCachedMaps();
 			this.running = false;
@@ -98,27 +310,133 @@ export class SyncManager {
 		}
 	}
 
+	/**
+	 * Collects the paths an incremental sync has to analyze: the dirty set,
+	 * hidden files and (once after loading) vault files whose mtime differs
+	 * from the state, and, if the remote manifest changed, the remote files
+	 * that differ from the state
+	 */
+	private async getSyncCandidates(
+		stateFiles: StateFilesMap,
+		manifest: ManifestListing,
+		dirtyPaths: Set<string>,
+	): Promise<SyncCandidates> {
+		const paths = new Set<string>();
+		const statePaths = Array.from(stateFiles.keys());
+		for (const dirtyPath of dirtyPaths) {
+			paths.add(dirtyPath);
+			// Renamed or deleted folders
+			statePaths
+				.filter((path) => path.startsWith(`${dirtyPath}/`))
+				.forEach((path) => paths.add(path));
+			if (this.app.vault.getAbstractFileByPath(dirtyPath) instanceof TFolder) {
+				this.app.vault
+					.getFiles()
+					.filter((file) => file.path.startsWith(`${dirtyPath}/`))
+					.forEach((file) => paths.add(file.path));
+			}
+		}
+
+		// Changes made while Obsidian was closed, and hidden files, which
+		// have no vault events
+		const localFiles: { path: string; mtime: number }[] = [];
+		if (!this.vaultScanned) {
+			this.app.vault
+				.getFiles()
+				.forEach((file) => localFiles.push({ path: file.path, mtime: file.stat.mtime }));
+		}
+		for (const filePath of await this.listHiddenFiles()) {
+			const stat = await this.app.vault.adapter.stat(filePath);
+			if (stat?.type === "file") {
+				localFiles.push({ path: filePath, mtime: stat.mtime });
+			}
+		}
+		const localPaths = new Set(localFiles.map((file) => file.path));
+		for (const file of localFiles) {
+			if (file.mtime !== stateFiles.get(file.path)?.localMtime) {
+				paths.add(file.path);
+			}
+		}
+		for (const path of statePaths) {
+			const isHidden = this.isHiddenFile(path);
+			if ((isHidden || !this.vaultScanned) && !localPaths.has(path)) {
+				paths.add(path);
+			}
+		}
+		this.vaultScanned = true;
+
+		if (manifest.etag === (await this.changeTracker.getManifestEtag())) {
+			return { paths };
+		}
+		const remoteListing =
+			manifest.files ?? (await this.s3Service.listRemoteFiles());
+		for (const [path, s3Object] of remoteListing.entries()) {
+			if (
+				s3Object.LastModified?.getTime() !==
+				stateFiles.get(path)?.remoteMtime
+			) {
+				paths.add(path);
+			}
+		}
+		for (const [path, state] of stateFiles.entries()) {
+			if (state.remoteMtime && !remoteListing.has(path)) {
+				paths.add(path);
+			}
+		}
+		return { paths, remoteListing };
+	}
+
+	/**
+	 * Writes the vault files changed remotely to the manifest. The new
+	 * manifest only counts as seen if no other device wrote it since this
+	 * device last looked, otherwise the next incremental sync compares the
+	 * whole manifest with the state.
+	 */
+	private async publishRemoteChanges(): Promise<void> {
+		try {
+			const published = await this.s3Service.publishChanges();
+			if (!published) {
+				return;
+			}
+			const seen = await this.changeTracker.getManifestEtag();
+			await this.changeTracker.setManifestEtag(
+				published.previous === seen ? published.current : null,
+			);
+		} catch (error) {
+			console.warn("S3 Sync: Could not publish remote changes:", error);
+		}
+	}
+
 	/**
 	 * Gets local files map with caching during sync operation
+	 * @param paths Only include these files (incremental sync)
 	 */
-	private async getLocalFilesMap(): Promise<LocalFilesMap> {
+	private async getLocalFilesMap(paths?: Set<string>): Promise<LocalFilesMap> {
 		if (this.cachedLocalFiles) {
 			return this.cachedLocalFiles;
 		}
 
-		this.cachedLocalFiles = await this.generateLocalFilesMap();
+		this.cachedLocalFiles = await this.generateLocalFilesMap(paths);
 		return this.cachedLocalFiles;
 	}
 
 	/**
 	 * Gets remote files map with caching during sync operation
+	 * @param candidates Only include these files (incremental sync)
+	 * @param manifestFiles The remote files from the manifest, instead of a listing
 	 */
-	private async getRemoteFilesMap(): Promise<RemoteFilesMap> {
+	private async getRemoteFilesMap(
+		candidates?: SyncCandidates,
+		manifestFiles?: Map<string, S3Object> | null,
+	): Promise<RemoteFilesMap> {
 		if (this.cachedRemoteFiles) {
 			return this.cachedRemoteFiles;
 		}
 
-		this.cachedRemoteFiles = await this.generateRemoteFilesMap();
+		this.cachedRemoteFiles = await this.generateRemoteFilesMap(
+			candidates,
+			manifestFiles,
+		);
 		return this.cachedRemoteFiles;
 	}
 
@@ -141,24 +459,64 @@ export class SyncManager {
 		this.cachedLocalFiles = null;
 		this.cachedRemoteFiles = null;
 		this.cachedStateFiles = null;
+		this.remoteListingSize = null;
+		this.outOfScopeLocal.clear();
+		this.outOfScopeRemote.clear();
 	}
 
 	/**
 	 * Generates local files map with exclusion rules applied
+	 * @param paths Only include these files, instead of all vault files
 	 */
-	private async generateLocalFilesMap(): Promise<LocalFilesMap> {
+	private async generateLocalFilesMap(paths?: Set<string>): Promise<LocalFilesMap> {
 		const localFiles = new Map<string, LocalFile>();
-
-		this.app.vault.getFiles().forEach((file) => {
-			// Apply exclusion rule: ignore files/folders starting with a dot
-			if (!this.shouldIgnoreFile(file.path)) {
-				localFiles.set(file.path, {
+		this.privateNotes.clear();
+		this.unindexedNotes.clear();
+
+		const files = paths
+			? Array.from(paths)
+					.map((path) => this.app.vault.getAbstractFileByPath(path))
+					.filter((file): file is TFile => file instanceof TFile)
+			: this.app.vault.getFiles();
+		files.forEach((file) => {
+			const privacy = this.getNotePrivacy(file);
+			if (privacy === "private") {
+				this.privateNotes.add(file.path);
+			} else if (privacy === "unindexed") {
+				this.unindexedNotes.add(file.path);
+			}
+			// Apply exclusion rules: dot files and the ignore file's rules
+			if (!privacy && !this.shouldIgnoreFile(file.path)) {
+				const localFile: LocalFile = {
 					path: file.path,
 					mtime: file.stat.mtime,
-				});
+					size: file.stat.size,
+				};
+				const reason = this.getScopeFilterReason(localFile);
+				if (reason) {
+					this.outOfScopeLocal.set(file.path, { file: localFile, reason });
+				} else {
+					localFiles.set(file.path, localFile);
+				}
 			}
 		});
 
+		// Dot files are not indexed by the vault, so the ignore file and the
+		// configuration folder are read through the adapter
+		for (const filePath of await this.listHiddenFiles()) {
+			if (this.shouldIgnoreFile(filePath) || (paths && !paths.has(filePath))) {
+				continue;
+			}
+			const stat = await this.app.vault.adapter.stat(filePath);
+			if (stat?.type === "file") {
+				localFiles.set(filePath, {
+					path: filePath,
+					mtime: stat.mtime,
+					size: stat.size,
+				});
+			}
+		}
+
 		if (this.plugin.settings.enableDebugLogging) {
 			console.log(
 				"generateLocalFilesMap - Local Files Map Keys:",
@@ -169,24 +527,52 @@ export class SyncManager {
 	}
 
 	/**
-	 * Generates remote files map with exclusion rules applied
+	 * Generates remote files map with exclusion rules applied. The remote
+	 * files are taken from the manifest if given, otherwise the bucket is
+	 * listed. An incremental sync without a manifest checks only its
+	 * candidates.
+	 * @param candidates Only include these files
+	 * @param manifestFiles The remote files from the manifest
 	 */
-	private async generateRemoteFilesMap(): Promise<RemoteFilesMap> {
+	private async generateRemoteFilesMap(
+		candidates?: SyncCandidates,
+		manifestFiles?: Map<string, S3Object> | null,
+	): Promise<RemoteFilesMap> {
 		const remoteFiles = new Map<string, RemoteFile>();
-		const s3Objects = await this.s3Service.listRemoteFiles();
+		let s3Objects = candidates?.remoteListing ?? manifestFiles;
+		if (s3Objects) {
+			this.remoteListingSize = s3Objects.size;
+		} else if (candidates) {
+			s3Objects = await this.s3Service.listRemoteFilesAt(
+				Array.from(candidates.paths),
+			);
+			this.remoteListingSize = null;
+		} else {
+			s3Objects = await this.s3Service.listRemoteFiles();
+			this.remoteListingSize = s3Objects.size;
+		}
 
 		for (const [path, s3Object] of s3Objects.entries()) {
-			// Apply exclusion rule: ignore files/folders starting with a dot
+			// Apply exclusion rules: dot files and the ignore file's rules
 			if (
+				(!candidates || candidates.paths.has(path)) &&
 				!this.shouldIgnoreFile(path) &&
 				s3Object.LastModified &&
 				s3Object.Key
 			) {
-				remoteFiles.set(path, {
+				const remoteFile: RemoteFile = {
 					path: path,
 					mtime: s3Object.LastModified.getTime(),
 					key: s3Object.Key,
-				});
+					size: s3Object.Size,
+					etag: s3Object.ETag,
+				};
+				const reason = this.getScopeFilterReason(remoteFile);
+				if (reason) {
+					this.outOfScopeRemote.set(path, { file: remoteFile, reason });
+				} else {
+					remoteFiles.set(path, remoteFile);
+				}
 			}
 		}
 		if (this.plugin.settings.enableDebugLogging) {
@@ -205,7 +591,7 @@ export class SyncManager {
 		const syncState = await this.stateManager.loadState();
 
 		for (const [filePath, fileState] of Object.entries(syncState)) {
-			// Apply exclusion rule: ignore files/folders starting with a dot
+			// Apply exclusion rules: dot files and the ignore file's rules
 			if (!this.shouldIgnoreFile(filePath)) {
 				// Handle both old format (string) and new format (SyncFileState)
 				if (typeof fileState === "string") {
@@ -224,343 +610,2316 @@ export class SyncManager {
 	}
 
 	/**
-	 * Checks if a file should be ignored based on exclusion rules
+	 * Computes content hashes where mtimes alone cannot tell whether a file
+	 * changed: local files touched without a size change, and files that
+	 * changed on both sides (or exist on both sides without state) with the
+	 * same size. The decision engine compares the hashes. Remote files
+	 * without a stored hash are compared by MD5 if their ETag is one.
 	 */
-	private shouldIgnoreFile(filePath: string): boolean {
-		// Ignore files/folders beginning with a dot
-		return filePath.split("/").some((part) => part.startsWith("."));
+	private async computeContentHashes(
+		localFiles: LocalFilesMap,
+		remoteFiles: RemoteFilesMap,
+		stateFiles: StateFilesMap,
+	): Promise<void> {
+		const comparisons: {
+			localFile: LocalFile;
+			remoteFile?: RemoteFile;
+			compareWithState: boolean;
+			compareWithRemote: boolean;
+		}[] = [];
+		for (const [filePath, localFile] of localFiles.entries()) {
+			const remoteFile = remoteFiles.get(filePath);
+			const syncState = stateFiles.get(filePath);
+
+			const localTouched =
+				!syncState?.localMtime || localFile.mtime > syncState.localMtime;
+			const remoteTouched =
+				!!remoteFile &&
+				(!syncState?.remoteMtime ||
+					remoteFile.mtime > syncState.remoteMtime);
+
+			const compareWithState =
+				!!syncState?.localMtime &&
+				localTouched &&
+				!!syncState.hash &&
+				localFile.size === syncState.size;
+			const compareWithRemote =
+				!!remoteFile &&
+				localTouched &&
+				remoteTouched &&
+				localFile.size === remoteFile.size;
+
+			if (compareWithState || compareWithRemote) {
+				comparisons.push({ localFile, remoteFile, compareWithState, compareWithRemote });
+			}
+		}
+
+		// On a first sync, every file on both sides is compared, so the
+		// remote files are looked up several at a time
+		await runWithConcurrency(
+			comparisons,
+			this.plugin.settings.downloadConcurrency,
+			async ({ localFile, remoteFile, compareWithState, compareWithRemote }) => {
+				let remoteMd5: string | undefined;
+				if (remoteFile && compareWithRemote) {
+					// The listing does not include object metadata
+					const metadata = await this.s3Service.headFile(localFile.path);
+					remoteFile.hash = metadata.hash;
+					remoteMd5 = metadata.hash ? undefined : metadata.md5;
+				}
+				if (!compareWithState && !remoteFile?.hash && !remoteMd5) {
+					return;
+				}
+				const content = (await this.readLocalFile(localFile.path))?.content;
+				if (!content) {
+					return;
+				}
+				localFile.hash = await computeContentHash(content);
+				if (remoteFile && remoteMd5 && computeMd5(content) === remoteMd5) {
+					// Uploaded by another tool without a stored hash, but
+					// with the same content
+					remoteFile.hash = localFile.hash;
+				}
+			},
+		);
+		await this.computeRenameHashes(localFiles, remoteFiles, stateFiles);
 	}
 
 	/**
-	 * Executes sync decisions in safe order: downloads → uploads → deletes
+	 * Computes the hashes the decision engine needs to detect renames: of new
+	 * files with the same size as a synced file that disappeared on the same
+	 * side. Remote files matching by ETag need no hash.
 	 */
-	private async executeSyncDecisions(
-		decisions: FileSyncDecision[],
-		syncNotice: Notice,
+	private async computeRenameHashes(
+		localFiles: LocalFilesMap,
+		remoteFiles: RemoteFilesMap,
 		stateFiles: StateFilesMap,
 	): Promise<void> {
-		const downloads = decisions.filter(
-			(d) => d.action === SyncAction.DOWNLOAD,
-		);
-		const uploads = decisions.filter((d) => d.action === SyncAction.UPLOAD);
-		const deletes = decisions.filter(
-			(d) =>
-				d.action === SyncAction.DELETE_LOCAL ||
-				d.action === SyncAction.DELETE_REMOTE,
-		);
-		const conflicts = decisions.filter(
-			(d) => d.action === SyncAction.CONFLICT,
-		);
+		const missingLocally: SyncFileState[] = [];
+		const missingRemotely: SyncFileState[] = [];
+		for (const [filePath, syncState] of stateFiles.entries()) {
+			if (!syncState.hash) continue;
+			if (syncState.localMtime && !localFiles.has(filePath)) {
+				missingLocally.push(syncState);
+			}
+			if (syncState.remoteMtime && !remoteFiles.has(filePath)) {
+				missingRemotely.push(syncState);
+			}
+		}
 
-		// Execute downloads first
-		for (const decision of downloads) {
-			syncNotice.setMessage(`S3 Sync: Downloading ${decision.filePath}`);
-			await this.executeDownload(decision, stateFiles);
+		if (missingLocally.length > 0) {
+			for (const [filePath, localFile] of localFiles.entries()) {
+				if (
+					!localFile.hash &&
+					!stateFiles.has(filePath) &&
+					!remoteFiles.has(filePath) &&
+					missingLocally.some((state) => state.size === localFile.size)
+				) {
+					localFile.hash = await this.computeLocalHash(filePath);
+				}
+			}
 		}
+		if (missingRemotely.length > 0) {
+			for (const [filePath, remoteFile] of remoteFiles.entries()) {
+				const candidates = missingRemotely.filter(
+					(state) => state.size === remoteFile.size,
+				);
+				if (
+					!remoteFile.hash &&
+					!stateFiles.has(filePath) &&
+					!localFiles.has(filePath) &&
+					candidates.length > 0 &&
+					!candidates.some(
+						(state) => remoteFile.etag && state.remoteEtag === remoteFile.etag,
+					)
+				) {
+					remoteFile.hash = (await this.s3Service.headFile(filePath)).hash;
+				}
+			}
+		}
+	}
 
-		// Execute uploads second
-		for (const decision of uploads) {
-			syncNotice.setMessage(`S3 Sync: Uploading ${decision.filePath}`);
-			await this.executeUpload(decision, stateFiles);
+	/**
+	 * Reads a local file and returns the SHA-256 of its content
+	 */
+	private async computeLocalHash(filePath: string): Promise<string | undefined> {
+		const localFile = await this.readLocalFile(filePath);
+		return localFile ? computeContentHash(localFile.content) : undefined;
+	}
+
+	/**
+	 * Checks a vault file against the size, extension and age filters. The
+	 * ignore file and the configuration folder are always in scope.
+	 */
+	private getScopeFilterReason(
+		file: LocalFile | RemoteFile,
+	): ScopeFilterReason | null {
+		if (this.isHiddenFile(file.path)) {
+			return null;
 		}
+		return getScopeFilterReason(
+			file.path,
+			file.size,
+			file.mtime,
+			this.plugin.settings,
+			Date.now(),
+		);
+	}
 
-		// Execute deletes last
-		for (const decision of deletes) {
-			syncNotice.setMessage(`S3 Sync: Deleting ${decision.filePath}`);
-			await this.executeDelete(decision, stateFiles);
+	/**
+	 * Leaves files that are out of scope on either side, and private and
+	 * unindexed notes, out of the sync. A file that is only too old on one
+	 * side stays in scope if it changed recently on the other. These files
+	 * keep their sync state, but
+	 * the returned state map for the decision engine leaves them out, so
+	 * they are never treated as deleted.
+	 * @returns The state map without the out-of-scope files
+	 */
+	private applyScopeFilters(
+		localFiles: LocalFilesMap,
+		remoteFiles: RemoteFilesMap,
+		stateFiles: StateFilesMap,
+	): StateFilesMap {
+		for (const [path, local] of this.outOfScopeLocal.entries()) {
+			if (local.reason === "age" && remoteFiles.has(path)) {
+				localFiles.set(path, local.file);
+				this.outOfScopeLocal.delete(path);
+			}
+		}
+		for (const [path, remote] of this.outOfScopeRemote.entries()) {
+			if (remote.reason === "age" && localFiles.has(path)) {
+				remoteFiles.set(path, remote.file);
+				this.outOfScopeRemote.delete(path);
+			}
 		}
 
-		// Handle conflicts
-		for (const decision of conflicts) {
-			syncNotice.setMessage(
-				`S3 Sync: Resolving conflict for ${decision.filePath}`,
-			);
-			await this.handleConflict(decision, stateFiles);
+		const scopedStateFiles = new Map(stateFiles);
+		const outOfScope = new Set([
+			...this.outOfScopeLocal.keys(),
+			...this.outOfScopeRemote.keys(),
+			...this.privateNotes,
+			...this.unindexedNotes,
+		]);
+		for (const path of outOfScope) {
+			localFiles.delete(path);
+			remoteFiles.delete(path);
+			scopedStateFiles.delete(path);
 		}
+		return scopedStateFiles;
 	}
 
 	/**
-	 * Executes a download action and updates state map immediately
+	 * Summarizes the files the scope filters left out of the sync
+	 * @returns The summary with a leading space, or an empty string
 	 */
-	private async executeDownload(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
-		// Get the remote file info from cache
-		const remoteFiles = await this.getRemoteFilesMap();
-		const remoteFile = remoteFiles.get(decision.filePath);
-
-		if (!remoteFile) {
-			throw new Error(`Remote file not found: ${decision.filePath}`);
+	private describeSkippedFiles(): string {
+		const reasons = new Map<string, ScopeFilterReason>();
+		this.outOfScopeRemote.forEach((f, path) => reasons.set(path, f.reason));
+		this.outOfScopeLocal.forEach((f, path) => reasons.set(path, f.reason));
+		if (reasons.size === 0) {
+			return "";
+		}
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log("Skipped files out of scope:", Object.fromEntries(reasons));
 		}
 
-		// Create an S3Object for compatibility with existing S3Service
-		const s3Object: S3Object = {
-			Key: remoteFile.key,
-			LastModified: new Date(remoteFile.mtime),
+		const labels: Record<ScopeFilterReason, string> = {
+			size: "too large",
+			extension: "by extension",
+			age: "not recent",
 		};
+		const counts = (Object.keys(labels) as ScopeFilterReason[])
+			.map((reason) => ({
+				reason,
+				count: Array.from(reasons.values()).filter((r) => r === reason)
+					.length,
+			}))
+			.filter(({ count }) => count > 0)
+			.map(({ reason, count }) => `${count} ${labels[reason]}`);
+		return ` Skipped ${reasons.size} files out of scope (${counts.join(", ")}).`;
+	}
 
-		const content = await this.s3Service.downloadFile(s3Object);
+	/**
+	 * Checks if a note must stay on this device (frontmatter `kisss3: false`
+	 * or the private tag). Notes not in the metadata cache yet are reported
+	 * as unindexed and are not synced until they are indexed.
+	 */
+	private getNotePrivacy(file: TFile): "private" | "unindexed" | null {
+		if (file.extension !== "md") {
+			return null;
+		}
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return "unindexed";
+		}
+		return isPrivateNote(cache, this.plugin.settings.privateNoteTag)
+			? "private"
+			: null;
+	}
 
-		// Ensure parent folder exists
-		await this.ensureFolderExists(decision.filePath);
+	/**
+	 * Leaves private and unindexed notes out of the remote map, so they are
+	 * neither downloaded nor deleted on either side (applyScopeFilters leaves
+	 * them out of this sync's state). The user is asked once whether to
+	 * delete the remote copies of private notes that were synced before.
+	 */
+	private async excludePrivateNotes(
+		remoteFiles: RemoteFilesMap,
+		stateFiles: StateFilesMap,
+	): Promise<void> {
+		const syncedPrivateNotes = Array.from(this.privateNotes).filter(
+			(path) =>
+				remoteFiles.has(path) &&
+				stateFiles.has(path) &&
+				!stateFiles.get(path)?.remoteCopyKept,
+		);
+		for (const path of [...this.privateNotes, ...this.unindexedNotes]) {
+			remoteFiles.delete(path);
+		}
+		if (syncedPrivateNotes.length === 0) {
+			return;
+		}
 
-		// Check if local file exists
-		const localFile = this.app.vault.getAbstractFileByPath(
-			decision.filePath,
+		const deleteRemote = await PrivateNotesModal.confirm(
+			this.app,
+			syncedPrivateNotes,
 		);
+		for (const path of syncedPrivateNotes) {
+			if (deleteRemote) {
+				// Without state, the note is uploaded if it becomes public again
+				await this.s3Service.deleteRemoteFile(path);
+				stateFiles.delete(path);
+			} else {
+				stateFiles.set(path, {
+					...stateFiles.get(path),
+					remoteCopyKept: true,
+				});
+			}
+		}
+	}
 
-		if (localFile && !(localFile instanceof TFolder)) {
-			// File exists, modify it
-			await this.app.vault.modifyBinary(localFile as TFile, content, {
-				mtime: remoteFile.mtime,
-			});
-		} else {
-			// File doesn't exist, create it
-			await this.app.vault.createBinary(decision.filePath, content, {
-				mtime: remoteFile.mtime,
-			});
+	/**
+	 * Lists the hidden files that may be synced: the ignore file and, with
+	 * configuration sync enabled, all files in the configuration folder
+	 */
+	private async listHiddenFiles(): Promise<string[]> {
+		const files = [IGNORE_FILE];
+		const adapter = this.app.vault.adapter;
+		const configDir = this.app.vault.configDir;
+		if (
+			!this.plugin.settings.enableConfigSync ||
+			!(await adapter.exists(configDir))
+		) {
+			return files;
 		}
 
-		// Update state map immediately after successful download
-		// Get the actual local file mtime after download
-		const downloadedLocalFile = this.app.vault.getAbstractFileByPath(decision.filePath) as TFile;
-		if (!downloadedLocalFile) {
-			throw new Error(`Downloaded file not found after creation: ${decision.filePath}`);
+		const folders = [configDir];
+		for (let folder = folders.pop(); folder; folder = folders.pop()) {
+			const listing = await adapter.list(folder);
+			files.push(...listing.files);
+			folders.push(...listing.folders);
 		}
-		
-		stateFiles.set(decision.filePath, {
-			localMtime: downloadedLocalFile.stat.mtime,  // Use actual local file mtime
-			remoteMtime: remoteFile.mtime,
-		});
+		return files;
 	}
 
 	/**
-	 * Executes an upload action and updates state map immediately
+	 * Loads the ignore rules from the newer of the local and the remote
+	 * ignore file, so rules changed on another device apply before the
+	 * ignore file itself is synced
 	 */
-	private async executeUpload(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
-		const localFile = this.app.vault.getAbstractFileByPath(
-			decision.filePath,
-		);
+	private async loadIgnoreRules(): Promise<void> {
+		const localStat = await this.app.vault.adapter.stat(IGNORE_FILE);
+		let remoteMtime: number | undefined;
+		try {
+			remoteMtime = (await this.s3Service.headFile(IGNORE_FILE)).mtime;
+		} catch (error) {
+			remoteMtime = undefined; // No remote ignore file
+		}
 
-		if (!localFile || localFile instanceof TFolder) {
-			throw new Error(`Local file not found: ${decision.filePath}`);
+		let content = "";
+		if (remoteMtime !== undefined && remoteMtime > (localStat?.mtime ?? 0)) {
+			content = new TextDecoder().decode(
+				await this.s3Service.downloadFileAtPath(IGNORE_FILE),
+			);
+		} else if (localStat?.type === "file") {
+			content = await this.app.vault.adapter.read(IGNORE_FILE);
 		}
+		this.ignoreRules = new IgnoreRules(content);
+	}
 
-		const content = await this.app.vault.readBinary(localFile as TFile);
-		const actualRemoteMtime = await this.s3Service.uploadFile(localFile as TFile, content);
+	/**
+	 * Checks if a file should be ignored based on exclusion rules: files and
+	 * folders beginning with a dot, except the ignore file and synced
+	 * configuration files, and the rules of the ignore file. Ignored files are left out of all three maps, so they
+	 * are never treated as deleted.
+	 */
+	private shouldIgnoreFile(filePath: string): boolean {
+		if (filePath === IGNORE_FILE) {
+			return false;
+		}
+		if (this.isHiddenFile(filePath) && !this.isSyncedConfigFile(filePath)) {
+			return true;
+		}
+		return this.ignoreRules.isIgnored(filePath);
+	}
 
-		// Update state map immediately after successful upload with actual S3 timestamps
-		const localMtime = (localFile as TFile).stat.mtime;
-		stateFiles.set(decision.filePath, {
-			localMtime: localMtime,
-			remoteMtime: actualRemoteMtime,  // Use actual S3 LastModified timestamp
-		});
+	/**
+	 * Checks if a file is in the configuration folder and synced with the
+	 * configuration sync settings. This plugin's data.json is never synced.
+	 */
+	private isSyncedConfigFile(filePath: string): boolean {
+		return isSyncedConfigFile(
+			filePath,
+			this.app.vault.configDir,
+			getPluginDir(this.app, this.plugin),
+			this.plugin.settings,
+		);
 	}
 
 	/**
-	 * Executes a delete action and updates state map immediately
+	 * Checks if a path is hidden from the vault index (a file or folder
+	 * beginning with a dot). Synced hidden files are accessed through the
+	 * adapter.
 	 */
-	private async executeDelete(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
-		if (decision.action === SyncAction.DELETE_LOCAL) {
-			const localFile = this.app.vault.getAbstractFileByPath(
-				decision.filePath,
-			);
-			if (localFile && !(localFile instanceof TFolder)) {
-				await this.app.vault.delete(localFile);
+	private isHiddenFile(filePath: string): boolean {
+		return filePath.split("/").some((part) => part.startsWith("."));
+	}
+
+	/**
+	 * Reads a local file
+	 * @returns The content and actual local mtime, or null if the file does not exist
+	 */
+	private async readLocalFile(
+		filePath: string,
+	): Promise<{ content: ArrayBuffer; mtime: number } | null> {
+		if (this.isHiddenFile(filePath)) {
+			const adapter = this.app.vault.adapter;
+			const stat = await adapter.stat(filePath);
+			if (stat?.type !== "file") {
+				return null;
 			}
-			// Update state map: file deleted locally, clear localMtime
-			const currentState = stateFiles.get(decision.filePath) || {};
-			stateFiles.set(decision.filePath, {
-				localMtime: undefined,
-				remoteMtime: currentState.remoteMtime,
-			});
-		} else if (decision.action === SyncAction.DELETE_REMOTE) {
-			await this.s3Service.deleteRemoteFile(decision.filePath);
-			// Update state map: file deleted remotely, clear remoteMtime
-			const currentState = stateFiles.get(decision.filePath) || {};
-			stateFiles.set(decision.filePath, {
-				localMtime: currentState.localMtime,
-				remoteMtime: undefined,
-			});
+			return { content: await adapter.readBinary(filePath), mtime: stat.mtime };
 		}
 
-		// If both local and remote are now undefined, remove the entry completely
-		const updatedState = stateFiles.get(decision.filePath);
-		if (updatedState && !updatedState.localMtime && !updatedState.remoteMtime) {
-			stateFiles.delete(decision.filePath);
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			return null;
 		}
+		return {
+			content: await this.app.vault.readBinary(file),
+			mtime: file.stat.mtime,
+		};
 	}
 
 	/**
-	 * Handles conflict resolution and updates state map immediately
+	 * Executes sync decisions in safe order: downloads → uploads → deletes
+	 * @returns The conflicts that were left unresolved
+	 */
+	private async executeSyncDecisions(
+		decisions: FileSyncDecision[],
+		syncNotice: Notice,
+		stateFiles: StateFilesMap,
+	): Promise<FileSyncDecision[]> {
+		const downloads = decisions.filter(
+			(d) => d.action === SyncAction.DOWNLOAD,
+		);
+		const uploads = decisions.filter((d) => d.action === SyncAction.UPLOAD);
+		const deletes = decisions.filter(
+			(d) =>
+				d.action === SyncAction.DELETE_LOCAL ||
+				d.action === SyncAction.DELETE_REMOTE,
+		);
+		const conflicts = decisions.filter(
+			(d) => d.action === SyncAction.CONFLICT,
+		);
+		const stateUpdates = decisions.filter(
+			(d) => d.action === SyncAction.UPDATE_STATE,
+		);
+		const renames = decisions.filter((d) => d.action === SyncAction.RENAME);
+
+		// Guard against mass deletions before anything is changed
+		await this.checkDeletions(deletes, syncNotice, stateFiles);
+
+		// Record identical files first, nothing is transferred for them
+		for (const decision of stateUpdates) {
+			await this.executeStateUpdate(decision, stateFiles);
+		}
+
+		// Renames only move files, the content is already on both sides
+		for (const decision of renames) {
+			syncNotice.setMessage(
+				`S3 Sync: Renaming ${decision.previousPath} to ${decision.filePath}`,
+			);
+			await this.executeRename(decision, stateFiles);
+		}
+
+		// Execute downloads first, several at a time. Every transfer only
+		// updates the state entry of its own file.
+		await runWithConcurrency(
+			downloads,
+			this.plugin.settings.downloadConcurrency,
+			async (decision, index) => {
+				const message = `S3 Sync: Downloading ${decision.filePath} (${index + 1}/${downloads.length})`;
+				syncNotice.setMessage(message);
+				await this.executeDownload(decision, stateFiles, (received, total) =>
+					syncNotice.setMessage(
+						`${message}, ${Math.floor((received / total) * 100)}%`,
+					),
+				);
+			},
+		);
+
+		// Execute uploads second, once all downloads have finished
+		await runWithConcurrency(
+			uploads,
+			this.plugin.settings.uploadConcurrency,
+			async (decision, index) => {
+				syncNotice.setMessage(
+					`S3 Sync: Uploading ${decision.filePath} (${index + 1}/${uploads.length})`,
+				);
+				await this.executeUpload(decision, stateFiles);
+			},
+		);
+
+		// Execute deletes last
+		const deletedFiles: DeletedFileRecord[] = [];
+		for (const decision of deletes) {
+			syncNotice.setMessage(`S3 Sync: Deleting ${decision.filePath}`);
+			await this.executeDelete(decision, stateFiles, deletedFiles);
+		}
+		// A sync that deletes nothing keeps the record of the last deletions
+		if (deletedFiles.length > 0) {
+			await this.localTrash.saveDeletions(deletedFiles);
+		}
+
+		// Handle conflicts
+		const unresolved: FileSyncDecision[] = [];
+		for (const decision of conflicts) {
+			syncNotice.setMessage(
+				`S3 Sync: Resolving conflict for ${decision.filePath}`,
+			);
+			if (!(await this.handleConflict(decision, stateFiles))) {
+				unresolved.push(decision);
+			}
+		}
+		return unresolved;
+	}
+
+	/**
+	 * Stops the sync if the remote listing is unexpectedly empty, and asks for
+	 * confirmation if more files would be deleted than the configured threshold
+	 */
+	private async checkDeletions(
+		deletes: FileSyncDecision[],
+		syncNotice: Notice,
+		stateFiles: StateFilesMap,
+	): Promise<void> {
+		const deletesLocal = deletes.some(
+			(d) => d.action === SyncAction.DELETE_LOCAL,
+		);
+		// The listing size is only known if the bucket was listed
+		if (this.remoteListingSize === 0 && stateFiles.size > 0 && deletesLocal) {
+			throw new SyncAbortedError(
+				`Remote is empty but ${stateFiles.size} files were synced before. Sync stopped, check the bucket and prefix settings.`,
+			);
+		}
+
+		if (!(await this.confirmDeletions(deletes, stateFiles.size, syncNotice))) {
+			throw new SyncAbortedError(
+				`Sync stopped, ${deletes.length} deletions were not confirmed.`,
+			);
+		}
+	}
+
+	/**
+	 * Asks for confirmation if more files would be deleted than the
+	 * configured threshold
+	 * @returns False if the user declined the deletions
+	 */
+	private async confirmDeletions(
+		deletes: FileSyncDecision[],
+		syncedFileCount: number,
+		syncNotice?: Notice,
+	): Promise<boolean> {
+		const { deleteThreshold, deleteThresholdUnit } = this.plugin.settings;
+		if (deleteThreshold <= 0 || deletes.length === 0) {
+			return true;
+		}
+		const exceeded =
+			deleteThresholdUnit === "percent"
+				? (deletes.length / Math.max(syncedFileCount, 1)) * 100 >
+					deleteThreshold
+				: deletes.length > deleteThreshold;
+		if (!exceeded) {
+			return true;
+		}
+
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(
+				`S3 Sync: ${deletes.length} deletions exceed threshold ${deleteThreshold} (${deleteThresholdUnit})`,
+			);
+		}
+		syncNotice?.setMessage("S3 Sync: Waiting for confirmation...");
+		return MassDeleteModal.confirm(this.app, deletes, syncedFileCount);
+	}
+
+	/**
+	 * Executes a download action and updates state map immediately
 	 */
-	private async handleConflict(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
-		// For now, use the same strategy as before: keep local version, save remote as conflict file
-		const localFile = this.app.vault.getAbstractFileByPath(
+	private async executeDownload(
+		decision: FileSyncDecision,
+		stateFiles: StateFilesMap,
+		onProgress?: (received: number, total: number) => void,
+	): Promise<void> {
+		if (decision.versionId) {
+			// An older version differs from the current remote file, so it is
+			// not recorded as synced and the next sync uploads it
+			const versionContent = await this.s3Service.downloadFileVersion(
+				decision.filePath,
+				decision.versionId,
+			);
+			await this.writeLocalFile(
+				decision.filePath,
+				versionContent,
+				Date.now(),
+			);
+			return;
+		}
+
+		// Get the remote file info from cache
+		const remoteFiles = await this.getRemoteFilesMap();
+		const remoteFile = remoteFiles.get(decision.filePath);
+
+		if (!remoteFile) {
+			throw new Error(`Remote file not found: ${decision.filePath}`);
+		}
+
+		// Create an S3Object for compatibility with existing S3Service
+		const s3Object: S3Object = {
+			Key: remoteFile.key,
+			LastModified: new Date(remoteFile.mtime),
+			Size: remoteFile.size,
+		};
+
+		// Large files are joined on disk. Text files are read into memory
+		// anyway to keep their merge base.
+		if (
+			!this.isHiddenFile(decision.filePath) &&
+			!this.baseStore.isTextFile(decision.filePath)
+		) {
+			await this.ensureFolderExists(decision.filePath);
+			const downloaded = await this.s3Service.downloadFileTo(
+				s3Object,
+				decision.filePath,
+				remoteFile.mtime,
+				onProgress,
+			);
+			if (downloaded) {
+				const stat = await this.app.vault.adapter.stat(decision.filePath);
+				stateFiles.set(decision.filePath, {
+					localMtime: stat?.mtime ?? remoteFile.mtime,
+					remoteMtime: remoteFile.mtime,
+					size: downloaded.size,
+					hash: downloaded.hash,
+					remoteEtag: remoteFile.etag,
+				});
+				return;
+			}
+		}
+
+		const content = await this.s3Service.downloadFile(s3Object, onProgress);
+		const downloadedLocalFile = await this.writeLocalFile(
 			decision.filePath,
-		) as TFile;
+			content,
+			remoteFile.mtime,
+		);
+
+		// Update state map immediately after successful download
+		await this.setSyncedState(decision.filePath, stateFiles, {
+			localMtime: downloadedLocalFile.mtime,  // Use actual local file mtime
+			remoteMtime: remoteFile.mtime,
+			size: content.byteLength,
+			hash: await computeContentHash(content),
+			remoteEtag: remoteFile.etag,
+		}, content);
+	}
+
+	/**
+	 * Writes content to a local file, creating it and its parent folders if
+	 * needed, and returns the file with its actual local mtime
+	 */
+	private async writeLocalFile(
+		filePath: string,
+		content: ArrayBuffer,
+		mtime: number,
+	): Promise<LocalFile> {
+		if (this.isHiddenFile(filePath)) {
+			const adapter = this.app.vault.adapter;
+			const folderPath = filePath.substring(0, filePath.lastIndexOf("/"));
+			if (folderPath && !(await adapter.exists(folderPath))) {
+				try {
+					await adapter.mkdir(folderPath);
+				} catch (e) {
+					// Folder likely created by a parallel download
+					if (!(await adapter.exists(folderPath))) throw e;
+				}
+			}
+			await adapter.writeBinary(filePath, content, { mtime });
+			const stat = await adapter.stat(filePath);
+			return {
+				path: filePath,
+				mtime: stat?.mtime ?? mtime,
+				size: content.byteLength,
+			};
+		}
+
+		// Ensure parent folder exists
+		await this.ensureFolderExists(filePath);
+
+		// Check if local file exists
+		const localFile = this.app.vault.getAbstractFileByPath(filePath);
+
+		if (localFile && !(localFile instanceof TFolder)) {
+			// File exists, modify it
+			await this.app.vault.modifyBinary(localFile as TFile, content, {
+				mtime,
+			});
+		} else {
+			// File doesn't exist, create it
+			await this.app.vault.createBinary(filePath, content, { mtime });
+		}
+
+		const writtenFile = this.app.vault.getAbstractFileByPath(filePath) as TFile;
+		if (!writtenFile) {
+			throw new Error(`Downloaded file not found after creation: ${filePath}`);
+		}
+		return {
+			path: filePath,
+			mtime: writtenFile.stat.mtime,
+			size: writtenFile.stat.size,
+		};
+	}
+
+	/**
+	 * Executes an upload action and updates state map immediately
+	 */
+	private async executeUpload(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
+		const localFile = await this.readLocalFile(decision.filePath);
+
+		if (!localFile) {
+			throw new Error(`Local file not found: ${decision.filePath}`);
+		}
+
+		const { content } = localFile;
+		const metadata = await this.s3Service.putFile(decision.filePath, content);
+
+		// Update state map immediately after successful upload with actual S3 timestamps
+		await this.setSyncedState(decision.filePath, stateFiles, {
+			localMtime: localFile.mtime,
+			remoteMtime: metadata.mtime,  // Use actual S3 LastModified timestamp
+			size: content.byteLength,
+			hash: metadata.hash,
+			remoteEtag: metadata.etag,
+		}, content);
+	}
+
+	/**
+	 * Executes a rename: a file moved on this device is moved remotely with a
+	 * server-side copy, a file moved remotely is renamed locally so that
+	 * links to it are updated. The state entry moves along with the file.
+	 */
+	private async executeRename(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
+		const previousPath = decision.previousPath;
+		if (!previousPath) {
+			return;
+		}
+		const previousState = stateFiles.get(previousPath) || {};
+
+		if (decision.localStatus === FileStatus.CREATED) {
+			const localFile = (await this.getLocalFilesMap()).get(decision.filePath);
+			if (!localFile) {
+				throw new Error(`Local file not found: ${decision.filePath}`);
+			}
+			const metadata = await this.s3Service.renameRemoteFile(
+				previousPath,
+				decision.filePath,
+			);
+			stateFiles.set(decision.filePath, {
+				...previousState,
+				localMtime: localFile.mtime,
+				remoteMtime: metadata.mtime,
+				remoteEtag: metadata.etag,
+			});
+		} else {
+			const remoteFile = (await this.getRemoteFilesMap()).get(decision.filePath);
+			if (!remoteFile) {
+				throw new Error(`Remote file not found: ${decision.filePath}`);
+			}
+			const localFile = await this.renameLocalFile(
+				previousPath,
+				decision.filePath,
+			);
+			stateFiles.set(decision.filePath, {
+				...previousState,
+				localMtime: localFile.mtime,
+				remoteMtime: remoteFile.mtime,
+				remoteEtag: remoteFile.etag,
+			});
+		}
+
+		stateFiles.delete(previousPath);
+		await this.baseStore.rename(previousPath, decision.filePath);
+	}
+
+	/**
+	 * Renames a local file, creating the new parent folders if needed, and
+	 * returns the file with its local mtime
+	 */
+	private async renameLocalFile(
+		oldPath: string,
+		newPath: string,
+	): Promise<LocalFile> {
+		const file = this.app.vault.getAbstractFileByPath(oldPath);
+		if (file instanceof TFile) {
+			await this.ensureFolderExists(newPath);
+			await this.app.fileManager.renameFile(file, newPath);
+			return { path: newPath, mtime: file.stat.mtime, size: file.stat.size };
+		}
+
+		const adapter = this.app.vault.adapter;
+		const folderPath = newPath.substring(0, newPath.lastIndexOf("/"));
+		if (folderPath && !(await adapter.exists(folderPath))) {
+			await adapter.mkdir(folderPath);
+		}
+		await adapter.rename(oldPath, newPath);
+		const stat = await adapter.stat(newPath);
+		if (!stat) {
+			throw new Error(`Renamed file not found: ${newPath}`);
+		}
+		return { path: newPath, mtime: stat.mtime, size: stat.size };
+	}
+
+	/**
+	 * Records the current mtimes of a file whose content is identical on both
+	 * sides, without transferring it
+	 */
+	private async executeStateUpdate(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<void> {
+		const localFile = (await this.getLocalFilesMap()).get(decision.filePath);
+		const remoteFile = (await this.getRemoteFilesMap()).get(decision.filePath);
+
+		if (!localFile || !remoteFile) {
+			return;
+		}
+
+		const currentState = stateFiles.get(decision.filePath) || {};
+		stateFiles.set(decision.filePath, {
+			localMtime: localFile.mtime,
+			remoteMtime: remoteFile.mtime,
+			size: localFile.size ?? currentState.size,
+			hash: localFile.hash ?? currentState.hash,
+			remoteEtag: remoteFile.etag ?? currentState.remoteEtag,
+		});
+	}
+
+	/**
+	 * Executes a delete action and updates state map immediately
+	 */
+	private async executeDelete(
+		decision: FileSyncDecision,
+		stateFiles: StateFilesMap,
+		deletedFiles: DeletedFileRecord[],
+	): Promise<void> {
+		if (decision.action === SyncAction.DELETE_LOCAL) {
+			const localFile = this.app.vault.getAbstractFileByPath(
+				decision.filePath,
+			);
+			if (localFile instanceof TFile) {
+				deletedFiles.push(
+					await this.localTrash.deleteFile(
+						localFile,
+						stateFiles.get(decision.filePath)?.hash,
+					),
+				);
+			} else if (this.isHiddenFile(decision.filePath)) {
+				deletedFiles.push(
+					await this.localTrash.deleteHiddenFile(
+						decision.filePath,
+						stateFiles.get(decision.filePath)?.hash,
+					),
+				);
+			}
+			// Update state map: file deleted locally, clear localMtime
+			const currentState = stateFiles.get(decision.filePath) || {};
+			stateFiles.set(decision.filePath, {
+				...currentState,
+				localMtime: undefined,
+			});
+		} else if (decision.action === SyncAction.DELETE_REMOTE) {
+			await this.s3Service.deleteRemoteFile(decision.filePath);
+			// Update state map: file deleted remotely, clear remoteMtime
+			const currentState = stateFiles.get(decision.filePath) || {};
+			stateFiles.set(decision.filePath, {
+				...currentState,
+				remoteMtime: undefined,
+			});
+		}
+
+		// If both local and remote are now undefined, remove the entry completely
+		const updatedState = stateFiles.get(decision.filePath);
+		if (updatedState && !updatedState.localMtime && !updatedState.remoteMtime) {
+			stateFiles.delete(decision.filePath);
+			await this.baseStore.remove(decision.filePath);
+		}
+	}
+
+	/**
+	 * Handles conflict resolution according to the conflict policy and
+	 * updates state map immediately
+	 * @returns False if the conflict was left unresolved
+	 */
+	private async handleConflict(decision: FileSyncDecision, stateFiles: StateFilesMap): Promise<boolean> {
+		const localFile = await this.readLocalFile(decision.filePath);
 		const remoteFiles = await this.getRemoteFilesMap();
 		const remoteFile = remoteFiles.get(decision.filePath);
 
-		if (!localFile || !remoteFile) {
-			console.warn(
-				`S3 Sync: Cannot resolve conflict for ${decision.filePath} - missing file`,
+		if (!localFile || !remoteFile) {
+			console.warn(
+				`S3 Sync: Cannot resolve conflict for ${decision.filePath} - missing file`,
+			);
+			return false;
+		}
+
+		// Create S3Object for compatibility
+		const s3Object: S3Object = {
+			Key: remoteFile.key,
+			LastModified: new Date(remoteFile.mtime),
+		};
+
+		const remoteContent = await this.s3Service.downloadFile(s3Object);
+		const localContent = localFile.content;
+
+		// Identical content on both sides is not a conflict
+		const remoteHash = await computeContentHash(remoteContent);
+		if (remoteHash === (await computeContentHash(localContent))) {
+			await this.setSyncedState(decision.filePath, stateFiles, {
+				localMtime: localFile.mtime,
+				remoteMtime: remoteFile.mtime,
+				size: localContent.byteLength,
+				hash: remoteHash,
+				remoteEtag: remoteFile.etag,
+			}, localContent);
+			return true;
+		}
+
+		// Merge both changes if possible
+		if (decision.mergeStrategy) {
+			const mergedContent = await this.mergeConflict(
+				decision,
+				localContent,
+				remoteContent,
+				localFile.mtime >= remoteFile.mtime,
+				stateFiles,
+			);
+			if (mergedContent) {
+				await this.applyMergedContent(
+					decision.filePath,
+					mergedContent,
+					stateFiles,
+				);
+				return true;
+			}
+		}
+
+		let policy =
+			decision.conflictPolicy ?? this.plugin.settings.conflictPolicy;
+		if (policy === "ask") {
+			const choice = await ConflictModal.ask(
+				this.app,
+				decision.filePath,
+				localFile.mtime,
+				remoteFile.mtime,
+			);
+			if (!choice) {
+				// Left unresolved, the conflict comes up again on the next sync
+				return false;
+			}
+			policy = choice;
+		}
+		if (policy === "newest-wins") {
+			policy =
+				remoteFile.mtime > localFile.mtime
+					? "keep-remote"
+					: "keep-local";
+		}
+
+		if (policy === "keep-remote") {
+			// Overwrite the local version with the remote one
+			const writtenFile = await this.writeLocalFile(
+				decision.filePath,
+				remoteContent,
+				remoteFile.mtime,
+			);
+			await this.setSyncedState(decision.filePath, stateFiles, {
+				localMtime: writtenFile.mtime,
+				remoteMtime: remoteFile.mtime,
+				size: remoteContent.byteLength,
+				hash: remoteHash,
+				remoteEtag: remoteFile.etag,
+			}, remoteContent);
+			return true;
+		}
+
+		if (policy === "keep-both") {
+			const conflictFileName = this.getConflictFileName(
+				decision.filePath,
+				new Date(remoteFile.mtime),
+			);
+
+			// Save the remote version with a new name
+			await this.writeLocalFile(
+				conflictFileName,
+				remoteContent,
+				remoteFile.mtime,
+			);
+
+			new Notice(`S3 Sync: Saved remote version as ${conflictFileName}`);
+		}
+
+		// Upload the local version to overwrite the remote
+		const metadata = await this.s3Service.putFile(
+			decision.filePath,
+			localContent,
+		);
+
+		// Update state map: local version wins, use actual S3 timestamp for remote
+		await this.setSyncedState(decision.filePath, stateFiles, {
+			localMtime: localFile.mtime,
+			remoteMtime: metadata.mtime,  // Use actual S3 LastModified timestamp
+			size: localContent.byteLength,
+			hash: metadata.hash,
+			remoteEtag: metadata.etag,
+		}, localContent);
+		return true;
+	}
+
+	/**
+	 * Merges local and remote content according to the decision's merge
+	 * strategy, using the stored base version where available
+	 * @returns The merged content, or null if the conflict policy has to be applied
+	 */
+	private async mergeConflict(
+		decision: FileSyncDecision,
+		localContent: ArrayBuffer,
+		remoteContent: ArrayBuffer,
+		localIsNewer: boolean,
+		stateFiles: StateFilesMap,
+	): Promise<ArrayBuffer | null> {
+		// A base only exists for files that were synced before
+		const syncState = stateFiles.get(decision.filePath);
+		const base = syncState
+			? await this.baseStore.load(decision.filePath, syncState.hash)
+			: null;
+
+		const decoder = new TextDecoder();
+		const local = decoder.decode(localContent);
+		const remote = decoder.decode(remoteContent);
+
+		let merged: string | null = null;
+		switch (decision.mergeStrategy) {
+			case "text":
+				merged = this.mergeText(decision.filePath, base, local, remote);
+				break;
+			case "canvas":
+				merged = mergeCanvas(base, local, remote, localIsNewer);
+				break;
+		}
+
+		if (merged === null) {
+			return null;
+		}
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(
+				`mergeConflict: ${decision.filePath} merged (${decision.mergeStrategy})`,
+			);
+		}
+		return new TextEncoder().encode(merged).buffer;
+	}
+
+	/**
+	 * Merges a Markdown note: frontmatter key by key if only the frontmatter
+	 * differs, otherwise line-based three-way merge against the base
+	 */
+	private mergeText(
+		filePath: string,
+		base: string | null,
+		local: string,
+		remote: string,
+	): string | null {
+		if (
+			this.plugin.settings.enableFrontmatterMerge &&
+			splitFrontmatter(local).body === splitFrontmatter(remote).body
+		) {
+			// Same key with different values: apply the conflict policy
+			return mergeFrontmatter(base, local, remote);
+		}
+
+		if (!this.plugin.settings.enableThreeWayMerge || base === null) {
+			return null;
+		}
+
+		const markers = this.plugin.settings.mergeConflictMarkers;
+		const result = threeWayMerge(base, local, remote, { markers });
+		if (result.conflicts > 0) {
+			if (!markers) {
+				return null;
+			}
+			new Notice(
+				`S3 Sync: Merged ${filePath} with ${result.conflicts} conflict(s), please review the conflict markers`,
+			);
+		}
+		return result.lines.join("\n");
+	}
+
+	/**
+	 * Writes merged content locally, uploads it and records it as synced
+	 */
+	private async applyMergedContent(
+		filePath: string,
+		content: ArrayBuffer,
+		stateFiles: StateFilesMap,
+	): Promise<void> {
+		const mergedFile = await this.writeLocalFile(
+			filePath,
+			content,
+			Date.now(),
+		);
+		const metadata = await this.s3Service.putFile(filePath, content);
+
+		await this.setSyncedState(filePath, stateFiles, {
+			localMtime: mergedFile.mtime,
+			remoteMtime: metadata.mtime,
+			size: content.byteLength,
+			hash: metadata.hash,
+			remoteEtag: metadata.etag,
+		}, content);
+	}
+
+	/**
+	 * Records a file as in sync and keeps its content as base for merges
+	 */
+	private async setSyncedState(
+		filePath: string,
+		stateFiles: StateFilesMap,
+		fileState: SyncFileState,
+		content: ArrayBuffer,
+	): Promise<void> {
+		stateFiles.set(filePath, fileState);
+		await this.baseStore.save(filePath, content);
+	}
+
+	/**
+	 * Ensures the parent folder exists for a file path
+	 */
+	private async ensureFolderExists(filePath: string): Promise<void> {
+		const folderPath = filePath.substring(0, filePath.lastIndexOf("/"));
+		if (folderPath) {
+			try {
+				const existingFolder =
+					this.app.vault.getAbstractFileByPath(folderPath);
+				if (!existingFolder) {
+					await this.app.vault.createFolder(folderPath);
+				}
+			} catch (e) {
+				// Folder likely created between check and call, ignore
+			}
+		}
+	}
+
+	private getConflictFileName(
+		originalPath: string,
+		conflictDate: Date,
+		label = "conflict",
+	): string {
+		const lastDotIndex = originalPath.lastIndexOf(".");
+		const extension =
+			lastDotIndex > -1 ? originalPath.substring(lastDotIndex) : "";
+		const baseName =
+			lastDotIndex > -1
+				? originalPath.substring(0, lastDotIndex)
+				: originalPath;
+		const timestamp =
+			conflictDate.getFullYear().toString() +
+			(conflictDate.getMonth() + 1).toString().padStart(2, "0") +
+			conflictDate.getDate().toString().padStart(2, "0") +
+			"-" +
+			conflictDate.getHours().toString().padStart(2, "0") +
+			conflictDate.getMinutes().toString().padStart(2, "0") +
+			conflictDate.getSeconds().toString().padStart(2, "0");
+
+		return `${baseName} (${label} ${timestamp})${extension}`;
+	}
+
+	/**
+	 * Saves the updated sync state from the cached state map (no rescanning needed)
+	 */
+	private async saveUpdatedSyncState(stateFiles: StateFilesMap): Promise<void> {
+		// Convert Map back to SyncState object for saving, filtering out obsolete entries
+		const newState: SyncState = {};
+		
+		for (const [filePath, fileState] of stateFiles.entries()) {
+			// For robustness: Remove entries where only one timestamp is defined 
+			// (incomplete state that can cause race conditions). This will result in 
+			// a download/upload on the next sync, which is safer than keeping inconsistent state.
+			const hasLocal = fileState.localMtime !== undefined;
+			const hasRemote = fileState.remoteMtime !== undefined;
+			
+			// Only include entries that have both timestamps or neither (complete states)
+			if ((hasLocal && hasRemote) || (!hasLocal && !hasRemote)) {
+				// Skip entries with neither timestamp (obsolete)
+				if (hasLocal || hasRemote) {
+					newState[filePath] = fileState;
+				}
+			}
+			// Incomplete entries (only localMtime or only remoteMtime) are filtered out
+		}
+
+		// Save the updated state
+		await this.stateManager.saveState(newState);
+
+		// Optional: Prune empty folders
+		await this.pruneEmptyFolders();
+	}
+
+	/**
+	 * Prunes empty folders after sync (optional feature)
+	 */
+	private async pruneEmptyFolders(): Promise<void> {
+		try {
+			const allFiles = this.app.vault.getAllLoadedFiles();
+			const folders = allFiles.filter(
+				(f) => f instanceof TFolder,
+			) as TFolder[];
+
+			// Sort by depth (deepest first) to prune from bottom up
+			folders.sort(
+				(a, b) => b.path.split("/").length - a.path.split("/").length,
+			);
+
+			for (const folder of folders) {
+				if (folder.children && folder.children.length === 0) {
+					// Don't delete the plugin's own folder or system folders
+					if (
+						!folder.path.startsWith(".obsidian") ||
+						folder.path === ".obsidian/plugins/kisss3"
+					) {
+						continue;
+					}
+
+					try {
+						await this.app.vault.delete(folder);
+						console.log(
+							`S3 Sync: Pruned empty folder: ${folder.path}`,
+						);
+					} catch (e) {
+						// Ignore errors when pruning folders
+					}
+				}
+			}
+		} catch (error) {
+			console.warn("S3 Sync: Error during folder pruning:", error);
+		}
+	}
+
+	/**
+	 * Restores the files deleted locally by the last sync from the vault
+	 * trash. Restored files are removed from the sync state, so the next sync
+	 * uploads them again.
+	 */
+	async restoreLastDeletions(): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return;
+		}
+		const records = await this.localTrash.loadDeletions();
+		if (records.length === 0) {
+			new Notice("S3 Sync: The last sync did not delete any files.");
+			return;
+		}
+
+		this.running = true;
+		const restored: string[] = [];
+		const missing: string[] = [];
+		try {
+			for (const record of records) {
+				if (await this.app.vault.adapter.exists(record.path)) {
+					continue; // Already back in place
+				}
+				const trashPath =
+					record.mode === "vault-trash"
+						? await this.localTrash.findInVaultTrash(record)
+						: null;
+				if (!trashPath) {
+					missing.push(record.path);
+					continue;
+				}
+				const content =
+					await this.app.vault.adapter.readBinary(trashPath);
+				await this.writeLocalFile(record.path, content, Date.now());
+				await this.app.vault.adapter.remove(trashPath);
+				restored.push(record.path);
+			}
+
+			if (restored.length > 0) {
+				const state = await this.stateManager.loadState();
+				restored.forEach((path) => delete state[path]);
+				await this.stateManager.saveState(state);
+			}
+			await this.localTrash.saveDeletions(
+				records.filter((r) => missing.includes(r.path)),
+			);
+		} catch (error) {
+			console.error("S3 Sync: Error restoring deleted files:", error);
+			new Notice(
+				"S3 Sync: Error restoring files. Check console for details.",
+			);
+			return;
+		} finally {
+			this.running = false;
+		}
+
+		if (missing.length > 0) {
+			console.warn(
+				"S3 Sync: Files not found in the vault trash:",
+				missing,
+			);
+		}
+		new Notice(
+			missing.length > 0
+				? `S3 Sync: Restored ${restored.length} files, ${missing.length} must be restored manually. Check console for details.`
+				: `S3 Sync: Restored ${restored.length} files.`,
+		);
+	}
+
+	/**
+	 * Opens a modal listing the remote trash, from which files can be restored
+	 */
+	async browseRemoteTrash(): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is already in progress.");
+			return;
+		}
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
+			);
+			return;
+		}
+		this.running = true;
+		let entries: RemoteTrashEntry[];
+		try {
+			entries = await this.s3Service.listRemoteTrash();
+		} catch (error) {
+			console.error("S3 Sync: Error listing remote trash:", error);
+			new Notice(
+				"S3 Sync: Error listing remote trash. Check console for details.",
+			);
+			return;
+		} finally {
+			this.running = false;
+		}
+		if (entries.length === 0) {
+			new Notice("S3 Sync: The remote trash is empty.");
+			return;
+		}
+		// Each restore from the modal checks for a running sync itself
+		new RemoteTrashModal(this.app, entries, (entry) =>
+			this.restoreRemoteTrashEntry(entry),
+		).open();
+	}
+
+	/**
+	 * Moves a file from the remote trash back to its path and removes it from
+	 * the sync state, so the next sync downloads it.
+	 * @returns true if the file was restored
+	 */
+	async restoreRemoteTrashEntry(entry: RemoteTrashEntry): Promise<boolean> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return false;
+		}
+		this.running = true;
+		try {
+			const remoteFiles = await this.s3Service.listRemoteFiles();
+			if (remoteFiles.has(entry.path)) {
+				new Notice(
+					`S3 Sync: ${entry.path} already exists remotely and was not restored.`,
+				);
+				return false;
+			}
+			await this.s3Service.restoreFromTrash(entry);
+
+			const state = await this.stateManager.loadState();
+			if (state[entry.path]) {
+				delete state[entry.path];
+				await this.stateManager.saveState(state);
+			}
+			new Notice(
+				`S3 Sync: Restored ${entry.path}. It is downloaded with the next sync.`,
+			);
+			return true;
+		} catch (error) {
+			console.error(`S3 Sync: Error restoring ${entry.path}:`, error);
+			new Notice(
+				"S3 Sync: Error restoring file. Check console for details.",
+			);
+			return false;
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Permanently deletes all files in the remote trash
+	 */
+	async purgeRemoteTrash(): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is already in progress.");
+			return;
+		}
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
+			);
+			return;
+		}
+		this.running = true;
+		try {
+			const entries = await this.s3Service.listRemoteTrash();
+			for (const entry of entries) {
+				await this.s3Service.deleteTrashEntry(entry);
+			}
+			new Notice(
+				`S3 Sync: Purged ${entries.length} files from the remote trash.`,
+			);
+		} catch (error) {
+			console.error("S3 Sync: Error purging remote trash:", error);
+			new Notice(
+				"S3 Sync: Error purging remote trash. Check console for details.",
+			);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Deletes trashed files older than the retention period. Failures are
+	 * logged and don't fail the sync.
+	 */
+	private async purgeExpiredRemoteTrash(): Promise<void> {
+		const { enableRemoteTrash, remoteTrashRetentionDays } =
+			this.plugin.settings;
+		if (!enableRemoteTrash || remoteTrashRetentionDays <= 0) {
+			return;
+		}
+		try {
+			const cutoff =
+				Date.now() - remoteTrashRetentionDays * 24 * 60 * 60 * 1000;
+			const entries = await this.s3Service.listRemoteTrash();
+			for (const entry of entries.filter((e) => e.deletedAt < cutoff)) {
+				await this.s3Service.deleteTrashEntry(entry);
+				if (this.plugin.settings.enableDebugLogging) {
+					console.log(`S3 Sync: Purged ${entry.key} from remote trash`);
+				}
+			}
+		} catch (error) {
+			console.warn("S3 Sync: Error purging expired remote trash:", error);
+		}
+	}
+
+	/**
+	 * Aborts multipart uploads that were never completed, so their parts no
+	 * longer take up space in the bucket, and removes abandoned partial
+	 * downloads from the plugin folder
+	 */
+	private async discardStaleTransfers(): Promise<void> {
+		try {
+			const aborted = await this.s3Service.abortStaleUploads();
+			if (aborted > 0 && this.plugin.settings.enableDebugLogging) {
+				console.log(`S3 Sync: Aborted ${aborted} stale multipart uploads`);
+			}
+		} catch (error) {
+			console.warn("S3 Sync: Error aborting stale multipart uploads:", error);
+		}
+		try {
+			const discarded = await this.s3Service.discardStaleDownloads();
+			if (discarded > 0 && this.plugin.settings.enableDebugLogging) {
+				console.log(`S3 Sync: Discarded ${discarded} stale partial downloads`);
+			}
+		} catch (error) {
+			console.warn("S3 Sync: Error discarding stale partial downloads:", error);
+		}
+	}
+
+	/**
+	 * Opens a modal listing the remote versions of a file
+	 */
+	async showRemoteHistory(file: TFile): Promise<void> {
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
+			);
+			return;
+		}
+		try {
+			const versions = await this.s3Service.listFileVersions(file.path);
+			if (versions.length === 0) {
+				new Notice(`S3 Sync: No remote versions of ${file.path} found.`);
+				return;
+			}
+			new RemoteHistoryModal(
+				this.app,
+				file.path,
+				versions,
+				this.baseStore.isTextFile(file.path),
+				{
+					loadVersion: (version) =>
+						this.s3Service.downloadFileVersion(
+							file.path,
+							version.versionId,
+						),
+					readLocal: async () => {
+						const localFile = this.app.vault.getAbstractFileByPath(
+							file.path,
+						);
+						return localFile instanceof TFile
+							? this.app.vault.read(localFile)
+							: null;
+					},
+					restore: (version, asCopy) =>
+						this.restoreFileVersion(file.path, version, asCopy),
+				},
+			).open();
+		} catch (error) {
+			console.error("S3 Sync: Error listing remote versions:", error);
+			new Notice(
+				"S3 Sync: Error listing remote versions. Check console for details.",
+			);
+		}
+	}
+
+	/**
+	 * Restores a remote version of a file. As the current version, it is
+	 * written locally, uploaded and recorded as synced. As a side copy, it is
+	 * saved next to the file and uploaded with the next sync.
+	 */
+	async restoreFileVersion(
+		filePath: string,
+		version: RemoteFileVersion,
+		asCopy: boolean,
+	): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return;
+		}
+		this.running = true;
+		try {
+			const content = await this.s3Service.downloadFileVersion(
+				filePath,
+				version.versionId,
+			);
+
+			if (asCopy) {
+				const copyPath = this.getConflictFileName(
+					filePath,
+					new Date(version.mtime),
+					"version",
+				);
+				await this.writeLocalFile(copyPath, content, version.mtime);
+				new Notice(`S3 Sync: Saved version as ${copyPath}`);
+				return;
+			}
+
+			const restoredFile = await this.writeLocalFile(
+				filePath,
+				content,
+				Date.now(),
+			);
+			const metadata = await this.s3Service.putFile(filePath, content);
+			const state = await this.stateManager.loadState();
+			state[filePath] = {
+				localMtime: restoredFile.mtime,
+				remoteMtime: metadata.mtime,
+				size: content.byteLength,
+				hash: metadata.hash,
+				remoteEtag: metadata.etag,
+			};
+			await this.stateManager.saveState(state);
+			await this.baseStore.save(filePath, content);
+			new Notice(
+				`S3 Sync: Restored ${filePath} from ${new Date(version.mtime).toLocaleString()}`,
+			);
+		} catch (error) {
+			console.error(`S3 Sync: Error restoring ${filePath}:`, error);
+			new Notice(
+				"S3 Sync: Error restoring version. Check console for details.",
+			);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Rolls the vault or a folder back to the remote versions that were
+	 * current at a chosen date. The changes are previewed, applied through
+	 * the download and delete actions of a sync, and then synced, so that
+	 * the remote and the sync state follow.
+	 */
+	async restoreToDate(): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is already in progress.");
+			return;
+		}
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
+			);
+			return;
+		}
+		const target = await RestoreToDateModal.ask(this.app);
+		if (!target) {
+			return;
+		}
+
+		this.running = true;
+		const restoreNotice = new Notice("S3 Sync: Reading remote versions...", 0);
+		let restored = false;
+		try {
+			await this.loadIgnoreRules();
+			const [localFiles, stateFiles, versions] = await Promise.all([
+				this.getLocalFilesMap(),
+				this.getStateFilesMap(),
+				this.s3Service.listVersionsAt(target.timestamp, target.folder),
+			]);
+			this.applyRestoreScope(versions, localFiles);
+			const decisions = await this.planRestore(
+				target,
+				versions,
+				localFiles,
+				stateFiles,
+			);
+			if (decisions.length === 0) {
+				restoreNotice.setMessage(
+					"S3 Sync: The vault already matches this date.",
+				);
+				return;
+			}
+
+			restoreNotice.setMessage("S3 Sync: Waiting for approval...");
+			const approved = await SyncPreviewModal.confirm(this.app, decisions);
+			if (!approved) {
+				restoreNotice.setMessage("S3 Sync: Restore cancelled.");
+				return;
+			}
+
+			// The state is not saved, the following sync uploads the changes
+			await this.executeSyncDecisions(approved, restoreNotice, stateFiles);
+			restoreNotice.setMessage(
+				`S3 Sync: Restored ${approved.length} files.`,
+			);
+			restored = true;
+		} catch (error) {
+			if (error instanceof SyncAbortedError) {
+				restoreNotice.setMessage(`S3 Sync: ${error.message}`);
+				return;
+			}
+			console.error("S3 Sync: Error restoring to date:", error);
+			restoreNotice.setMessage(
+				"S3 Sync: Error during restore. Check console for details.",
+			);
+		} finally {
+			this.clearCachedMaps();
+			this.running = false;
+			setTimeout(() => restoreNotice.hide(), 5000);
+		}
+
+		if (restored) {
+			await this.runSync();
+		}
+	}
+
+	/**
+	 * Leaves the files a sync leaves out on this device out of a restore:
+	 * ignored files, files outside the selected folders, private and
+	 * unindexed notes and out-of-scope files. Like in a sync, a file that is
+	 * only too old on one side stays in scope if the other side is recent.
+	 */
+	private applyRestoreScope(
+		versions: Map<string, RemoteFileVersion>,
+		localFiles: LocalFilesMap,
+	): void {
+		for (const [path, version] of versions.entries()) {
+			const reason = this.getScopeFilterReason({
+				path,
+				mtime: version.mtime,
+				size: version.size,
+			});
+			const local = this.outOfScopeLocal.get(path);
+			if (
+				this.shouldIgnoreFile(path) ||
+				!this.decisionEngine.isInSelectedFolders(path) ||
+				this.privateNotes.has(path) ||
+				this.unindexedNotes.has(path) ||
+				(reason && (reason !== "age" || !localFiles.has(path))) ||
+				(local && (local.reason !== "age" || reason))
+			) {
+				versions.delete(path);
+			} else if (local) {
+				localFiles.set(path, local.file);
+			}
+		}
+		for (const path of localFiles.keys()) {
+			if (!this.decisionEngine.isInSelectedFolders(path)) {
+				localFiles.delete(path);
+			}
+		}
+	}
+
+	/**
+	 * Compares the versions current at the restore date with the local files.
+	 * Files that differ are downloaded in that version, files that did not
+	 * exist at that date are deleted.
+	 */
+	private async planRestore(
+		target: RestoreTarget,
+		versions: Map<string, RemoteFileVersion>,
+		localFiles: LocalFilesMap,
+		stateFiles: StateFilesMap,
+	): Promise<FileSyncDecision[]> {
+		const decisions: FileSyncDecision[] = [];
+
+		for (const [filePath, version] of versions.entries()) {
+			const localFile = localFiles.get(filePath);
+			if (
+				localFile &&
+				(await this.matchesVersion(
+					localFile,
+					version,
+					stateFiles.get(filePath),
+				))
+			) {
+				continue;
+			}
+			decisions.push({
+				filePath,
+				localStatus: localFile ? FileStatus.MODIFIED : FileStatus.DELETED,
+				remoteStatus: FileStatus.UNCHANGED,
+				action: SyncAction.DOWNLOAD,
+				versionId: version.versionId,
+			});
+		}
+
+		for (const filePath of localFiles.keys()) {
+			const inFolder =
+				!target.folder || filePath.startsWith(`${target.folder}/`);
+			if (inFolder && !versions.has(filePath)) {
+				decisions.push({
+					filePath,
+					localStatus: FileStatus.UNCHANGED,
+					remoteStatus: FileStatus.DELETED,
+					action: SyncAction.DELETE_LOCAL,
+				});
+			}
+		}
+		return decisions;
+	}
+
+	/**
+	 * Checks if a local file has the content of a remote version, using the
+	 * sync state where possible and the version's stored hash otherwise
+	 */
+	private async matchesVersion(
+		localFile: LocalFile,
+		version: RemoteFileVersion,
+		syncState: SyncFileState | undefined,
+	): Promise<boolean> {
+		if (
+			localFile.size !== undefined &&
+			version.size !== undefined &&
+			localFile.size !== version.size
+		) {
+			return false;
+		}
+		const localHash = await this.computeLocalHash(localFile.path);
+		if (syncState?.hash && version.etag && version.etag === syncState.remoteEtag) {
+			return localHash === syncState.hash;
+		}
+		const metadata = await this.s3Service.headFile(
+			localFile.path,
+			version.versionId,
+		);
+		return !!metadata.hash && metadata.hash === localHash;
+	}
+
+	/**
+	 * Creates a snapshot if snapshots are enabled and the interval has passed
+	 * since the newest one. Called on the sync schedule.
+	 */
+	async createSnapshotIfDue(): Promise<void> {
+		if (
+			!this.plugin.settings.enableSnapshots ||
+			!this.s3Service.isConfigured() ||
+			!this.syncsWholeVault()
+		) {
+			return;
+		}
+		try {
+			if (await this.snapshotManager.isSnapshotDue()) {
+				await this.createSnapshot();
+			}
+		} catch (error) {
+			console.error("S3 Sync: Error checking snapshots:", error);
+		}
+	}
+
+	/**
+	 * Uploads a snapshot of all synced vault files and applies the retention
+	 */
+	async createSnapshot(): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return;
+		}
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
 			);
 			return;
 		}
+		if (!this.syncsWholeVault()) {
+			new Notice(
+				"S3 Sync: Snapshots are only created on devices that sync the whole vault, without selected folders or scope filters.",
+			);
+			return;
+		}
+		this.running = true;
+		const snapshotNotice = new Notice("S3 Sync: Creating snapshot...", 0);
+		try {
+			const files = this.app.vault
+				.getFiles()
+				.filter(
+					(file) =>
+						!this.shouldIgnoreFile(file.path) &&
+						!this.getNotePrivacy(file),
+				);
+			await this.snapshotManager.createSnapshot(files);
+			const removed = await this.snapshotManager.applyRetention();
+			snapshotNotice.setMessage(
+				`S3 Sync: Snapshot of ${files.length} files created` +
+					(removed > 0 ? `, ${removed} old snapshots removed.` : "."),
+			);
+		} catch (error) {
+			console.error("S3 Sync: Error creating snapshot:", error);
+			snapshotNotice.setMessage(
+				"S3 Sync: Error creating snapshot. Check console for details.",
+			);
+		} finally {
+			this.running = false;
+			setTimeout(() => snapshotNotice.hide(), 5000);
+		}
+	}
 
-		// Create S3Object for compatibility
-		const s3Object: S3Object = {
-			Key: remoteFile.key,
-			LastModified: new Date(remoteFile.mtime),
-		};
-
-		const remoteContent = await this.s3Service.downloadFile(s3Object);
-		const conflictFileName = this.getConflictFileName(
-			decision.filePath,
-			new Date(remoteFile.mtime),
+	/**
+	 * Checks if this device has all synced files, so its snapshots are
+	 * complete. Snapshots are shared by all devices, so a partial snapshot
+	 * would take the place of a complete one in the schedule and retention.
+	 */
+	private syncsWholeVault(): boolean {
+		return (
+			this.plugin.settings.syncFolders.length === 0 &&
+			!hasScopeFilters(this.plugin.settings)
 		);
+	}
 
-		// Save the remote version with a new name
-		await this.app.vault.createBinary(conflictFileName, remoteContent, {
-			mtime: remoteFile.mtime,
-		});
-
-		new Notice(`S3 Sync: Saved remote version as ${conflictFileName}`);
-
-		// Upload the local version to overwrite the remote
-		const localContent = await this.app.vault.readBinary(localFile);
-		const actualRemoteMtime = await this.s3Service.uploadFile(localFile, localContent);
+	/**
+	 * Opens a modal listing the snapshots, from which one can be extracted
+	 */
+	async showSnapshots(): Promise<void> {
+		if (!this.s3Service.isConfigured()) {
+			new Notice(
+				"S3 Sync: Plugin not configured. Please check settings.",
+			);
+			return;
+		}
+		try {
+			const snapshots = await this.snapshotManager.listSnapshots();
+			if (snapshots.length === 0) {
+				new Notice("S3 Sync: No snapshots found.");
+				return;
+			}
+			new SnapshotsModal(this.app, snapshots, (snapshot, folder) =>
+				this.extractSnapshot(snapshot, folder),
+			).open();
+		} catch (error) {
+			console.error("S3 Sync: Error listing snapshots:", error);
+			new Notice(
+				"S3 Sync: Error listing snapshots. Check console for details.",
+			);
+		}
+	}
 
-		// Update state map: local version wins, use actual S3 timestamp for remote
-		const localMtime = localFile.stat.mtime;
-		stateFiles.set(decision.filePath, {
-			localMtime: localMtime,
-			remoteMtime: actualRemoteMtime,  // Use actual S3 LastModified timestamp
-		});
+	/**
+	 * Writes the files of a snapshot into a vault folder
+	 */
+	async extractSnapshot(snapshot: SnapshotInfo, folder: string): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return;
+		}
+		this.running = true;
+		const extractNotice = new Notice("S3 Sync: Extracting snapshot...", 0);
+		try {
+			const entries = await this.snapshotManager.readSnapshot(snapshot);
+			for (const entry of entries) {
+				await this.writeLocalFile(
+					`${folder}/${entry.path}`,
+					entry.content,
+					entry.mtime,
+				);
+			}
+			extractNotice.setMessage(
+				`S3 Sync: Extracted ${entries.length} files to ${folder}.`,
+			);
+		} catch (error) {
+			console.error("S3 Sync: Error extracting snapshot:", error);
+			extractNotice.setMessage(
+				"S3 Sync: Error extracting snapshot. Check console for details.",
+			);
+		} finally {
+			this.running = false;
+			setTimeout(() => extractNotice.hide(), 5000);
+		}
 	}
 
 	/**
-	 * Ensures the parent folder exists for a file path
+	 * Lists the folders that can be selected for this device: the local
+	 * folders and the folders of remote files
 	 */
-	private async ensureFolderExists(filePath: string): Promise<void> {
-		const folderPath = filePath.substring(0, filePath.lastIndexOf("/"));
-		if (folderPath) {
+	async listSelectableFolders(): Promise<string[]> {
+		const folders = new Set<string>();
+		this.app.vault.getAllLoadedFiles().forEach((file) => {
+			if (file instanceof TFolder && !file.isRoot()) {
+				folders.add(file.path);
+			}
+		});
+		if (this.s3Service.isConfigured()) {
 			try {
-				const existingFolder =
-					this.app.vault.getAbstractFileByPath(folderPath);
-				if (!existingFolder) {
-					await this.app.vault.createFolder(folderPath);
+				const remoteFiles = await this.s3Service.listRemoteFiles();
+				for (const path of remoteFiles.keys()) {
+					const parts = path.split("/");
+					for (let i = 1; i < parts.length; i++) {
+						folders.add(parts.slice(0, i).join("/"));
+					}
 				}
-			} catch (e) {
-				// Folder likely created between check and call, ignore
+			} catch (error) {
+				// Offer the local folders only
+				console.error("S3 Sync: Error listing remote folders:", error);
 			}
 		}
+		return Array.from(folders)
+			.filter((folder) => !this.isHiddenFile(folder))
+			.sort();
 	}
 
-	private getConflictFileName(
-		originalPath: string,
-		conflictDate: Date,
-	): string {
-		const lastDotIndex = originalPath.lastIndexOf(".");
-		const extension =
-			lastDotIndex > -1 ? originalPath.substring(lastDotIndex) : "";
-		const baseName =
-			lastDotIndex > -1
-				? originalPath.substring(0, lastDotIndex)
-				: originalPath;
-		const timestamp =
-			conflictDate.getFullYear().toString() +
-			(conflictDate.getMonth() + 1).toString().padStart(2, "0") +
-			conflictDate.getDate().toString().padStart(2, "0") +
-			"-" +
-			conflictDate.getHours().toString().padStart(2, "0") +
-			conflictDate.getMinutes().toString().padStart(2, "0") +
-			conflictDate.getSeconds().toString().padStart(2, "0");
+	/**
+	 * Changes the folders this device syncs. Synced files in folders that are
+	 * no longer selected are removed locally, their remote copies stay. Files
+	 * with unsynced changes are kept. A sync then downloads the newly
+	 * selected folders.
+	 */
+	async changeSyncFolders(folders: string[]): Promise<void> {
+		if (this.running) {
+			new Notice("S3 Sync: A sync is in progress, try again later.");
+			return;
+		}
+		const previous = this.plugin.settings.syncFolders ?? [];
+		const selection = normalizeFolderSelection(folders);
+		this.plugin.settings.syncFolders = selection;
+		await this.plugin.saveSettings();
+		if (!this.s3Service.isConfigured()) {
+			return;
+		}
+
+		this.running = true;
+		let removed = 0;
+		const kept: string[] = [];
+		try {
+			const remoteFiles = await this.s3Service.listRemoteFiles();
+			const state = await this.stateManager.loadState();
+			const deselected = this.app.vault
+				.getFiles()
+				.filter(
+					(file) =>
+						!this.shouldIgnoreFile(file.path) &&
+						isInFolders(file.path, previous) &&
+						!isInFolders(file.path, selection),
+				);
+
+			const removable: TFile[] = [];
+			for (const file of deselected) {
+				const fileState = state[file.path];
+				const synced =
+					typeof fileState === "object" &&
+					fileState.localMtime === file.stat.mtime &&
+					remoteFiles.has(file.path);
+				if (synced) {
+					removable.push(file);
+				} else {
+					kept.push(file.path);
+				}
+			}
+
+			const deletes = removable.map(
+				(file): FileSyncDecision => ({
+					filePath: file.path,
+					localStatus: FileStatus.UNCHANGED,
+					remoteStatus: FileStatus.UNCHANGED,
+					action: SyncAction.DELETE_LOCAL,
+				}),
+			);
+			if (!(await this.confirmDeletions(deletes, Object.keys(state).length))) {
+				this.plugin.settings.syncFolders = previous;
+				await this.plugin.saveSettings();
+				new Notice(
+					`S3 Sync: Folder selection not changed, ${deletes.length} deletions were not confirmed.`,
+				);
+				return;
+			}
+
+			// Removed like files deleted by a sync, so a wrongly deselected
+			// folder can be recovered from the trash
+			for (const file of removable) {
+				const fileState = state[file.path];
+				await this.localTrash.deleteFile(
+					file,
+					typeof fileState === "object" ? fileState.hash : undefined,
+				);
+				await this.baseStore.remove(file.path);
+				removed++;
+			}
+
+			// Without state, files that come back into the selection later
+			// are compared with the remote instead of being treated as deleted.
+			// Configuration files are synced regardless of the selection.
+			for (const path of Object.keys(state)) {
+				if (!this.decisionEngine.isInSelectedFolders(path)) {
+					delete state[path];
+				}
+			}
+			await this.stateManager.saveState(state);
+			await this.removeEmptyFolders(previous, selection);
+		} catch (error) {
+			console.error("S3 Sync: Error applying folder selection:", error);
+			new Notice(
+				"S3 Sync: Error applying folder selection. Check console for details.",
+			);
+			return;
+		} finally {
+			this.running = false;
+		}
 
-		return `${baseName} (conflict ${timestamp})${extension}`;
+		if (kept.length > 0) {
+			console.warn(
+				"S3 Sync: Files with unsynced changes kept outside the selected folders:",
+				kept,
+			);
+		}
+		if (removed > 0 || kept.length > 0) {
+			new Notice(
+				kept.length > 0
+					? `S3 Sync: Removed ${removed} files of deselected folders, kept ${kept.length} with unsynced changes. Check console for details.`
+					: `S3 Sync: Removed ${removed} files of deselected folders.`,
+			);
+		}
+		await this.runSync();
 	}
 
 	/**
-	 * Saves the updated sync state from the cached state map (no rescanning needed)
+	 * Deletes empty local folders that were deselected, deepest first
 	 */
-	private async saveUpdatedSyncState(stateFiles: StateFilesMap): Promise<void> {
-		// Convert Map back to SyncState object for saving, filtering out obsolete entries
-		const newState: SyncState = {};
-		
-		for (const [filePath, fileState] of stateFiles.entries()) {
-			// For robustness: Remove entries where only one timestamp is defined 
-			// (incomplete state that can cause race conditions). This will result in 
-			// a download/upload on the next sync, which is safer than keeping inconsistent state.
-			const hasLocal = fileState.localMtime !== undefined;
-			const hasRemote = fileState.remoteMtime !== undefined;
-			
-			// Only include entries that have both timestamps or neither (complete states)
-			if ((hasLocal && hasRemote) || (!hasLocal && !hasRemote)) {
-				// Skip entries with neither timestamp (obsolete)
-				if (hasLocal || hasRemote) {
-					newState[filePath] = fileState;
-				}
+	private async removeEmptyFolders(
+		previous: string[],
+		selection: string[],
+	): Promise<void> {
+		const folders = this.app.vault
+			.getAllLoadedFiles()
+			.filter(
+				(file): file is TFolder =>
+					file instanceof TFolder &&
+					!file.isRoot() &&
+					!this.isHiddenFile(file.path) &&
+					isInFolders(`${file.path}/`, previous) &&
+					!isInFolders(`${file.path}/`, selection),
+			)
+			.sort((a, b) => b.path.split("/").length - a.path.split("/").length);
+
+		for (const folder of folders) {
+			if (folder.children.length === 0) {
+				await this.app.vault.delete(folder);
 			}
-			// Incomplete entries (only localMtime or only remoteMtime) are filtered out
 		}
+	}
 
-		// Save the updated state
-		await this.stateManager.saveState(newState);
+	/**
+	 * Uploads changed local files without listing the bucket and records only
+	 * their state. Files whose remote copy changed since the last sync, and
+	 * files the sync would skip, are left to the next sync.
+	 * @returns The paths that could not be handled yet because a sync is running
+	 */
+	async pushLocalFiles(paths: string[]): Promise<string[]> {
+		if (!this.s3Service.isConfigured()) {
+			return [];
+		}
+		if (this.running) {
+			return paths;
+		}
 
-		// Optional: Prune empty folders
-		await this.pruneEmptyFolders();
+		this.running = true;
+		try {
+			await this.loadIgnoreRules();
+			const syncState = await this.stateManager.loadState();
+			let pushed = 0;
+			for (const filePath of paths) {
+				if (await this.pushLocalFile(filePath, syncState)) {
+					pushed++;
+				}
+			}
+			if (pushed > 0) {
+				await this.stateManager.saveState(syncState);
+			}
+			if (this.plugin.settings.enableDebugLogging) {
+				console.log(`S3 Sync: Pushed ${pushed} of ${paths.length} changed files`);
+			}
+		} catch (error) {
+			console.error("S3 Sync: Error pushing changed files:", error);
+		} finally {
+			await this.publishRemoteChanges();
+			this.running = false;
+		}
+		return [];
 	}
 
 	/**
-	 * Prunes empty folders after sync (optional feature)
+	 * Uploads a single local file if it changed since the last sync and its
+	 * remote copy is still the synced version, and updates its state entry
+	 * @returns True if the state entry was updated
 	 */
-	private async pruneEmptyFolders(): Promise<void> {
+	private async pushLocalFile(
+		filePath: string,
+		syncState: SyncState,
+	): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (
+			!(file instanceof TFile) ||
+			this.shouldIgnoreFile(filePath) ||
+			!this.decisionEngine.isInSelectedFolders(filePath) ||
+			this.getNotePrivacy(file) ||
+			this.getScopeFilterReason({
+				path: filePath,
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+			})
+		) {
+			return false;
+		}
+		const previousState = syncState[filePath];
+		if (previousState?.localMtime && file.stat.mtime <= previousState.localMtime) {
+			return false; // Written by a sync or not changed
+		}
+
+		let remoteMtime: number | undefined;
 		try {
-			const allFiles = this.app.vault.getAllLoadedFiles();
-			const folders = allFiles.filter(
-				(f) => f instanceof TFolder,
-			) as TFolder[];
+			remoteMtime = (await this.s3Service.headFile(filePath)).mtime;
+		} catch (error) {
+			remoteMtime = undefined; // No remote file
+		}
+		if (remoteMtime !== previousState?.remoteMtime) {
+			return false; // Changed, created or deleted remotely
+		}
 
-			// Sort by depth (deepest first) to prune from bottom up
-			folders.sort(
-				(a, b) => b.path.split("/").length - a.path.split("/").length,
-			);
+		const localFile = await this.readLocalFile(filePath);
+		if (!localFile) {
+			return false;
+		}
+		const { content } = localFile;
+		const hash = await computeContentHash(content);
+		if (previousState && hash === previousState.hash) {
+			// Only touched, record the new mtime
+			syncState[filePath] = { ...previousState, localMtime: localFile.mtime };
+			return true;
+		}
 
-			for (const folder of folders) {
-				if (folder.children && folder.children.length === 0) {
-					// Don't delete the plugin's own folder or system folders
-					if (
-						!folder.path.startsWith(".obsidian") ||
-						folder.path === ".obsidian/plugins/kisss3"
-					) {
-						continue;
-					}
+		const metadata = await this.s3Service.putFile(filePath, content);
+		syncState[filePath] = {
+			localMtime: localFile.mtime,
+			remoteMtime: metadata.mtime,
+			size: content.byteLength,
+			hash: metadata.hash,
+			remoteEtag: metadata.etag,
+		};
+		await this.baseStore.save(filePath, content);
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`S3 Sync: Pushed ${filePath}`);
+		}
+		return true;
+	}
 
-					try {
-						await this.app.vault.delete(folder);
-						console.log(
-							`S3 Sync: Pruned empty folder: ${folder.path}`,
-						);
-					} catch (e) {
-						// Ignore errors when pruning folders
-					}
+	/**
+	 * Moves the remote copies of a renamed file, or of all files in a renamed
+	 * folder, with server-side copies and moves their state entries, so the
+	 * next sync has nothing to do. Remote files changed since the last sync
+	 * are left to the next sync.
+	 */
+	async handleLocalRename(file: TAbstractFile, oldPath: string): Promise<void> {
+		if (!this.s3Service.isConfigured() || this.running) {
+			return; // Renames during a sync are carried out by the sync itself
+		}
+
+		const files =
+			file instanceof TFolder
+				? this.app.vault
+						.getFiles()
+						.filter((f) => f.path.startsWith(`${file.path}/`))
+				: file instanceof TFile
+					? [file]
+					: [];
+		const renames = files
+			.map((f) => ({
+				file: f,
+				oldPath: `${oldPath}${f.path.substring(file.path.length)}`,
+			}))
+			.filter(
+				({ file: f, oldPath: previousPath }) =>
+					!this.shouldIgnoreFile(previousPath) &&
+					!this.shouldIgnoreFile(f.path) &&
+					this.decisionEngine.isInSelectedFolders(f.path),
+			);
+		if (renames.length === 0) {
+			return;
+		}
+
+		this.running = true;
+		const progressNotice =
+			file instanceof TFolder
+				? new Notice(`S3 Sync: Moving ${file.path}...`, 0)
+				: null;
+		let moved = 0;
+		try {
+			const syncState = await this.stateManager.loadState();
+			for (const [index, rename] of renames.entries()) {
+				progressNotice?.setMessage(
+					`S3 Sync: Moving ${file.path} (${index + 1}/${renames.length})...`,
+				);
+				if (await this.moveRemoteFile(rename.oldPath, rename.file.path, syncState)) {
+					moved++;
 				}
 			}
+			await this.stateManager.saveState(syncState);
+			progressNotice?.setMessage(
+				`S3 Sync: Moved ${moved} of ${renames.length} files to ${file.path}.`,
+			);
 		} catch (error) {
-			console.warn("S3 Sync: Error during folder pruning:", error);
+			console.error(`S3 Sync: Error moving ${oldPath}:`, error);
+			progressNotice?.setMessage(
+				"S3 Sync: Error moving files. Check console for details.",
+			);
+		} finally {
+			await this.publishRemoteChanges();
+			this.running = false;
+			if (progressNotice) {
+				setTimeout(() => progressNotice.hide(), 5000);
+			}
+		}
+	}
+
+	/**
+	 * Moves a synced remote file and its state entry, if the remote file is
+	 * still the synced version. The local mtime in the state is kept, so a
+	 * local change made before the rename is uploaded by the next sync.
+	 * @returns True if the file was moved
+	 */
+	private async moveRemoteFile(
+		oldPath: string,
+		newPath: string,
+		syncState: SyncState,
+	): Promise<boolean> {
+		const previousState = syncState[oldPath];
+		if (!previousState?.remoteMtime) {
+			return false; // Never uploaded, the next sync uploads it
+		}
+		try {
+			const remote = await this.s3Service.headFile(oldPath);
+			if (remote.mtime !== previousState.remoteMtime) {
+				return false;
+			}
+			const metadata = await this.s3Service.renameRemoteFile(oldPath, newPath);
+			syncState[newPath] = {
+				...previousState,
+				remoteMtime: metadata.mtime,
+				remoteEtag: metadata.etag,
+			};
+			delete syncState[oldPath];
+			await this.baseStore.rename(oldPath, newPath);
+			if (this.plugin.settings.enableDebugLogging) {
+				console.log(`S3 Sync: Moved remote file ${oldPath} to ${newPath}`);
+			}
+			return true;
+		} catch (error) {
+			console.warn(`S3 Sync: Could not move remote file ${oldPath}:`, error);
+			return false;
 		}
 	}
 
-	async handleLocalDelete(path: string): Promise<void> {
+	/**
+	 * Deletes the remote copy of a file deleted locally, if it is still the
+	 * synced version. Files the sync leaves alone, like private notes and
+	 * files outside the selected folders or the sync scope, are left to the
+	 * next sync.
+	 */
+	async handleLocalDelete(file: TFile): Promise<void> {
 		if (!this.s3Service.isConfigured()) {
 			return; // Silently skip if not configured
 		}
 
+		const path = file.path;
+		if (
+			this.shouldIgnoreFile(path) ||
+			!this.decisionEngine.isInSelectedFolders(path) ||
+			this.getNotePrivacy(file) ||
+			this.getScopeFilterReason({
+				path,
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+			})
+		) {
+			return;
+		}
+
 		try {
-			// Check if file exists remotely
-			const remoteFiles = await this.s3Service.listRemoteFiles();
-			if (remoteFiles.has(path)) {
+			const previousState = (await this.stateManager.loadState())[path];
+			if (!previousState?.remoteMtime || previousState.remoteCopyKept) {
+				return; // Never uploaded, or a kept copy of a private note
+			}
+			// Without a manifest, only this file is checked
+			const { files } = await this.s3Service.readManifest();
+			const remoteFiles =
+				files ?? (await this.s3Service.listRemoteFilesAt([path]));
+			if (
+				remoteFiles.get(path)?.LastModified?.getTime() ===
+				previousState.remoteMtime
+			) {
 				await this.s3Service.deleteRemoteFile(path);
 				console.log(`S3 Sync: Deleted remote file ${path}`);
+				await this.publishRemoteChanges();
 			}
 		} catch (error) {
 			console.error(
@@ -0,0 +1,62 @@
+import { S3SyncSettings } from "../settings";
+
+// Why a file is out of the sync scope
+export type ScopeFilterReason =
+	| "size" // Larger than the maximum file size
+	| "extension" // Not included or excluded by extension
+	| "age"; // Not modified within the recent days
+
+/**
+ * Gets the lowercase extension of a file without the dot, or an empty
+ * string if the file name has none
+ */
+export function getExtension(filePath: string): string {
+	const name = filePath.substring(filePath.lastIndexOf("/") + 1);
+	const dotIndex = name.lastIndexOf(".");
+	return dotIndex > 0 ? name.substring(dotIndex + 1).toLowerCase() : "";
+}
+
+/**
+ * Checks if any of the size, extension and age filters is set
+ */
+export function hasScopeFilters(settings: S3SyncSettings): boolean {
+	return (
+		settings.maxFileSizeMB > 0 ||
+		settings.includeExtensions.length > 0 ||
+		settings.excludeExtensions.length > 0 ||
+		settings.recentOnlyDays > 0
+	);
+}
+
+/**
+ * Checks a file against the size, extension and age filters
+ * @param now Current time in milliseconds
+ * @returns The first filter the file fails, or null if it is in scope
+ */
+export function getScopeFilterReason(
+	filePath: string,
+	size: number | undefined,
+	mtime: number,
+	settings: S3SyncSettings,
+	now: number,
+): ScopeFilterReason | null {
+	const maxBytes = settings.maxFileSizeMB * 1024 * 1024;
+	if (maxBytes > 0 && size !== undefined && size > maxBytes) {
+		return "size";
+	}
+
+	const extension = getExtension(filePath);
+	if (
+		(settings.includeExtensions.length > 0 &&
+			!settings.includeExtensions.includes(extension)) ||
+		settings.excludeExtensions.includes(extension)
+	) {
+		return "extension";
+	}
+
+	const maxAge = settings.recentOnlyDays * 24 * 60 * 60 * 1000;
+	if (maxAge > 0 && mtime < now - maxAge) {
+		return "age";
+	}
+	return null;
+}
@@ -1,4 +1,16 @@
 // Types and interfaces for the three-source sync algorithm
+import { ConflictPolicy } from "../settings";
+
+/**
+ * Stops a sync on purpose. The message is shown to the user as is and the
+ * sync state is not updated.
+ */
+export class SyncAbortedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SyncAbortedError";
+	}
+}
 
 export interface SyncState {
 	[filePath: string]: SyncFileState;
@@ -7,18 +19,24 @@ export interface SyncState {
 export interface SyncFileState {
 	localMtime?: number;  // Local file mtime when last synced
 	remoteMtime?: number; // Remote file mtime when last synced
+	size?: number;        // Content size in bytes when last synced
+	hash?: string;        // SHA-256 of the content when last synced
+	remoteEtag?: string;  // Remote ETag when last synced
+	remoteCopyKept?: boolean; // Private note whose remote copy the user kept
 }
 
 export interface FileInfo {
 	path: string;
 	mtime: number; // Unix timestamp in milliseconds
+	size?: number; // Content size in bytes
+	hash?: string; // SHA-256 of the content, only computed when needed
 }
 
 export type LocalFile = FileInfo;
 
 export interface RemoteFile extends FileInfo {
 	key: string; // S3 object key
-	// Additional S3-specific properties if needed
+	etag?: string; // S3 ETag from the listing
 }
 
 export enum FileStatus {
@@ -34,6 +52,8 @@ export enum SyncAction {
 	DELETE_LOCAL = "DELETE_LOCAL",
 	DELETE_REMOTE = "DELETE_REMOTE",
 	CONFLICT = "CONFLICT",
+	UPDATE_STATE = "UPDATE_STATE", // Content is identical, only record the new state
+	RENAME = "RENAME", // Moved on one side, move the file on the other side too
 	DO_NOTHING = "DO_NOTHING"
 }
 
@@ -43,8 +63,17 @@ export interface FileSyncDecision {
 	remoteStatus: FileStatus;
 	action: SyncAction;
 	conflictType?: string; // Description of conflict type for logging
+	conflictPolicy?: ConflictPolicy; // How SyncManager resolves a CONFLICT
+	mergeStrategy?: MergeStrategy; // Merge attempted before applying the policy
+	versionId?: string; // Download this remote version instead of the current one
+	previousPath?: string; // Path a RENAME moves the file from
 }
 
+// How the content of a file changed on both sides can be merged
+export type MergeStrategy =
+	| "text" // Frontmatter and line-based three-way merge of Markdown notes
+	| "canvas"; // Merge of canvas nodes and edges by id
+
 // Map types for the three sources
 export type LocalFilesMap = Map<string, LocalFile>;
 export type RemoteFilesMap = Map<string, RemoteFile>;
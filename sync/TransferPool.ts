@@ -0,0 +1,33 @@
+/**
+ * Runs a task for every item, with at most `concurrency` tasks running at
+ * the same time. Items are started in order. Once a task fails, no further
+ * tasks are started, and the first error is thrown after the running tasks
+ * have finished.
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	concurrency: number,
+	task: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	const errors: unknown[] = [];
+
+	const worker = async () => {
+		while (errors.length === 0 && next < items.length) {
+			const index = next++;
+			try {
+				await task(items[index], index);
+			} catch (error) {
+				errors.push(error);
+			}
+		}
+	};
+
+	// An invalid concurrency would start no workers and skip every task
+	const limit = Number.isFinite(concurrency) ? Math.floor(concurrency) : 1;
+	const workerCount = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workerCount }, worker));
+	if (errors.length > 0) {
+		throw errors[0];
+	}
+}
@@ -0,0 +1,144 @@
+// Structure-aware merge of Obsidian .canvas (JSON Canvas) files.
+
+interface CanvasItem {
+	id: string;
+	[key: string]: unknown;
+}
+
+interface CanvasData {
+	nodes?: CanvasItem[];
+	edges?: CanvasItem[];
+	[key: string]: unknown;
+}
+
+/**
+ * Merges two versions of a canvas by node and edge id.
+ * - Items changed on one side only are taken from that side.
+ * - Items changed on both sides are taken from the newer side.
+ * - Items deleted on one side are removed unless the other side changed them.
+ * Without a base, deletions can not be detected and all items are kept.
+ * @returns The merged canvas JSON, or null if a version is not a valid canvas
+ */
+export function mergeCanvas(
+	base: string | null,
+	local: string,
+	remote: string,
+	localIsNewer: boolean,
+): string | null {
+	const baseData = base !== null ? parseCanvas(base) : null;
+	const localData = parseCanvas(local);
+	const remoteData = parseCanvas(remote);
+	if (!localData || !remoteData || (base !== null && !baseData)) {
+		return null;
+	}
+
+	const newer = localIsNewer ? localData : remoteData;
+	const older = localIsNewer ? remoteData : localData;
+	const merged: CanvasData = { ...older, ...newer };
+	merged.nodes = mergeItems(
+		baseData?.nodes,
+		localData.nodes ?? [],
+		remoteData.nodes ?? [],
+		localIsNewer,
+	);
+	merged.edges = mergeItems(
+		baseData?.edges,
+		localData.edges ?? [],
+		remoteData.edges ?? [],
+		localIsNewer,
+	);
+
+	// Drop edges whose nodes were removed by the merge
+	const nodeIds = new Set(merged.nodes.map((node) => node.id));
+	merged.edges = merged.edges.filter(
+		(edge) =>
+			(typeof edge.fromNode !== "string" || nodeIds.has(edge.fromNode)) &&
+			(typeof edge.toNode !== "string" || nodeIds.has(edge.toNode)),
+	);
+
+	// Obsidian writes canvas files with tab indentation
+	return JSON.stringify(merged, null, "\t");
+}
+
+function mergeItems(
+	baseItems: CanvasItem[] | undefined,
+	localItems: CanvasItem[],
+	remoteItems: CanvasItem[],
+	localIsNewer: boolean,
+): CanvasItem[] {
+	const baseById = new Map((baseItems ?? []).map((item) => [item.id, item]));
+	const localById = new Map(localItems.map((item) => [item.id, item]));
+	const remoteById = new Map(remoteItems.map((item) => [item.id, item]));
+
+	// Local order first, then items only known remotely
+	const ids = [
+		...localItems.map((item) => item.id),
+		...remoteItems
+			.map((item) => item.id)
+			.filter((id) => !localById.has(id)),
+	];
+
+	const merged: CanvasItem[] = [];
+	for (const id of ids) {
+		const item = mergeItem(
+			baseItems ? baseById.get(id) : undefined,
+			localById.get(id),
+			remoteById.get(id),
+			!!baseItems,
+			localIsNewer,
+		);
+		if (item) {
+			merged.push(item);
+		}
+	}
+	return merged;
+}
+
+function mergeItem(
+	baseItem: CanvasItem | undefined,
+	localItem: CanvasItem | undefined,
+	remoteItem: CanvasItem | undefined,
+	hasBase: boolean,
+	localIsNewer: boolean,
+): CanvasItem | undefined {
+	if (localItem && remoteItem) {
+		if (itemsEqual(localItem, remoteItem) || itemsEqual(remoteItem, baseItem)) {
+			return localItem;
+		}
+		if (itemsEqual(localItem, baseItem)) {
+			return remoteItem;
+		}
+		return localIsNewer ? localItem : remoteItem;
+	}
+
+	const existing = localItem ?? remoteItem;
+	if (!hasBase || !baseItem) {
+		// Added on one side
+		return existing;
+	}
+	// Deleted on one side: keep it only if the other side changed it
+	return itemsEqual(existing, baseItem) ? undefined : existing;
+}
+
+function itemsEqual(
+	a: CanvasItem | undefined,
+	b: CanvasItem | undefined,
+): boolean {
+	return !!a && !!b && JSON.stringify(a) === JSON.stringify(b);
+}
+
+function parseCanvas(content: string): CanvasData | null {
+	try {
+		const data = content.trim() ? JSON.parse(content) : {};
+		if (typeof data !== "object" || data === null || Array.isArray(data)) {
+			return null;
+		}
+		const isItemList = (items: unknown) =>
+			items === undefined ||
+			(Array.isArray(items) &&
+				items.every((item) => typeof item?.id === "string"));
+		return isItemList(data.nodes) && isItemList(data.edges) ? data : null;
+	} catch (e) {
+		return null;
+	}
+}
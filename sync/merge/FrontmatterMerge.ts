@@ -0,0 +1,113 @@
+// Property-level merge of Markdown frontmatter for notes whose body is identical.
+
+export interface SplitNote {
+	frontmatter: string[] | null; // Lines between the --- delimiters
+	body: string; // Everything after the closing delimiter
+}
+
+/**
+ * Splits a note into its YAML frontmatter lines and its body
+ */
+export function splitFrontmatter(content: string): SplitNote {
+	const lines = content.split("\n");
+	if (lines[0]?.trimEnd() !== "---") {
+		return { frontmatter: null, body: content };
+	}
+	for (let i = 1; i < lines.length; i++) {
+		if (lines[i].trimEnd() === "---") {
+			return {
+				frontmatter: lines.slice(1, i),
+				body: lines.slice(i + 1).join("\n"),
+			};
+		}
+	}
+	// No closing delimiter, so this is not frontmatter
+	return { frontmatter: null, body: content };
+}
+
+/**
+ * Groups frontmatter lines by top-level key. Indented lines, list items
+ * and comments belong to the preceding key; the raw text of a key's lines
+ * is its value for comparison.
+ */
+export function parseFrontmatterProperties(lines: string[]): Map<string, string> {
+	const properties = new Map<string, string>();
+	let currentKey: string | null = null;
+	let leadingLines: string[] = [];
+
+	for (const line of lines) {
+		const match = /^([^\s#-][^:]*):(\s|$)/.exec(line);
+		if (match) {
+			currentKey = match[1].trim();
+			properties.set(currentKey, [...leadingLines, line].join("\n"));
+			leadingLines = [];
+		} else if (currentKey !== null) {
+			properties.set(
+				currentKey,
+				`${properties.get(currentKey)}\n${line}`,
+			);
+		} else {
+			// Comments or blank lines before the first key
+			leadingLines.push(line);
+		}
+	}
+	return properties;
+}
+
+/**
+ * Merges the frontmatter of two versions of a note key by key, if their
+ * bodies are identical. With a base, a key changed or removed on one side
+ * is taken from that side. Without a base, keys of both sides are combined.
+ * @returns The merged note, or null if the bodies differ or a key has
+ * different values on both sides
+ */
+export function mergeFrontmatter(
+	base: string | null,
+	local: string,
+	remote: string,
+): string | null {
+	const localNote = splitFrontmatter(local);
+	const remoteNote = splitFrontmatter(remote);
+	if (localNote.body !== remoteNote.body) {
+		return null;
+	}
+
+	const baseProperties = base !== null
+		? parseFrontmatterProperties(splitFrontmatter(base).frontmatter ?? [])
+		: null;
+	const localProperties = parseFrontmatterProperties(localNote.frontmatter ?? []);
+	const remoteProperties = parseFrontmatterProperties(remoteNote.frontmatter ?? []);
+
+	// Local order first, then keys only known remotely
+	const keys = [
+		...localProperties.keys(),
+		...Array.from(remoteProperties.keys()).filter(
+			(key) => !localProperties.has(key),
+		),
+	];
+
+	const merged: string[] = [];
+	for (const key of keys) {
+		const localValue = localProperties.get(key);
+		const remoteValue = remoteProperties.get(key);
+		let value: string | undefined;
+
+		if (localValue === remoteValue) {
+			value = localValue;
+		} else if (baseProperties && localValue === baseProperties.get(key)) {
+			value = remoteValue; // Changed or removed remotely
+		} else if (baseProperties && remoteValue === baseProperties.get(key)) {
+			value = localValue; // Changed or removed locally
+		} else if (!baseProperties && (localValue === undefined || remoteValue === undefined)) {
+			value = localValue ?? remoteValue; // Added on one side
+		} else {
+			return null; // Different values on both sides
+		}
+
+		if (value !== undefined) {
+			merged.push(value);
+		}
+	}
+
+	return ["---", ...merged, "---", localNote.body].join("\n");
+}
@@ -0,0 +1,36 @@
+// Line-based two-way diff, used to compare remote versions with the local file.
+import { matchLines } from "./ThreeWayMerge";
+
+export interface DiffLine {
+	type: "same" | "removed" | "added";
+	text: string;
+}
+
+/**
+ * Diffs two texts line by line. Lines only in `oldText` are "removed",
+ * lines only in `newText` are "added".
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split("\n");
+	const newLines = newText.split("\n");
+	const matches = matchLines(oldLines, newLines);
+
+	const diff: DiffLine[] = [];
+	let newIndex = 0;
+	oldLines.forEach((line, oldIndex) => {
+		const match = matches[oldIndex];
+		if (match === -1) {
+			diff.push({ type: "removed", text: line });
+			return;
+		}
+		while (newIndex < match) {
+			diff.push({ type: "added", text: newLines[newIndex++] });
+		}
+		diff.push({ type: "same", text: line });
+		newIndex++;
+	});
+	while (newIndex < newLines.length) {
+		diff.push({ type: "added", text: newLines[newIndex++] });
+	}
+	return diff;
+}
@@ -0,0 +1,168 @@
+// Line-based three-way merge (diff3) of a base version with two edits.
+
+// Above this many cells the LCS table is skipped and the changed middle of
+// the files is treated as a single hunk.
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface ThreeWayMergeResult {
+	lines: string[]; // Merged lines, including conflict markers if requested
+	conflicts: number; // Number of overlapping hunks
+}
+
+export interface ThreeWayMergeOptions {
+	markers?: boolean; // Write conflict markers for overlapping hunks
+	localLabel?: string;
+	remoteLabel?: string;
+}
+
+/**
+ * Merges the local and remote edits of a text against their common base.
+ * Hunks changed on only one side are taken from that side, identical edits
+ * are taken once. Overlapping hunks are counted as conflicts and, if
+ * requested, written with conflict markers (local first).
+ */
+export function threeWayMerge(
+	base: string,
+	local: string,
+	remote: string,
+	options: ThreeWayMergeOptions = {},
+): ThreeWayMergeResult {
+	const baseLines = base.split("\n");
+	const localLines = local.split("\n");
+	const remoteLines = remote.split("\n");
+
+	const localMatches = matchLines(baseLines, localLines);
+	const remoteMatches = matchLines(baseLines, remoteLines);
+
+	const lines: string[] = [];
+	let conflicts = 0;
+	let baseIndex = 0;
+	let localIndex = 0;
+	let remoteIndex = 0;
+
+	while (baseIndex <= baseLines.length) {
+		// Copy lines that are unchanged on both sides
+		while (
+			baseIndex < baseLines.length &&
+			localMatches[baseIndex] === localIndex &&
+			remoteMatches[baseIndex] === remoteIndex
+		) {
+			lines.push(baseLines[baseIndex]);
+			baseIndex++;
+			localIndex++;
+			remoteIndex++;
+		}
+
+		// Find the next base line that is kept on both sides
+		let syncIndex = baseIndex;
+		while (
+			syncIndex < baseLines.length &&
+			(localMatches[syncIndex] === -1 || remoteMatches[syncIndex] === -1)
+		) {
+			syncIndex++;
+		}
+		const localEnd =
+			syncIndex < baseLines.length
+				? localMatches[syncIndex]
+				: localLines.length;
+		const remoteEnd =
+			syncIndex < baseLines.length
+				? remoteMatches[syncIndex]
+				: remoteLines.length;
+
+		const baseChunk = baseLines.slice(baseIndex, syncIndex);
+		const localChunk = localLines.slice(localIndex, localEnd);
+		const remoteChunk = remoteLines.slice(remoteIndex, remoteEnd);
+
+		if (linesEqual(localChunk, baseChunk)) {
+			lines.push(...remoteChunk);
+		} else if (
+			linesEqual(remoteChunk, baseChunk) ||
+			linesEqual(localChunk, remoteChunk)
+		) {
+			lines.push(...localChunk);
+		} else {
+			conflicts++;
+			if (options.markers) {
+				lines.push(`<<<<<<< ${options.localLabel ?? "local"}`);
+				lines.push(...localChunk);
+				lines.push("=======");
+				lines.push(...remoteChunk);
+				lines.push(`>>>>>>> ${options.remoteLabel ?? "remote"}`);
+			} else {
+				lines.push(...localChunk);
+			}
+		}
+
+		if (syncIndex >= baseLines.length) {
+			break;
+		}
+		baseIndex = syncIndex;
+		localIndex = localEnd;
+		remoteIndex = remoteEnd;
+	}
+
+	return { lines, conflicts };
+}
+
+/**
+ * Computes a longest common subsequence of two line arrays and returns,
+ * for each line of `a`, the index of its matching line in `b` or -1
+ */
+export function matchLines(a: string[], b: string[]): number[] {
+	const matches = new Array<number>(a.length).fill(-1);
+
+	// Common prefix and suffix are matched directly
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		matches[start] = start;
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+		matches[endA] = endB;
+	}
+
+	const rows = endA - start;
+	const cols = endB - start;
+	if (rows === 0 || cols === 0 || (rows + 1) * (cols + 1) > MAX_LCS_CELLS) {
+		return matches;
+	}
+
+	// lengths[i][j] = LCS length of a[start + i..endA) and b[start + j..endB)
+	const width = cols + 1;
+	const lengths = new Uint32Array((rows + 1) * width);
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = cols - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				a[start + i] === b[start + j]
+					? lengths[(i + 1) * width + j + 1] + 1
+					: Math.max(
+							lengths[(i + 1) * width + j],
+							lengths[i * width + j + 1],
+						);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < rows && j < cols) {
+		if (a[start + i] === b[start + j]) {
+			matches[start + i] = start + j;
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return matches;
+}
+
+function linesEqual(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -0,0 +1,230 @@
+import { App, Platform, TFile } from "obsidian";
+import S3SyncPlugin from "../../main";
+import { S3Service } from "../../s3/S3Service";
+import { SnapshotFormat } from "../../settings";
+import { computeContentHash } from "../ContentHash";
+import { selectSnapshotsToKeep } from "./SnapshotRetention";
+import { ArchiveEntry, createTarGz, gunzip, readTar } from "./TarArchive";
+
+// Remote folder of the snapshots, hidden from sync by the dot rule
+const SNAPSHOT_FOLDER = ".kisss3/snapshots";
+// Content-addressed file contents of manifest snapshots
+const OBJECTS_FOLDER = `${SNAPSHOT_FOLDER}/objects`;
+// The compressed archive is held in memory until it is uploaded, so
+// larger vaults get manifest snapshots, which upload one file at a time
+const MAX_ARCHIVE_CONTENT_MB = 512;
+
+const SNAPSHOT_EXTENSIONS: Record<SnapshotFormat, string> = {
+	"tar.gz": ".tar.gz",
+	manifest: ".json",
+};
+
+export interface SnapshotInfo {
+	path: string; // Path of the archive or manifest below the remote prefix
+	createdAt: number; // LastModified in milliseconds
+	size?: number;
+	format: SnapshotFormat;
+}
+
+interface SnapshotManifest {
+	version: 1;
+	createdAt: number;
+	files: { [filePath: string]: { hash: string; size: number; mtime: number } };
+}
+
+/**
+ * Creates full-vault snapshots in the remote snapshot folder, either as
+ * compressed tar archive or as manifest of content-addressed files, and
+ * applies the snapshot retention
+ */
+export class SnapshotManager {
+	constructor(
+		private app: App,
+		private plugin: S3SyncPlugin,
+		private s3Service: S3Service,
+	) {}
+
+	/**
+	 * Uploads a snapshot of the given files in the configured format. Mobile
+	 * devices and vaults too large for an archive in memory create a
+	 * manifest snapshot instead of a tar.gz archive.
+	 */
+	async createSnapshot(files: TFile[]): Promise<void> {
+		let format = this.plugin.settings.snapshotFormat;
+		const size = files.reduce((total, file) => total + file.stat.size, 0);
+		if (
+			format === "tar.gz" &&
+			(Platform.isMobile || size > MAX_ARCHIVE_CONTENT_MB * 1024 * 1024)
+		) {
+			format = "manifest";
+		}
+		const name = new Date().toISOString().replace(/[:.]/g, "-");
+		const snapshotPath = `${SNAPSHOT_FOLDER}/${name}${SNAPSHOT_EXTENSIONS[format]}`;
+
+		if (format === "manifest") {
+			await this.s3Service.putFile(
+				snapshotPath,
+				await this.createManifest(files),
+			);
+		} else {
+			await this.s3Service.putFile(
+				snapshotPath,
+				await createTarGz(this.readFiles(files)),
+			);
+		}
+
+		if (this.plugin.settings.enableDebugLogging) {
+			console.log(`S3 Sync: Created snapshot ${snapshotPath} of ${files.length} files (${size} bytes)`);
+		}
+	}
+
+	/**
+	 * Lists the snapshots, newest first
+	 */
+	async listSnapshots(): Promise<SnapshotInfo[]> {
+		const entries = await this.s3Service.listFolder(SNAPSHOT_FOLDER);
+		const snapshots: SnapshotInfo[] = [];
+		for (const entry of entries) {
+			const name = entry.path.substring(SNAPSHOT_FOLDER.length + 1);
+			if (name.includes("/")) continue; // Content-addressed objects
+			const format = (Object.keys(SNAPSHOT_EXTENSIONS) as SnapshotFormat[]).find(
+				(f) => name.endsWith(SNAPSHOT_EXTENSIONS[f]),
+			);
+			if (format) {
+				snapshots.push({
+					path: entry.path,
+					createdAt: entry.mtime,
+					size: entry.size,
+					format,
+				});
+			}
+		}
+		return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+	}
+
+	/**
+	 * Checks if the newest snapshot is older than the snapshot interval
+	 */
+	async isSnapshotDue(): Promise<boolean> {
+		const [newest] = await this.listSnapshots();
+		const intervalMillis =
+			this.plugin.settings.snapshotIntervalHours * 60 * 60 * 1000;
+		return !newest || Date.now() - newest.createdAt >= intervalMillis;
+	}
+
+	/**
+	 * Deletes the snapshots that are not kept by the retention rules, and the
+	 * content-addressed files no remaining manifest refers to
+	 * @returns The number of deleted snapshots
+	 */
+	async applyRetention(): Promise<number> {
+		const snapshots = await this.listSnapshots();
+		const keep = selectSnapshotsToKeep(
+			snapshots.map((s) => s.createdAt),
+			this.plugin.settings.snapshotKeepDaily,
+			this.plugin.settings.snapshotKeepWeekly,
+		);
+
+		const expired = snapshots.filter((s) => !keep.has(s.createdAt));
+		for (const snapshot of expired) {
+			await this.s3Service.deleteRemoteFile(snapshot.path, false);
+		}
+
+		if (expired.some((s) => s.format === "manifest")) {
+			await this.deleteUnreferencedObjects(
+				snapshots.filter((s) => keep.has(s.createdAt)),
+			);
+		}
+		return expired.length;
+	}
+
+	/**
+	 * Downloads a snapshot and returns the files it contains
+	 */
+	async readSnapshot(snapshot: SnapshotInfo): Promise<ArchiveEntry[]> {
+		const data = await this.s3Service.downloadFileAtPath(snapshot.path);
+		if (snapshot.format === "tar.gz") {
+			return readTar(await gunzip(data));
+		}
+
+		const manifest = this.parseManifest(data);
+		const entries: ArchiveEntry[] = [];
+		for (const [path, file] of Object.entries(manifest.files)) {
+			entries.push({
+				path,
+				content: await this.s3Service.downloadFileAtPath(
+					`${OBJECTS_FOLDER}/${file.hash}`,
+				),
+				mtime: file.mtime,
+			});
+		}
+		return entries;
+	}
+
+	/**
+	 * Reads the files for an archive one at a time
+	 */
+	private async *readFiles(files: TFile[]): AsyncGenerator<ArchiveEntry> {
+		for (const file of files) {
+			yield {
+				path: file.path,
+				content: await this.app.vault.readBinary(file),
+				mtime: file.stat.mtime,
+			};
+		}
+	}
+
+	/**
+	 * Uploads the contents not yet stored and returns the manifest
+	 */
+	private async createManifest(files: TFile[]): Promise<ArrayBuffer> {
+		const stored = new Set(
+			(await this.s3Service.listFolder(OBJECTS_FOLDER)).map((entry) =>
+				entry.path.substring(OBJECTS_FOLDER.length + 1),
+			),
+		);
+
+		const manifest: SnapshotManifest = {
+			version: 1,
+			createdAt: Date.now(),
+			files: {},
+		};
+		for (const file of files) {
+			const content = await this.app.vault.readBinary(file);
+			const hash = await computeContentHash(content);
+			if (!stored.has(hash)) {
+				await this.s3Service.putFile(`${OBJECTS_FOLDER}/${hash}`, content);
+				stored.add(hash);
+			}
+			manifest.files[file.path] = {
+				hash,
+				size: content.byteLength,
+				mtime: file.stat.mtime,
+			};
+		}
+		return new TextEncoder().encode(JSON.stringify(manifest)).buffer;
+	}
+
+	private async deleteUnreferencedObjects(
+		remaining: SnapshotInfo[],
+	): Promise<void> {
+		const referenced = new Set<string>();
+		for (const snapshot of remaining.filter((s) => s.format === "manifest")) {
+			const manifest = this.parseManifest(
+				await this.s3Service.downloadFileAtPath(snapshot.path),
+			);
+			Object.values(manifest.files).forEach((f) => referenced.add(f.hash));
+		}
+
+		for (const entry of await this.s3Service.listFolder(OBJECTS_FOLDER)) {
+			const hash = entry.path.substring(OBJECTS_FOLDER.length + 1);
+			if (!referenced.has(hash)) {
+				await this.s3Service.deleteRemoteFile(entry.path, false);
+			}
+		}
+	}
+
+	private parseManifest(data: ArrayBuffer): SnapshotManifest {
+		return JSON.parse(new TextDecoder().decode(data)) as SnapshotManifest;
+	}
+}
@@ -0,0 +1,51 @@
+// Retention of snapshots: the newest snapshot of each of the last N days and
+// of each of the last M weeks is kept, all others are removed. The newest
+// snapshot is always kept, so there is a backup even with 0 days and weeks.
+
+/**
+ * Selects the snapshots to keep
+ * @param timestamps Creation times of the snapshots in milliseconds
+ * @param keepDaily Number of days for which the newest snapshot is kept
+ * @param keepWeekly Number of weeks for which the newest snapshot is kept
+ * @returns The timestamps of the snapshots to keep
+ */
+export function selectSnapshotsToKeep(
+	timestamps: number[],
+	keepDaily: number,
+	keepWeekly: number,
+): Set<number> {
+	const newestFirst = [...timestamps].sort((a, b) => b - a);
+	const keep = new Set<number>(newestFirst.slice(0, 1));
+
+	const keepNewestPerPeriod = (
+		count: number,
+		periodOf: (timestamp: number) => string,
+	) => {
+		const periods = new Set<string>();
+		for (const timestamp of newestFirst) {
+			if (periods.size >= count) break;
+			const period = periodOf(timestamp);
+			if (!periods.has(period)) {
+				periods.add(period);
+				keep.add(timestamp);
+			}
+		}
+	};
+
+	keepNewestPerPeriod(keepDaily, dayOf);
+	keepNewestPerPeriod(keepWeekly, weekOf);
+	return keep;
+}
+
+// Local calendar day, e.g. "2024-3-14"
+function dayOf(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Local calendar week starting on Monday, identified by its Monday
+function weekOf(timestamp: number): string {
+	const date = new Date(timestamp);
+	date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+	return dayOf(date.getTime());
+}
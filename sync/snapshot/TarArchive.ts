@@ -0,0 +1,236 @@
+// Minimal ustar/pax tar writer and reader with gzip compression, used for
+// snapshot archives. Only regular files are written; directories are implied
+// by the file paths.
+
+const BLOCK_SIZE = 512;
+
+export interface ArchiveEntry {
+	path: string;
+	content: ArrayBuffer;
+	mtime: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Packs files into an uncompressed tar archive. Paths that do not fit the
+ * ustar name and prefix fields are stored in a pax extended header.
+ */
+export function createTar(entries: ArchiveEntry[]): ArrayBuffer {
+	const chunks = entries.flatMap((entry) => createEntryBlocks(entry));
+	// End of archive: two empty blocks
+	chunks.push(new Uint8Array(BLOCK_SIZE * 2));
+	return concat(chunks).buffer;
+}
+
+/**
+ * Packs files into a gzip-compressed tar archive. The files are read and
+ * compressed one at a time, so only the compressed archive is held in
+ * memory as a whole.
+ */
+export async function createTarGz(
+	entries: AsyncIterable<ArchiveEntry>,
+): Promise<ArrayBuffer> {
+	const stream = new CompressionStream("gzip");
+	const output = new Response(stream.readable).arrayBuffer();
+	const writer = stream.writable.getWriter();
+	try {
+		for await (const entry of entries) {
+			for (const block of createEntryBlocks(entry)) {
+				await writer.write(block);
+			}
+		}
+		await writer.write(new Uint8Array(BLOCK_SIZE * 2));
+		await writer.close();
+	} catch (error) {
+		await writer.abort(error);
+		await output.catch(() => undefined);
+		throw error;
+	}
+	return output;
+}
+
+/**
+ * Creates the header and padded content blocks of a file. Paths that do not
+ * fit the ustar name and prefix fields are stored in a pax extended header.
+ */
+function createEntryBlocks(entry: ArchiveEntry): Uint8Array<ArrayBuffer>[] {
+	const chunks: Uint8Array<ArrayBuffer>[] = [];
+	const pathBytes = new TextEncoder().encode(entry.path);
+	let name = entry.path;
+	let prefix = "";
+	if (pathBytes.length > 100) {
+		const split = splitUstarPath(entry.path);
+		if (split) {
+			[prefix, name] = split;
+		} else {
+			const record = paxRecord("path", entry.path);
+			chunks.push(
+				createHeader("PaxHeader", "", record.length, entry.mtime, "x"),
+				padToBlock(record),
+			);
+			name = entry.path.substring(0, 100);
+		}
+	}
+	const content = new Uint8Array(entry.content);
+	chunks.push(
+		createHeader(name, prefix, content.length, entry.mtime, "0"),
+		padToBlock(content),
+	);
+	return chunks;
+}
+
+/**
+ * Reads the regular files of a tar archive
+ */
+export function readTar(archive: ArrayBuffer): ArchiveEntry[] {
+	const data = new Uint8Array(archive);
+	const decoder = new TextDecoder();
+	const entries: ArchiveEntry[] = [];
+	let offset = 0;
+	let paxPath: string | null = null;
+
+	while (offset + BLOCK_SIZE <= data.length) {
+		const header = data.subarray(offset, offset + BLOCK_SIZE);
+		if (header.every((byte) => byte === 0)) break;
+
+		const name = readString(header, 0, 100);
+		const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+		const mtime = parseInt(readString(header, 136, 12).trim() || "0", 8);
+		const type = String.fromCharCode(header[156]);
+		const prefix = readString(header, 345, 155);
+		const contentStart = offset + BLOCK_SIZE;
+		const content = data.slice(contentStart, contentStart + size);
+		offset = contentStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+		if (type === "x") {
+			paxPath = parsePaxPath(decoder.decode(content));
+			continue;
+		}
+		if (type === "0" || type === "\0") {
+			entries.push({
+				path: paxPath ?? (prefix ? `${prefix}/${name}` : name),
+				content: content.buffer,
+				mtime: mtime * 1000,
+			});
+		}
+		paxPath = null;
+	}
+	return entries;
+}
+
+export async function gzip(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return transform(data, new CompressionStream("gzip"));
+}
+
+export async function gunzip(data: ArrayBuffer): Promise<ArrayBuffer> {
+	return transform(data, new DecompressionStream("gzip"));
+}
+
+async function transform(
+	data: ArrayBuffer,
+	stream: CompressionStream | DecompressionStream,
+): Promise<ArrayBuffer> {
+	const output = new Blob([data]).stream().pipeThrough(stream);
+	return new Response(output).arrayBuffer();
+}
+
+/**
+ * Splits a path at a slash into a ustar prefix (max. 155 bytes) and name
+ * (max. 100 bytes), or returns null if that is not possible
+ */
+function splitUstarPath(path: string): [string, string] | null {
+	const encoder = new TextEncoder();
+	for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+		const prefix = path.substring(0, i);
+		const name = path.substring(i + 1);
+		if (
+			encoder.encode(prefix).length <= 155 &&
+			encoder.encode(name).length <= 100
+		) {
+			return [prefix, name];
+		}
+	}
+	return null;
+}
+
+function createHeader(
+	name: string,
+	prefix: string,
+	size: number,
+	mtime: number,
+	type: string,
+): Uint8Array<ArrayBuffer> {
+	const header = new Uint8Array(BLOCK_SIZE);
+	writeString(header, 0, 100, name);
+	writeString(header, 100, 8, "0000644");
+	writeString(header, 108, 8, "0000000");
+	writeString(header, 116, 8, "0000000");
+	writeString(header, 124, 12, size.toString(8).padStart(11, "0"));
+	writeString(
+		header,
+		136,
+		12,
+		Math.floor(mtime / 1000).toString(8).padStart(11, "0"),
+	);
+	writeString(header, 156, 1, type);
+	writeString(header, 257, 6, "ustar");
+	writeString(header, 263, 2, "00");
+	writeString(header, 345, 155, prefix);
+
+	// The checksum is computed with the checksum field set to spaces
+	header.fill(32, 148, 156);
+	const checksum = header.reduce((sum, byte) => sum + byte, 0);
+	writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+	return header;
+}
+
+function paxRecord(key: string, value: string): Uint8Array {
+	// Each record is "<length> <key>=<value>\n", the length includes itself
+	const body = ` ${key}=${value}\n`;
+	const bodyLength = new TextEncoder().encode(body).length;
+	let length = bodyLength + 1;
+	while (`${length}`.length + bodyLength !== length) {
+		length = `${length}`.length + bodyLength;
+	}
+	return new TextEncoder().encode(`${length}${body}`);
+}
+
+function parsePaxPath(records: string): string | null {
+	for (const record of records.split("\n")) {
+		const match = record.match(/^\d+ path=(.*)$/);
+		if (match) return match[1];
+	}
+	return null;
+}
+
+function writeString(
+	target: Uint8Array,
+	offset: number,
+	length: number,
+	value: string,
+) {
+	target.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
+
+function readString(source: Uint8Array, offset: number, length: number): string {
+	const field = source.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function padToBlock(data: Uint8Array): Uint8Array<ArrayBuffer> {
+	const padded = new Uint8Array(Math.ceil(data.length / BLOCK_SIZE) * BLOCK_SIZE);
+	padded.set(data);
+	return padded;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+	const result = new Uint8Array(
+		chunks.reduce((total, chunk) => total + chunk.length, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
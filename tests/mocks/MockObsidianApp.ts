@@ -1,4 +1,4 @@
-import { TFile, TFolder, FileStats } from 'obsidian';
+import { App, CachedMetadata, TFile, TFolder, FileStats } from 'obsidian';
 
 // Mock interfaces for Obsidian API
 export interface MockFileStats extends FileStats {
@@ -47,6 +47,8 @@ export class MockTFolder implements TFolder {
 }
 
 export class MockVault {
+  public configDir = '.obsidian';
+  public adapter = new MockDataAdapter();
   private files: Map<string, MockTFile> = new Map();
   private folders: Map<string, MockTFolder> = new Map();
   private fileContents: Map<string, ArrayBuffer> = new Map();
@@ -111,6 +113,40 @@ export class MockVault {
     }
   }
 
+  // Moves files to the adapter's .trash folder, like Obsidian's vault trash
+  async trash(file: TFile | TFolder, system: boolean): Promise<void> {
+    if (file instanceof MockTFile && !system) {
+      const content = this.fileContents.get(file.path) ?? new ArrayBuffer(0);
+      let trashPath = `.trash/${file.name}`;
+      for (let i = 1; await this.adapter.exists(trashPath); i++) {
+        trashPath = `.trash/${file.basename} ${i}.${file.extension}`;
+      }
+      await this.adapter.mkdir('.trash');
+      await this.adapter.writeBinary(trashPath, content);
+    }
+    await this.delete(file);
+  }
+
+  async rename(file: TFile | TFolder, newPath: string): Promise<void> {
+    if (file instanceof MockTFile) {
+      const content = this.fileContents.get(file.path) ?? new ArrayBuffer(0);
+      this.removeFile(file.path);
+      // Keep the same object, like Obsidian does
+      Object.assign(file, new MockTFile(newPath, file.stat.mtime, content));
+      this.files.set(newPath, file);
+      this.fileContents.set(newPath, content);
+    } else if (file instanceof MockTFolder) {
+      const oldPath = file.path;
+      const children = Array.from(this.files.values()).filter((f) => f.path.startsWith(`${oldPath}/`));
+      for (const child of children) {
+        await this.rename(child, `${newPath}${child.path.substring(oldPath.length)}`);
+      }
+      this.folders.delete(oldPath);
+      Object.assign(file, new MockTFolder(newPath));
+      this.folders.set(newPath, file);
+    }
+  }
+
   async createFolder(path: string): Promise<TFolder> {
     const folder = new MockTFolder(path);
     this.folders.set(path, folder);
@@ -118,10 +154,169 @@ export class MockVault {
   }
 }
 
+// In-memory implementation of the vault's DataAdapter (used for plugin files)
+export class MockDataAdapter {
+  private files: Map<string, string | ArrayBuffer> = new Map();
+  private mtimes: Map<string, number> = new Map();
+  private folders: Set<string> = new Set();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.getFolderPaths().includes(path);
+  }
+
+  async read(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return typeof content === 'string' ? content : new TextDecoder().decode(content);
+  }
+
+  async write(path: string, data: string, options?: { mtime?: number }): Promise<void> {
+    this.files.set(path, data);
+    this.mtimes.set(path, options?.mtime ?? Date.now());
+  }
+
+  async appendBinary(path: string, data: ArrayBuffer, options?: { mtime?: number }): Promise<void> {
+    const existing = new Uint8Array(await this.readBinary(path));
+    const joined = new Uint8Array(existing.length + data.byteLength);
+    joined.set(existing);
+    joined.set(new Uint8Array(data), existing.length);
+    await this.writeBinary(path, joined.buffer, options);
+  }
+
+  async readBinary(path: string): Promise<ArrayBuffer> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return typeof content === 'string' ? new TextEncoder().encode(content).buffer : content;
+  }
+
+  async writeBinary(path: string, data: ArrayBuffer, options?: { mtime?: number }): Promise<void> {
+    this.files.set(path, data);
+    this.mtimes.set(path, options?.mtime ?? Date.now());
+  }
+
+  async stat(path: string): Promise<{ type: 'file' | 'folder'; ctime: number; mtime: number; size: number } | null> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      return this.folders.has(path) ? { type: 'folder', ctime: 0, mtime: 0, size: 0 } : null;
+    }
+    const mtime = this.mtimes.get(path) ?? Date.now();
+    const size = typeof content === 'string' ? new TextEncoder().encode(content).byteLength : content.byteLength;
+    return { type: 'file', ctime: mtime, mtime, size };
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(path);
+    this.mtimes.delete(path);
+  }
+
+  async rename(path: string, newPath: string): Promise<void> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    this.files.set(newPath, content);
+    this.mtimes.set(newPath, this.mtimes.get(path) ?? Date.now());
+    await this.remove(path);
+  }
+
+  async trashLocal(path: string): Promise<void> {
+    const content = this.files.get(path);
+    if (content !== undefined) {
+      this.folders.add('.trash');
+      this.files.set(`.trash/${path.split('/').pop()}`, content);
+    }
+    await this.remove(path);
+  }
+
+  async trashSystem(path: string): Promise<boolean> {
+    await this.remove(path);
+    return true;
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.folders.add(path);
+  }
+
+  async rmdir(path: string, recursive: boolean): Promise<void> {
+    const contained = (p: string) => p.startsWith(`${path}/`);
+    if (!recursive && Array.from(this.files.keys()).some(contained)) {
+      throw new Error(`Folder not empty: ${path}`);
+    }
+    for (const filePath of Array.from(this.files.keys()).filter(contained)) {
+      await this.remove(filePath);
+    }
+    for (const folder of Array.from(this.folders)) {
+      if (folder === path || contained(folder)) {
+        this.folders.delete(folder);
+      }
+    }
+  }
+
+  async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+    const isChild = (p: string) =>
+      p.startsWith(`${path}/`) && !p.substring(path.length + 1).includes('/');
+    return {
+      files: Array.from(this.files.keys()).filter(isChild),
+      folders: this.getFolderPaths().filter(isChild),
+    };
+  }
+
+  // Created folders and the parent folders of all files
+  private getFolderPaths(): string[] {
+    const folders = new Set(this.folders);
+    for (const filePath of this.files.keys()) {
+      const parts = filePath.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        folders.add(parts.slice(0, i).join('/'));
+      }
+    }
+    return Array.from(folders);
+  }
+
+  getFilePaths(): string[] {
+    return Array.from(this.files.keys());
+  }
+}
+
+// Metadata cache that has indexed every file without metadata, unless set
+export class MockMetadataCache {
+  private caches: Map<string, CachedMetadata | null> = new Map();
+
+  setFileCache(path: string, cache: CachedMetadata | null): void {
+    this.caches.set(path, cache);
+  }
+
+  getFileCache(file: TFile): CachedMetadata | null {
+    return this.caches.has(file.path) ? this.caches.get(file.path)! : {};
+  }
+}
+
+// Renames through the vault; links are not updated in the mock
+export class MockFileManager {
+  constructor(private vault: MockVault) {}
+
+  async renameFile(file: TFile | TFolder, newPath: string): Promise<void> {
+    await this.vault.rename(file, newPath);
+  }
+}
+
 export class MockApp {
   public vault: MockVault;
+  public metadataCache: MockMetadataCache;
+  public fileManager: MockFileManager;
 
   constructor() {
     this.vault = new MockVault();
+    this.metadataCache = new MockMetadataCache();
+    this.fileManager = new MockFileManager(this.vault);
+  }
+
+  // Typed view of the mock, for code under test that takes the app
+  asApp(): App {
+    return this as unknown as App;
   }
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
-import { S3SyncSettings } from '../../settings';
+import S3SyncPlugin from '../../main';
+import { S3SyncSettings, DEFAULT_SETTINGS } from '../../settings';
+import { MockDataAdapter } from './MockObsidianApp';
 
 export class MockPlugin {
   public settings: S3SyncSettings = {
+    ...DEFAULT_SETTINGS,
     accessKeyId: 'test-access-key',
     secretAccessKey: 'test-secret-key',
     bucketName: 'test-bucket',
@@ -13,6 +16,15 @@ export class MockPlugin {
     enableDebugLogging: false,
   };
 
+  public app = {
+    vault: { configDir: '.obsidian', adapter: new MockDataAdapter() },
+  };
+
+  public manifest: { id: string; dir?: string } = {
+    id: 'kisss3',
+    dir: '.obsidian/plugins/kisss3',
+  };
+
   private pluginData: any = {};
 
   constructor(settings?: Partial<S3SyncSettings>) {
@@ -30,6 +42,10 @@ export class MockPlugin {
     return Promise.resolve();
   }
 
+  async saveSettings(): Promise<void> {
+    this.pluginData = { ...this.pluginData, ...this.settings };
+  }
+
   setPluginData(data: any): void {
     this.pluginData = data;
   }
@@ -41,4 +57,9 @@ export class MockPlugin {
   clearData(): void {
     this.pluginData = {};
   }
+
+  // Typed view of the mock, for code under test that takes the plugin
+  asPlugin(): S3SyncPlugin {
+    return this as unknown as S3SyncPlugin;
+  }
 }
\ No newline at end of file
@@ -1,16 +1,35 @@
 import { _Object as S3Object } from '@aws-sdk/client-s3';
 import { TFile } from 'obsidian';
+import {
+  ManifestListing,
+  PublishedChanges,
+  RemoteFileMetadata,
+  RemoteFileVersion,
+  RemoteFolderEntry,
+  RemoteTrashEntry,
+  S3Service,
+} from '../../s3/S3Service';
+import { computeContentHash } from '../../sync/ContentHash';
+import { computeMd5 } from '../../sync/IncrementalHash';
+import { IGNORE_FILE } from '../../sync/IgnoreRules';
+import { SyncManager } from '../../sync/SyncManager';
 
 export interface MockS3Object {
   Key: string;
   LastModified: Date;
   Size?: number;
   content: ArrayBuffer;
+  uploadedElsewhere?: boolean; // Without a stored hash, like uploads by other tools
 }
 
 export class MockS3Service {
   private objects: Map<string, MockS3Object> = new Map();
+  private versions: Map<string, MockS3Object[]> = new Map();
+  private deleteMarkers: Map<string, Date[]> = new Map();
   private configured = true;
+  private manifestWrites = 0; // Used as the manifest ETag
+  private manifestAvailable = true;
+  private unpublishedChanges = false;
   private settings: any = {
     bucketName: 'test-bucket',
     remotePrefix: '',
@@ -23,6 +42,17 @@ export class MockS3Service {
     }
   }
 
+  // Replaces the S3 service of a sync manager with this mock
+  attachTo(syncManager: SyncManager): this {
+    syncManager['s3Service'] = this.asS3Service();
+    return this;
+  }
+
+  // Typed view of the mock, for code under test that takes the S3 service
+  asS3Service(): S3Service {
+    return this as unknown as S3Service;
+  }
+
   // Mock configuration
   isConfigured(): boolean {
     return this.configured;
@@ -32,24 +62,43 @@ export class MockS3Service {
     this.configured = configured;
   }
 
+  // Simulates a missing or inconsistent manifest
+  setManifestAvailable(available: boolean): void {
+    this.manifestAvailable = available;
+  }
+
   updateSettings(settings: any): void {
     this.settings = { ...this.settings, ...settings };
   }
 
-  // Helper methods for test setup
-  addRemoteFile(path: string, lastModified: Date, content: ArrayBuffer = new ArrayBuffer(0)): void {
+  // Helper methods for test setup, changes made and published by another device
+  addRemoteFile(
+    path: string,
+    lastModified: Date,
+    content: ArrayBuffer = new ArrayBuffer(0),
+    uploadedElsewhere = false,
+  ): void {
     const key = this.getRemoteKey(path);
-    this.objects.set(key, {
+    this.putObject({
       Key: key,
       LastModified: lastModified,
       Size: content.byteLength,
       content: content,
+      uploadedElsewhere,
     });
+    this.manifestWrites++;
+  }
+
+  // Stores an object and keeps it as a version, like a versioned bucket
+  private putObject(mockObj: MockS3Object): void {
+    this.objects.set(mockObj.Key, mockObj);
+    this.versions.set(mockObj.Key, [...(this.versions.get(mockObj.Key) ?? []), mockObj]);
   }
 
   removeRemoteFile(path: string): void {
     const key = this.getRemoteKey(path);
     this.objects.delete(key);
+    this.manifestWrites++;
   }
 
   clearRemoteFiles(): void {
@@ -78,6 +127,9 @@ export class MockS3Service {
   }
 
   private shouldIgnoreFile(filePath: string): boolean {
+    if (filePath === IGNORE_FILE || (this.settings.enableConfigSync && filePath.startsWith('.obsidian/'))) {
+      return false;
+    }
     return filePath.split('/').some(part => part.startsWith('.'));
   }
 
@@ -100,25 +152,37 @@ export class MockS3Service {
     return remoteFiles;
   }
 
-  async uploadFile(file: TFile, content: ArrayBuffer): Promise<number> {
+  async uploadFile(file: TFile, content: ArrayBuffer): Promise<RemoteFileMetadata> {
+    return this.putFile(file.path, content);
+  }
+
+  async putFile(filePath: string, content: ArrayBuffer): Promise<RemoteFileMetadata> {
     if (!this.configured) {
       throw new Error('S3 client not configured.');
     }
 
-    const key = this.getRemoteKey(file.path);
+    const key = this.getRemoteKey(filePath);
     const lastModified = new Date();
+    this.noteChange(filePath);
     
-    this.objects.set(key, {
+    this.putObject({
       Key: key,
       LastModified: lastModified,
       Size: content.byteLength,
       content: content,
     });
 
-    return lastModified.getTime();
+    return {
+      mtime: lastModified.getTime(),
+      size: content.byteLength,
+      hash: await computeContentHash(content),
+    };
   }
 
-  async downloadFile(s3Object: S3Object): Promise<ArrayBuffer> {
+  async downloadFile(
+    s3Object: S3Object,
+    _onProgress?: (received: number, total: number) => void,
+  ): Promise<ArrayBuffer> {
     if (!this.configured) {
       throw new Error('S3 client not configured.');
     }
@@ -131,13 +195,191 @@ export class MockS3Service {
     return mockObj.content;
   }
 
-  async deleteRemoteFile(path: string): Promise<void> {
+  async downloadFileTo(
+    _s3Object: S3Object,
+    _filePath: string,
+    _mtime: number,
+    _onProgress?: (received: number, total: number) => void,
+  ): Promise<{ size: number; hash: string } | null> {
+    // Files are written through the vault, as on apps that cannot append
+    return null;
+  }
+
+  async downloadFileAtPath(filePath: string): Promise<ArrayBuffer> {
+    return this.downloadFile({ Key: this.getRemoteKey(filePath) });
+  }
+
+  async listFolder(folder: string): Promise<RemoteFolderEntry[]> {
+    const prefix = this.getRemoteKey(`${folder}/`);
+    return Array.from(this.objects.values())
+      .filter((mockObj) => mockObj.Key.startsWith(prefix))
+      .map((mockObj) => ({
+        key: mockObj.Key,
+        path: this.getLocalPath(mockObj.Key),
+        mtime: mockObj.LastModified.getTime(),
+        size: mockObj.Size,
+      }));
+  }
+
+  async deleteRemoteFile(path: string, useTrash = true): Promise<void> {
     if (!this.configured) {
       throw new Error('S3 client not configured.');
     }
 
     const key = this.getRemoteKey(path);
+    const mockObj = this.objects.get(key);
+    if (mockObj && useTrash && this.settings.enableRemoteTrash) {
+      const trashKey = this.getRemoteKey(`.trash/${Date.now()}/${path}`);
+      this.objects.set(trashKey, { ...mockObj, Key: trashKey, LastModified: new Date() });
+    }
     this.objects.delete(key);
+    this.deleteMarkers.set(key, [...(this.deleteMarkers.get(key) ?? []), new Date()]);
+    this.noteChange(path);
+  }
+
+  async listRemoteFilesAt(paths: string[]): Promise<Map<string, S3Object>> {
+    const remoteFiles = new Map<string, S3Object>();
+    for (const path of paths) {
+      const mockObj = this.objects.get(this.getRemoteKey(path));
+      if (mockObj) {
+        remoteFiles.set(path, { Key: mockObj.Key, LastModified: mockObj.LastModified, Size: mockObj.Size });
+      }
+    }
+    return remoteFiles;
+  }
+
+  // The manifest always lists the current objects
+  async readManifest(): Promise<ManifestListing> {
+    if (!this.manifestAvailable) {
+      return { etag: '', files: null };
+    }
+    const files = new Map<string, S3Object>();
+    for (const [key, mockObj] of this.objects) {
+      const relativePath = this.getLocalPath(key);
+      if (!this.shouldIgnoreFile(relativePath)) {
+        files.set(relativePath, { Key: key, LastModified: mockObj.LastModified, Size: mockObj.Size });
+      }
+    }
+    return { etag: this.getManifestEtag(), files };
+  }
+
+  async publishChanges(): Promise<PublishedChanges | null> {
+    if (!this.unpublishedChanges) {
+      return null;
+    }
+    const previous = this.getManifestEtag();
+    this.manifestWrites++;
+    this.unpublishedChanges = false;
+    return { previous, current: this.getManifestEtag() };
+  }
+
+  private getManifestEtag(): string {
+    return this.manifestWrites > 0 ? `"${this.manifestWrites}"` : '';
+  }
+
+  private noteChange(filePath: string): void {
+    if (!this.shouldIgnoreFile(filePath)) {
+      this.unpublishedChanges = true;
+    }
+  }
+
+  // Uploads are never split into parts in memory
+  async abortStaleUploads(): Promise<number> {
+    return 0;
+  }
+
+  async discardStaleDownloads(): Promise<number> {
+    return 0;
+  }
+
+  async renameRemoteFile(oldPath: string, newPath: string): Promise<RemoteFileMetadata> {
+    const mockObj = this.objects.get(this.getRemoteKey(oldPath));
+    if (!mockObj) {
+      throw new Error(`File not found: ${oldPath}`);
+    }
+    this.putObject({ ...mockObj, Key: this.getRemoteKey(newPath), LastModified: new Date() });
+    await this.deleteRemoteFile(oldPath, false);
+    return this.headFile(newPath);
+  }
+
+  async headFile(filePath: string, versionId?: string): Promise<RemoteFileMetadata> {
+    const key = this.getRemoteKey(filePath);
+    const mockObj = versionId
+      ? (this.versions.get(key) ?? [])[parseInt(versionId.substring(1), 10) - 1]
+      : this.objects.get(key);
+    if (!mockObj) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    if (mockObj.uploadedElsewhere) {
+      return { mtime: mockObj.LastModified.getTime(), size: mockObj.Size, md5: computeMd5(mockObj.content) };
+    }
+    return {
+      mtime: mockObj.LastModified.getTime(),
+      size: mockObj.Size,
+      hash: await computeContentHash(mockObj.content),
+    };
+  }
+
+  async listVersionsAt(timestamp: number, folder = ''): Promise<Map<string, RemoteFileVersion>> {
+    const result = new Map<string, RemoteFileVersion>();
+    for (const key of this.versions.keys()) {
+      const path = this.getLocalPath(key);
+      if ((folder && !path.startsWith(`${folder}/`)) || this.shouldIgnoreFile(path)) continue;
+
+      const version = (await this.listFileVersions(path)).find((v) => v.mtime <= timestamp);
+      const deletedAfterVersion = (this.deleteMarkers.get(key) ?? []).some(
+        (date) => date.getTime() <= timestamp && (!version || date.getTime() >= version.mtime),
+      );
+      if (version && !deletedAfterVersion) {
+        result.set(path, version);
+      }
+    }
+    return result;
+  }
+
+  async listFileVersions(filePath: string): Promise<RemoteFileVersion[]> {
+    const key = this.getRemoteKey(filePath);
+    const versions = this.versions.get(key) ?? [];
+    return versions
+      .map((mockObj, index) => ({
+        versionId: `v${index + 1}`,
+        mtime: mockObj.LastModified.getTime(),
+        size: mockObj.Size,
+        isLatest: this.objects.get(key) === mockObj,
+      }))
+      .reverse();
+  }
+
+  async downloadFileVersion(filePath: string, versionId: string): Promise<ArrayBuffer> {
+    const versions = this.versions.get(this.getRemoteKey(filePath)) ?? [];
+    const mockObj = versions[parseInt(versionId.substring(1), 10) - 1];
+    if (!mockObj) {
+      throw new Error(`Version not found: ${filePath} ${versionId}`);
+    }
+    return mockObj.content;
+  }
+
+  async listRemoteTrash(): Promise<RemoteTrashEntry[]> {
+    const entries: RemoteTrashEntry[] = [];
+    for (const [key, mockObj] of this.objects) {
+      const match = this.getLocalPath(key).match(/^\.trash\/[^/]+\/(.+)$/);
+      if (match) {
+        entries.push({ key, path: match[1], deletedAt: mockObj.LastModified.getTime(), size: mockObj.Size });
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  async restoreFromTrash(entry: RemoteTrashEntry): Promise<void> {
+    const mockObj = this.objects.get(entry.key)!;
+    const key = this.getRemoteKey(entry.path);
+    this.objects.set(key, { ...mockObj, Key: key });
+    this.objects.delete(entry.key);
+    this.noteChange(entry.path);
+  }
+
+  async deleteTrashEntry(entry: RemoteTrashEntry): Promise<void> {
+    this.objects.delete(entry.key);
   }
 
   async getFileMetadata(filePath: string): Promise<number> {
@@ -6,24 +6,12 @@ export interface FileStats {
   size: number;
 }
 
-export interface TFile {
-  basename: string;
-  extension: string;
-  name: string;
-  parent: TFolder | null;
-  path: string;
-  stat: FileStats;
-  vault: any;
-}
+import { MockTFile, MockTFolder } from './MockObsidianApp';
 
-export interface TFolder {
-  children: (TFile | TFolder)[];
-  name: string;
-  parent: TFolder | null;
-  path: string;
-  vault: any;
-  isRoot(): boolean;
-}
+// Runtime classes so that `instanceof TFile` / `instanceof TFolder` work
+export { MockTFile as TFile, MockTFolder as TFolder };
+type TFile = MockTFile;
+type TFolder = MockTFolder;
 
 export interface App {
   vault: Vault;
@@ -54,5 +42,39 @@ export class Notice {
   }
 }
 
+// Inline tags and frontmatter tags, all with "#"
+export function getAllTags(cache: any): string[] | null {
+  const tags: string[] = (cache.tags ?? []).map((t: { tag: string }) => t.tag);
+  const frontmatterTags = cache.frontmatter?.tags;
+  const list = typeof frontmatterTags === 'string' ? frontmatterTags.split(/[, ]+/) : frontmatterTags ?? [];
+  for (const tag of list) {
+    if (tag) tags.push(tag.startsWith('#') ? tag : `#${tag}`);
+  }
+  return tags;
+}
+
+// Desktop unless a test sets isMobile
+export const Platform = {
+  isMobile: false,
+};
+
+export function normalizePath(path: string): string {
+  return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export class Modal {
+  public contentEl: any = {};
+
+  constructor(public app: App) {}
+
+  open(): void {
+    // Mock implementation
+  }
+
+  close(): void {
+    // Mock implementation
+  }
+}
+
 // Export everything that might be imported from 'obsidian'
 export * from './MockObsidianApp';
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ManifestChangeStore } from '../../s3/ManifestChangeStore';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('ManifestChangeStore', () => {
+  const entry = { mtime: 1000, size: 3, etag: '"a"' };
+  let mockApp: MockApp;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+  });
+
+  test('Keeps unpublished changes across restarts', async () => {
+    const store = new ManifestChangeStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    await Promise.all([store.set('a.md', entry), store.set('b.md', null)]);
+
+    const restarted = new ManifestChangeStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    expect(await restarted.entries()).toEqual(new Map([['a.md', entry], ['b.md', null]]));
+    expect(await mockApp.vault.adapter.exists('.obsidian/plugins/kisss3/manifest-changes.json')).toBe(true);
+  });
+
+  test('Forgets published changes, unless the file changed again', async () => {
+    const store = new ManifestChangeStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    await store.set('a.md', entry);
+    await store.set('b.md', entry);
+    const published = await store.entries();
+    await store.set('b.md', { ...entry, mtime: 2000 });
+
+    await store.removePublished(published);
+
+    expect(await store.entries()).toEqual(new Map([['b.md', { ...entry, mtime: 2000 }]]));
+  });
+});
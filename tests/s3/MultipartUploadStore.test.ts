@@ -0,0 +1,37 @@
+import { MultipartUploadStore } from '../../s3/MultipartUploadStore';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('MultipartUploadStore', () => {
+  const upload = {
+    uploadId: 'u1',
+    hash: 'h',
+    partSize: 8 * 1024 * 1024,
+    parts: [{ partNumber: 1, etag: '"p1"' }],
+    startedAt: 1000,
+  };
+  let mockApp: MockApp;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+  });
+
+  test('Keeps pending uploads across restarts', async () => {
+    await new MultipartUploadStore(mockApp.asApp(), new MockPlugin().asPlugin()).set('video.mp4', upload);
+
+    const restarted = new MultipartUploadStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    expect(await restarted.get('video.mp4')).toEqual(upload);
+    expect(await mockApp.vault.adapter.exists('.obsidian/plugins/kisss3/uploads.json')).toBe(true);
+  });
+
+  test('Forgets completed uploads', async () => {
+    const store = new MultipartUploadStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    await Promise.all([store.set('a.pdf', upload), store.set('b.pdf', { ...upload, uploadId: 'u2' })]);
+    expect((await store.entries()).map(([key]) => key)).toEqual(['a.pdf', 'b.pdf']);
+
+    await store.delete('a.pdf');
+
+    const restarted = new MultipartUploadStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    expect((await restarted.entries()).map(([key]) => key)).toEqual(['b.pdf']);
+  });
+});
@@ -0,0 +1,48 @@
+import { PartialDownloadStore } from '../../s3/PartialDownloadStore';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('PartialDownloadStore', () => {
+  const downloadsFolder = '.obsidian/plugins/kisss3/downloads';
+  const chunk = new TextEncoder().encode('chunk').buffer;
+  let mockApp: MockApp;
+  let store: PartialDownloadStore;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+    store = new PartialDownloadStore(mockApp.asApp(), new MockPlugin().asPlugin());
+  });
+
+  test('Keeps downloaded chunks of the same version across restarts', async () => {
+    const download = await store.open('video.mp4', '"v1"', 100, 50);
+    await store.saveChunk(download, 0, chunk);
+
+    const restarted = new PartialDownloadStore(mockApp.asApp(), new MockPlugin().asPlugin());
+    const resumed = await restarted.open('video.mp4', '"v1"', 100, 50);
+    expect(resumed.chunks).toEqual([0]);
+    expect(new TextDecoder().decode(await restarted.readChunk(resumed, 0))).toBe('chunk');
+  });
+
+  test('Starts over if the object changed', async () => {
+    await store.saveChunk(await store.open('video.mp4', '"v1"', 100, 50), 0, chunk);
+
+    const download = await store.open('video.mp4', '"v2"', 100, 50);
+
+    expect(download.chunks).toEqual([]);
+    const { folders } = await mockApp.vault.adapter.list(downloadsFolder);
+    expect(await mockApp.vault.adapter.list(folders[0])).toEqual({
+      files: [`${folders[0]}/download.json`],
+      folders: [],
+    });
+  });
+
+  test('Removes downloads started before the cutoff', async () => {
+    await store.saveChunk(await store.open('old.mp4', '"v1"', 100, 50), 0, chunk);
+    jest.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    await store.open('new.mp4', '"v1"', 100, 50);
+
+    expect(await store.discardOlderThan(Date.now() - 7 * 24 * 60 * 60 * 1000)).toBe(1);
+    expect((await mockApp.vault.adapter.list(downloadsFolder)).folders).toHaveLength(1);
+    expect((await store.open('old.mp4', '"v1"', 100, 50)).chunks).toEqual([]);
+  });
+});
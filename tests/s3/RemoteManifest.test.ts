@@ -0,0 +1,18 @@
+import { parseManifest } from '../../s3/RemoteManifest';
+
+describe('parseManifest', () => {
+  test('Parses a valid manifest', () => {
+    const manifest = { generation: 2, files: { 'a.md': { mtime: 1000, size: 3, etag: '"a"' } } };
+
+    expect(parseManifest(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  test('Rejects manifests that cannot be trusted', () => {
+    expect(parseManifest('{')).toBeNull();
+    expect(parseManifest('null')).toBeNull();
+    expect(parseManifest(JSON.stringify({ files: {} }))).toBeNull();
+    expect(parseManifest(JSON.stringify({ generation: 0, files: {} }))).toBeNull();
+    expect(parseManifest(JSON.stringify({ generation: 1, files: [] }))).toBeNull();
+    expect(parseManifest(JSON.stringify({ generation: 1, files: { 'a.md': { mtime: 1000 } } }))).toBeNull();
+  });
+});
@@ -1,5 +1,7 @@
 import { S3Service } from '../../s3/S3Service';
-import { S3SyncSettings } from '../../settings';
+import { S3SyncSettings, DEFAULT_SETTINGS } from '../../settings';
+import { computeContentHash } from '../../sync/ContentHash';
+import { computeMd5 } from '../../sync/IncrementalHash';
 import { MockTFile } from '../mocks/MockObsidianApp';
 import { MockPlugin } from '../mocks/MockPlugin';
 
@@ -9,6 +11,14 @@ const mockGetObjectCommand = jest.fn();
 const mockPutObjectCommand = jest.fn();
 const mockDeleteObjectCommand = jest.fn();
 const mockHeadObjectCommand = jest.fn();
+const mockCopyObjectCommand = jest.fn();
+const mockListObjectVersionsCommand = jest.fn();
+const mockCreateMultipartUploadCommand = jest.fn();
+const mockUploadPartCommand = jest.fn();
+const mockUploadPartCopyCommand = jest.fn();
+const mockCompleteMultipartUploadCommand = jest.fn();
+const mockAbortMultipartUploadCommand = jest.fn();
+const mockListMultipartUploadsCommand = jest.fn();
 const mockS3ClientSend = jest.fn();
 
 jest.mock('@aws-sdk/client-s3', () => ({
@@ -35,6 +45,38 @@ jest.mock('@aws-sdk/client-s3', () => ({
     mockHeadObjectCommand(params);
     return { params };
   }),
+  CopyObjectCommand: jest.fn().mockImplementation((params) => {
+    mockCopyObjectCommand(params);
+    return { params };
+  }),
+  ListObjectVersionsCommand: jest.fn().mockImplementation((params) => {
+    mockListObjectVersionsCommand(params);
+    return { params };
+  }),
+  CreateMultipartUploadCommand: jest.fn().mockImplementation((params) => {
+    mockCreateMultipartUploadCommand(params);
+    return { params };
+  }),
+  UploadPartCommand: jest.fn().mockImplementation((params) => {
+    mockUploadPartCommand(params);
+    return { params };
+  }),
+  UploadPartCopyCommand: jest.fn().mockImplementation((params) => {
+    mockUploadPartCopyCommand(params);
+    return { params };
+  }),
+  CompleteMultipartUploadCommand: jest.fn().mockImplementation((params) => {
+    mockCompleteMultipartUploadCommand(params);
+    return { params };
+  }),
+  AbortMultipartUploadCommand: jest.fn().mockImplementation((params) => {
+    mockAbortMultipartUploadCommand(params);
+    return { params };
+  }),
+  ListMultipartUploadsCommand: jest.fn().mockImplementation((params) => {
+    mockListMultipartUploadsCommand(params);
+    return { params };
+  }),
 }));
 
 describe('S3Service', () => {
@@ -45,6 +87,7 @@ describe('S3Service', () => {
   beforeEach(() => {
     mockPlugin = new MockPlugin();
     settings = {
+      ...DEFAULT_SETTINGS,
       accessKeyId: 'test-access-key',
       secretAccessKey: 'test-secret-key',
       bucketName: 'test-bucket',
@@ -55,7 +98,7 @@ describe('S3Service', () => {
       enableAutomaticSync: false,
       enableDebugLogging: false,
     };
-    s3Service = new S3Service(settings, mockPlugin as any);
+    s3Service = new S3Service(settings, mockPlugin.asPlugin());
     
     // Clear all mocks
     jest.clearAllMocks();
@@ -71,7 +114,7 @@ describe('S3Service', () => {
         ...settings,
         accessKeyId: '',
       };
-      const incompleteService = new S3Service(incompleteSettings, mockPlugin as any);
+      const incompleteService = new S3Service(incompleteSettings, mockPlugin.asPlugin());
       expect(incompleteService.isConfigured()).toBe(false);
     });
 
@@ -96,7 +139,7 @@ describe('S3Service', () => {
 
   describe('Remote key/path conversion', () => {
     test('Converts local path to remote key without prefix', () => {
-      const service = new S3Service({ ...settings, remotePrefix: '' }, mockPlugin as any);
+      const service = new S3Service({ ...settings, remotePrefix: '' }, mockPlugin.asPlugin());
       
       // Use reflection to test private method behavior through public methods
       mockS3ClientSend.mockResolvedValue({
@@ -111,7 +154,7 @@ describe('S3Service', () => {
     });
 
     test('Converts local path to remote key with prefix', () => {
-      const service = new S3Service({ ...settings, remotePrefix: 'vault' }, mockPlugin as any);
+      const service = new S3Service({ ...settings, remotePrefix: 'vault' }, mockPlugin.asPlugin());
       
       mockS3ClientSend.mockResolvedValue({
         Contents: [],
@@ -125,7 +168,7 @@ describe('S3Service', () => {
     });
 
     test('Converts local path to remote key with prefix ending with slash', () => {
-      const service = new S3Service({ ...settings, remotePrefix: 'vault/' }, mockPlugin as any);
+      const service = new S3Service({ ...settings, remotePrefix: 'vault/' }, mockPlugin.asPlugin());
       
       mockS3ClientSend.mockResolvedValue({
         Contents: [],
@@ -238,11 +281,28 @@ describe('S3Service', () => {
       expect(result.has('folder/.hidden-in-folder.md')).toBe(false);
     });
 
+    test('Includes the ignore file and, if enabled, the configuration folder', async () => {
+      const service = new S3Service({ ...settings, enableConfigSync: true }, mockPlugin.asPlugin());
+      mockS3ClientSend.mockResolvedValue({
+        Contents: [
+          { Key: '.kisss3ignore', LastModified: new Date('2024-01-15T10:00:00Z'), Size: 10 },
+          { Key: '.obsidian/app.json', LastModified: new Date('2024-01-15T10:00:00Z'), Size: 10 },
+          { Key: '.trash/a.md', LastModified: new Date('2024-01-15T10:00:00Z'), Size: 10 },
+        ],
+        IsTruncated: false,
+      });
+
+      const result = await service.listRemoteFiles();
+
+      expect(Array.from(result.keys())).toEqual(['.kisss3ignore', '.obsidian/app.json']);
+      expect((await s3Service.listRemoteFiles()).has('.obsidian/app.json')).toBe(false);
+    });
+
     test('Excludes folder marker objects', async () => {
       const serviceWithPrefix = new S3Service({
         ...settings,
         remotePrefix: 'vault/',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
       
       const mockObjects = [
         {
@@ -284,7 +344,7 @@ describe('S3Service', () => {
       const unconfiguredService = new S3Service({
         ...settings,
         accessKeyId: '',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       await expect(unconfiguredService.listRemoteFiles()).rejects.toThrow('S3 client not configured');
     });
@@ -310,6 +370,10 @@ describe('S3Service', () => {
         Body: expect.any(Uint8Array),
         ContentLength: testContent.byteLength,
         ContentType: 'application/octet-stream',
+        Metadata: {
+          // SHA-256 of 'test content'
+          sha256: '6ae8a75555209fd6c44157c0aed8016e763ff435a19cf186f76863140143ff72',
+        },
       });
 
       expect(mockHeadObjectCommand).toHaveBeenCalledWith({
@@ -317,14 +381,16 @@ describe('S3Service', () => {
         Key: 'test.md',
       });
 
-      expect(result).toBe(mockLastModified.getTime());
+      expect(result.mtime).toBe(mockLastModified.getTime());
+      expect(result.size).toBe(testContent.byteLength);
+      expect(result.hash).toBe('6ae8a75555209fd6c44157c0aed8016e763ff435a19cf186f76863140143ff72');
     });
 
     test('Uploads file with remote prefix', async () => {
       const serviceWithPrefix = new S3Service({
         ...settings,
         remotePrefix: 'vault',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
       
       const testFile = new MockTFile('folder/test.md', Date.now());
       const testContent = new ArrayBuffer(0);
@@ -348,7 +414,7 @@ describe('S3Service', () => {
       const unconfiguredService = new S3Service({
         ...settings,
         accessKeyId: '',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       const testFile = new MockTFile('test.md');
       const testContent = new ArrayBuffer(0);
@@ -411,7 +477,7 @@ describe('S3Service', () => {
       const unconfiguredService = new S3Service({
         ...settings,
         accessKeyId: '',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       const mockS3Object = {
         Key: 'test.md',
@@ -438,7 +504,7 @@ describe('S3Service', () => {
       const serviceWithPrefix = new S3Service({
         ...settings,
         remotePrefix: 'vault/',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       mockS3ClientSend.mockResolvedValue({});
 
@@ -454,12 +520,655 @@ describe('S3Service', () => {
       const unconfiguredService = new S3Service({
         ...settings,
         accessKeyId: '',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       await expect(unconfiguredService.deleteRemoteFile('test.md')).rejects.toThrow('S3 client not configured');
     });
   });
 
+  describe('Remote trash', () => {
+    let trashService: S3Service;
+
+    beforeEach(() => {
+      trashService = new S3Service({
+        ...settings,
+        remotePrefix: 'vault',
+        enableRemoteTrash: true,
+      }, mockPlugin.asPlugin());
+    });
+
+    test('Copies the file into the trash before deleting it', async () => {
+      mockS3ClientSend.mockResolvedValue({});
+
+      await trashService.deleteRemoteFile('folder/my note.md');
+
+      expect(mockCopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: expect.stringMatching(/^vault\/\.trash\/\d{4}-\d{2}-\d{2}T[\d-]+Z\/folder\/my note\.md$/),
+        CopySource: 'test-bucket/vault/folder/my%20note.md',
+      });
+      expect(mockDeleteObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'vault/folder/my note.md',
+      });
+      expect(mockS3ClientSend.mock.calls[1][0].params).toHaveProperty('CopySource');
+    });
+
+    test('Deletes without copy when the trash is disabled', async () => {
+      mockS3ClientSend.mockResolvedValue({});
+
+      await s3Service.deleteRemoteFile('test.md');
+
+      expect(mockCopyObjectCommand).not.toHaveBeenCalled();
+    });
+
+    test('Lists trashed files with their original path, newest first', async () => {
+      mockS3ClientSend.mockResolvedValue({
+        Contents: [
+          { Key: 'vault/.trash/2026-01-01T00-00-00-000Z/old.md', LastModified: new Date(1000), Size: 3 },
+          { Key: 'vault/.trash/2026-01-02T00-00-00-000Z/folder/new.md', LastModified: new Date(2000), Size: 5 },
+        ],
+        IsTruncated: false,
+      });
+
+      const entries = await trashService.listRemoteTrash();
+
+      expect(mockListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'vault/.trash/' }));
+      expect(entries).toEqual([
+        { key: 'vault/.trash/2026-01-02T00-00-00-000Z/folder/new.md', path: 'folder/new.md', deletedAt: 2000, size: 5 },
+        { key: 'vault/.trash/2026-01-01T00-00-00-000Z/old.md', path: 'old.md', deletedAt: 1000, size: 3 },
+      ]);
+    });
+
+    test('Trashed files are not part of the remote listing', async () => {
+      mockS3ClientSend.mockResolvedValue({
+        Contents: [
+          { Key: 'vault/note.md', LastModified: new Date() },
+          { Key: 'vault/.trash/2026-01-01T00-00-00-000Z/old.md', LastModified: new Date() },
+        ],
+        IsTruncated: false,
+      });
+
+      const remoteFiles = await trashService.listRemoteFiles();
+
+      expect(Array.from(remoteFiles.keys())).toEqual(['note.md']);
+    });
+
+    test('Restores a trashed file to its original path', async () => {
+      mockS3ClientSend.mockResolvedValue({});
+
+      await trashService.restoreFromTrash({
+        key: 'vault/.trash/2026-01-01T00-00-00-000Z/old.md',
+        path: 'old.md',
+        deletedAt: 1000,
+      });
+
+      expect(mockCopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'vault/old.md',
+        CopySource: 'test-bucket/vault/.trash/2026-01-01T00-00-00-000Z/old.md',
+      });
+      expect(mockDeleteObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'vault/.trash/2026-01-01T00-00-00-000Z/old.md',
+      });
+    });
+  });
+
+  describe('Rename remote file', () => {
+    test('Copies the file server-side and deletes the old key without a trash copy', async () => {
+      const service = new S3Service({
+        ...settings,
+        remotePrefix: 'vault',
+        enableRemoteTrash: true,
+      }, mockPlugin.asPlugin());
+      mockS3ClientSend.mockResolvedValue({ ETag: '"e1"' });
+
+      const metadata = await service.renameRemoteFile('Inbox/a.png', 'Archive/a.png');
+
+      expect(mockCopyObjectCommand).toHaveBeenCalledTimes(1);
+      expect(mockCopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'vault/Archive/a.png',
+        CopySource: 'test-bucket/vault/Inbox/a.png',
+      });
+      expect(mockDeleteObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'vault/Inbox/a.png',
+      });
+      expect(metadata.etag).toBe('"e1"');
+    });
+
+    test('Copies files above the CopyObject limit in parts of the same version', async () => {
+      const GiB = 1024 * 1024 * 1024;
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"big-1"', ContentLength: 6 * GiB, Metadata: { sha256: 'abc' } })
+        .mockResolvedValueOnce({ UploadId: 'copy-1' })
+        .mockResolvedValue({ CopyPartResult: { ETag: '"part"' }, ETag: '"e2"' });
+
+      await s3Service.renameRemoteFile('video.mp4', 'Archive/video.mp4');
+
+      expect(mockCopyObjectCommand).not.toHaveBeenCalled();
+      expect(mockCreateMultipartUploadCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'Archive/video.mp4', Metadata: { sha256: 'abc' } }),
+      );
+      expect(mockUploadPartCopyCommand.mock.calls.map(([params]) => params.CopySourceRange)).toEqual([
+        `bytes=0-${GiB - 1}`,
+        `bytes=${GiB}-${2 * GiB - 1}`,
+        `bytes=${2 * GiB}-${3 * GiB - 1}`,
+        `bytes=${3 * GiB}-${4 * GiB - 1}`,
+        `bytes=${4 * GiB}-${5 * GiB - 1}`,
+        `bytes=${5 * GiB}-${6 * GiB - 1}`,
+      ]);
+      expect(mockUploadPartCopyCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ CopySource: 'test-bucket/video.mp4', CopySourceIfMatch: '"big-1"', UploadId: 'copy-1' }),
+      );
+      expect(mockCompleteMultipartUploadCommand.mock.calls[0][0].MultipartUpload.Parts).toHaveLength(6);
+      expect(mockDeleteObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'video.mp4' });
+    });
+
+    test('Aborts a copy in parts if the source changes', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"big-1"', ContentLength: 6 * 1024 * 1024 * 1024 })
+        .mockResolvedValueOnce({ UploadId: 'copy-1' })
+        .mockRejectedValueOnce({ name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } })
+        .mockResolvedValue({});
+
+      await expect(s3Service.renameRemoteFile('video.mp4', 'Archive/video.mp4')).rejects.toEqual(
+        expect.objectContaining({ name: 'PreconditionFailed' }),
+      );
+      expect(mockAbortMultipartUploadCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'Archive/video.mp4', UploadId: 'copy-1' }),
+      );
+      expect(mockDeleteObjectCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remote manifest', () => {
+    const notFound = { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } };
+    const body = (manifest: unknown) => ({
+      transformToByteArray: () => Promise.resolve(new TextEncoder().encode(JSON.stringify(manifest))),
+    });
+    const manifest = {
+      generation: 3,
+      files: { 'a.md': { mtime: 1000, size: 3, etag: '"a"', hash: 'h' } },
+    };
+
+    test('Reads the manifest and downloads it again only when it changed', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"m1"', Body: body(manifest) })
+        .mockRejectedValueOnce({ name: 'NotModified', $metadata: { httpStatusCode: 304 } });
+
+      const first = await s3Service.readManifest();
+      const second = await s3Service.readManifest();
+
+      expect(first.etag).toBe('"m1"');
+      expect(first.files?.get('a.md')).toEqual({ Key: 'a.md', LastModified: new Date(1000), Size: 3, ETag: '"a"' });
+      expect(second).toEqual(first);
+      expect(mockGetObjectCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({ Key: '.kisss3/manifest.json', IfNoneMatch: '"m1"' }),
+      );
+    });
+
+    test('Publishes uploads once with a conditional write', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ ETag: '"b"', LastModified: new Date(2000) })
+        .mockResolvedValueOnce({ ETag: '"m1"', Body: body(manifest) })
+        .mockResolvedValueOnce({ ETag: '"m2"' });
+
+      expect(await s3Service.publishChanges()).toBeNull();
+      await s3Service.putFile('b.md', new ArrayBuffer(4));
+
+      expect(await s3Service.publishChanges()).toEqual({ previous: '"m1"', current: '"m2"' });
+      const written = mockPutObjectCommand.mock.calls[1][0];
+      expect(written).toEqual(expect.objectContaining({ Key: '.kisss3/manifest.json', IfMatch: '"m1"' }));
+      expect(JSON.parse(written.Body)).toEqual({
+        generation: 4,
+        files: {
+          'a.md': manifest.files['a.md'],
+          'b.md': expect.objectContaining({ mtime: 2000, size: 4, etag: '"b"', hash: expect.any(String) }),
+        },
+      });
+      expect(await s3Service.publishChanges()).toBeNull();
+    });
+
+    test('Retries when another device wrote the manifest in the meantime', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ ETag: '"b"', LastModified: new Date(2000) })
+        .mockResolvedValueOnce({ ETag: '"m1"', Body: body(manifest) })
+        .mockRejectedValueOnce({ name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } })
+        .mockResolvedValueOnce({ ETag: '"m2"', Body: body({ ...manifest, generation: 4 }) })
+        .mockResolvedValueOnce({ ETag: '"m3"' });
+      await s3Service.putFile('b.md', new ArrayBuffer(4));
+
+      expect(await s3Service.publishChanges()).toEqual({ previous: '"m2"', current: '"m3"' });
+      expect(mockPutObjectCommand).toHaveBeenLastCalledWith(expect.objectContaining({ IfMatch: '"m2"' }));
+      expect(JSON.parse(mockPutObjectCommand.mock.calls[2][0].Body).generation).toBe(5);
+    });
+
+    test('Keeps uploads of an interrupted sync in the manifest until they are published', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ ETag: '"b"', LastModified: new Date(2000) });
+      await s3Service.putFile('b.md', new ArrayBuffer(4));
+
+      // Obsidian closed before publishing, then started again
+      const restarted = new S3Service(settings, mockPlugin.asPlugin());
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"m1"', Body: body(manifest) })
+        .mockRejectedValueOnce({ name: 'NotModified', $metadata: { httpStatusCode: 304 } })
+        .mockResolvedValueOnce({ ETag: '"m2"' });
+      const listing = await restarted.readManifest();
+
+      expect(Array.from(listing.files!.keys())).toEqual(['a.md', 'b.md']);
+      expect(await restarted.publishChanges()).toEqual({ previous: '"m1"', current: '"m2"' });
+      expect(Object.keys(JSON.parse(mockPutObjectCommand.mock.calls[1][0].Body).files)).toEqual(['a.md', 'b.md']);
+      expect(await new S3Service(settings, mockPlugin.asPlugin()).publishChanges()).toBeNull();
+    });
+
+    test('Rebuilds a missing or inconsistent manifest from a listing', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"m1"', Body: { transformToByteArray: () => Promise.resolve(new TextEncoder().encode('{')) } })
+        .mockRejectedValueOnce(notFound)
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'a.md', LastModified: new Date(1000), Size: 3, ETag: '"a"' }],
+          IsTruncated: false,
+        })
+        .mockResolvedValueOnce({ ETag: '"m2"' });
+
+      expect((await s3Service.readManifest()).files).toBeNull();
+
+      expect(await s3Service.publishChanges()).toEqual({ previous: '', current: '"m2"' });
+      const written = mockPutObjectCommand.mock.calls[0][0];
+      expect(written.IfNoneMatch).toBe('*');
+      expect(JSON.parse(written.Body)).toEqual({
+        generation: 1,
+        files: { 'a.md': { mtime: 1000, size: 3, etag: '"a"' } },
+      });
+    });
+
+    test('Looks up only the given files and skips missing ones', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"a"', LastModified: new Date(1000), ContentLength: 3 })
+        .mockRejectedValueOnce({ name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+
+      const remoteFiles = await s3Service.listRemoteFilesAt(['a.md', 'missing.md']);
+
+      expect(mockListObjectsV2Command).not.toHaveBeenCalled();
+      expect(Array.from(remoteFiles.keys())).toEqual(['a.md']);
+      expect(remoteFiles.get('a.md')).toEqual({ Key: 'a.md', LastModified: new Date(1000), Size: 3, ETag: '"a"' });
+    });
+  });
+
+  describe('Multipart uploads', () => {
+    const MiB = 1024 * 1024;
+    const partFailure = { name: 'RequestTimeout', $metadata: { httpStatusCode: 400 } };
+    const head = { ETag: '"multi-2"', LastModified: new Date(1000) };
+    let service: S3Service;
+    let consoleWarn: jest.SpyInstance;
+    // Hashing large content is truly asynchronous, so retries wait on real timers
+    const createService = () => {
+      const multipartService = new S3Service({ ...settings, multipartThresholdMB: 5 }, mockPlugin.asPlugin());
+      Object.assign(multipartService, { PART_RETRY_DELAY_MS: 0 });
+      return multipartService;
+    };
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      service = createService();
+      consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      consoleWarn.mockRestore();
+    });
+
+    test('Uploads files above the threshold in parts', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ UploadId: 'u1' })
+        .mockResolvedValueOnce({ ETag: '"p1"' })
+        .mockResolvedValueOnce({ ETag: '"p2"' })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce(head);
+
+      const metadata = await service.putFile('video.mp4', new ArrayBuffer(9 * MiB));
+
+      expect(mockPutObjectCommand).not.toHaveBeenCalled();
+      expect(mockCreateMultipartUploadCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'video.mp4', Metadata: { sha256: metadata.hash } }),
+      );
+      expect(mockUploadPartCommand.mock.calls.map(([params]) => [params.PartNumber, params.ContentLength])).toEqual([
+        [1, 8 * MiB],
+        [2, MiB],
+      ]);
+      expect(mockCompleteMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining({
+        UploadId: 'u1',
+        MultipartUpload: { Parts: [{ PartNumber: 1, ETag: '"p1"' }, { PartNumber: 2, ETag: '"p2"' }] },
+      }));
+      expect(metadata).toEqual(expect.objectContaining({ etag: '"multi-2"', size: 9 * MiB }));
+    });
+
+    test('Retries a failed part', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ UploadId: 'u1' })
+        .mockRejectedValueOnce(partFailure)
+        .mockResolvedValueOnce({ ETag: '"p1"' })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce(head);
+
+      await service.putFile('video.mp4', new ArrayBuffer(6 * MiB));
+
+      expect(mockUploadPartCommand).toHaveBeenCalledTimes(2);
+      expect(mockCompleteMultipartUploadCommand).toHaveBeenCalledTimes(1);
+    });
+
+    test('Continues an interrupted upload with the missing parts', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ UploadId: 'u1' })
+        .mockResolvedValueOnce({ ETag: '"p1"' })
+        .mockRejectedValueOnce(partFailure)
+        .mockRejectedValueOnce(partFailure)
+        .mockRejectedValueOnce(partFailure);
+      const content = new ArrayBuffer(9 * MiB);
+      await expect(service.putFile('video.mp4', content)).rejects.toEqual(partFailure);
+
+      // A new service, as after restarting Obsidian
+      const restarted = createService();
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ETag: '"p2"' })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce(head);
+      await restarted.putFile('video.mp4', content);
+
+      expect(mockCreateMultipartUploadCommand).toHaveBeenCalledTimes(1);
+      expect(mockUploadPartCommand).toHaveBeenLastCalledWith(expect.objectContaining({ UploadId: 'u1', PartNumber: 2 }));
+      expect(mockCompleteMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining({
+        MultipartUpload: { Parts: [{ PartNumber: 1, ETag: '"p1"' }, { PartNumber: 2, ETag: '"p2"' }] },
+      }));
+    });
+
+    test('Starts over if the file changed since the upload was interrupted', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({ UploadId: 'u1' })
+        .mockRejectedValueOnce(partFailure)
+        .mockRejectedValueOnce(partFailure)
+        .mockRejectedValueOnce(partFailure);
+      await expect(service.putFile('video.mp4', new ArrayBuffer(6 * MiB))).rejects.toEqual(partFailure);
+
+      mockS3ClientSend
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ UploadId: 'u2' })
+        .mockResolvedValueOnce({ ETag: '"p1"' })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce(head);
+      await service.putFile('video.mp4', new ArrayBuffer(7 * MiB));
+
+      expect(mockAbortMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining({ UploadId: 'u1' }));
+      expect(mockCompleteMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining({ UploadId: 'u2' }));
+    });
+
+    test('Aborts uploads started more than a week ago', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({
+          Uploads: [
+            { Key: 'old.mp4', UploadId: 'u1', Initiated: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) },
+            { Key: 'new.mp4', UploadId: 'u2', Initiated: new Date(Date.now() - 60 * 60 * 1000) },
+          ],
+          IsTruncated: false,
+        })
+        .mockResolvedValueOnce({});
+
+      expect(await service.abortStaleUploads()).toBe(1);
+      expect(mockAbortMultipartUploadCommand).toHaveBeenCalledTimes(1);
+      expect(mockAbortMultipartUploadCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'old.mp4', UploadId: 'u1' });
+    });
+  });
+
+  describe('Ranged downloads', () => {
+    const MiB = 1024 * 1024;
+    const rangeFailure = { name: 'RequestTimeout', $metadata: { httpStatusCode: 400 } };
+    const downloadsFolder = '.obsidian/plugins/kisss3/downloads';
+    const content = new Uint8Array(2.5 * MiB).map((_, index) => index % 251);
+    const range = (start: number, end: number) => ({
+      Body: { transformToByteArray: () => Promise.resolve(content.slice(start, end)) },
+    });
+    let hash: string;
+    let service: S3Service;
+    let consoleWarn: jest.SpyInstance;
+    // Hashing large content is truly asynchronous, so retries wait on real timers
+    const createService = () => {
+      const rangedService = new S3Service({ ...settings, rangedDownloadThresholdMB: 1 }, mockPlugin.asPlugin());
+      Object.assign(rangedService, { RANGE_SIZE: MiB, PART_RETRY_DELAY_MS: 0 });
+      return rangedService;
+    };
+    const head = (sha256: string) => ({ ETag: '"big-1"', ContentLength: content.length, Metadata: { sha256 } });
+
+    beforeAll(async () => {
+      hash = await computeContentHash(content.slice().buffer);
+    });
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      service = createService();
+      consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      consoleWarn.mockRestore();
+    });
+
+    test('Downloads files above the threshold in ranges of the same version', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce(head(hash))
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+      const onProgress = jest.fn();
+
+      const downloaded = await service.downloadFile({ Key: 'video.mp4', Size: content.length }, onProgress);
+
+      expect(await computeContentHash(downloaded)).toBe(hash);
+      expect(mockGetObjectCommand.mock.calls.map(([params]) => [params.Range, params.IfMatch])).toEqual([
+        [`bytes=0-${MiB - 1}`, '"big-1"'],
+        [`bytes=${MiB}-${2 * MiB - 1}`, '"big-1"'],
+        [`bytes=${2 * MiB}-${content.length - 1}`, '"big-1"'],
+      ]);
+      expect(onProgress.mock.calls.map(([received]) => received)).toEqual([0, MiB, 2 * MiB, content.length]);
+      expect(await mockPlugin.app.vault.adapter.list(downloadsFolder)).toEqual({ files: [], folders: [] });
+    });
+
+    test('Retries a failed range and continues an interrupted download on the next sync', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce(head(hash))
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockRejectedValueOnce(rangeFailure)
+        .mockRejectedValueOnce(rangeFailure)
+        .mockRejectedValueOnce(rangeFailure);
+      await expect(service.downloadFile({ Key: 'video.mp4', Size: content.length })).rejects.toEqual(rangeFailure);
+
+      // A new service, as after restarting Obsidian
+      const restarted = createService();
+      mockGetObjectCommand.mockClear();
+      mockS3ClientSend
+        .mockResolvedValueOnce(head(hash))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+      const onProgress = jest.fn();
+      const downloaded = await restarted.downloadFile({ Key: 'video.mp4', Size: content.length }, onProgress);
+
+      expect(await computeContentHash(downloaded)).toBe(hash);
+      expect(mockGetObjectCommand.mock.calls.map(([params]) => params.Range)).toEqual([
+        `bytes=${MiB}-${2 * MiB - 1}`,
+        `bytes=${2 * MiB}-${content.length - 1}`,
+      ]);
+      expect(onProgress).toHaveBeenNthCalledWith(1, MiB, content.length);
+    });
+
+    test('Rejects content that does not match its checksum and starts over next time', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce(head('0'.repeat(64)))
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+
+      await expect(service.downloadFile({ Key: 'video.mp4', Size: content.length })).rejects.toThrow(
+        'does not match its checksum',
+      );
+      expect(await mockPlugin.app.vault.adapter.list(downloadsFolder)).toEqual({ files: [], folders: [] });
+    });
+
+    test('Joins the ranges on disk and moves the file into the vault', async () => {
+      const adapter = mockPlugin.app.vault.adapter;
+      await adapter.writeBinary('videos/video.mp4', new ArrayBuffer(4));
+      mockS3ClientSend
+        .mockResolvedValueOnce(head(hash))
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+      const mtime = new Date('2024-01-10T10:00:00Z').getTime();
+
+      const downloaded = await service.downloadFileTo(
+        { Key: 'video.mp4', Size: content.length },
+        'videos/video.mp4',
+        mtime,
+      );
+
+      expect(downloaded).toEqual({ size: content.length, hash });
+      expect(await computeContentHash(await adapter.readBinary('videos/video.mp4'))).toBe(hash);
+      expect((await adapter.stat('videos/video.mp4'))?.mtime).toBe(mtime);
+      expect(await adapter.list(downloadsFolder)).toEqual({ files: [], folders: [] });
+    });
+
+    test('Checks objects without a stored checksum against an MD5 ETag', async () => {
+      const md5 = computeMd5(content.slice().buffer);
+      const unchecked = { ETag: `"${md5}"`, ContentLength: content.length };
+      mockS3ClientSend
+        .mockResolvedValueOnce({ ...unchecked, ETag: `"${'0'.repeat(32)}"` })
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+      await expect(service.downloadFile({ Key: 'video.mp4', Size: content.length })).rejects.toThrow(
+        'does not match its checksum',
+      );
+
+      mockS3ClientSend
+        .mockResolvedValueOnce(unchecked)
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockResolvedValueOnce(range(MiB, 2 * MiB))
+        .mockResolvedValueOnce(range(2 * MiB, content.length));
+      expect(await computeContentHash(await service.downloadFile({ Key: 'video.mp4', Size: content.length }))).toBe(
+        hash,
+      );
+    });
+
+    test('Discards stored ranges if the file changed during the download', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce(head(hash))
+        .mockResolvedValueOnce(range(0, MiB))
+        .mockRejectedValueOnce({ name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } });
+
+      await expect(service.downloadFile({ Key: 'video.mp4', Size: content.length })).rejects.toEqual(
+        expect.objectContaining({ name: 'PreconditionFailed' }),
+      );
+      expect(mockGetObjectCommand).toHaveBeenCalledTimes(2);
+      expect(await mockPlugin.app.vault.adapter.list(downloadsFolder)).toEqual({ files: [], folders: [] });
+    });
+
+    test('Downloads files of unknown size or below the threshold at once', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce(range(0, 10))
+        .mockResolvedValueOnce(range(0, 10));
+
+      await service.downloadFile({ Key: 'small.pdf', Size: 10 });
+      await service.downloadFile({ Key: 'unknown.pdf' });
+
+      expect(mockHeadObjectCommand).not.toHaveBeenCalled();
+      expect(mockGetObjectCommand.mock.calls.map(([params]) => params.Range)).toEqual([undefined, undefined]);
+    });
+  });
+
+  describe('File versions', () => {
+    test('Lists versions of exactly this file, newest first', async () => {
+      mockS3ClientSend
+        .mockResolvedValueOnce({
+          Versions: [
+            { Key: 'note.md', VersionId: 'v1', LastModified: new Date(1000), Size: 3, ETag: '"a"', IsLatest: false },
+            { Key: 'note.md.bak', VersionId: 'x1', LastModified: new Date(1500), Size: 1 },
+          ],
+          IsTruncated: true,
+          NextKeyMarker: 'note.md',
+          NextVersionIdMarker: 'v1',
+        })
+        .mockResolvedValueOnce({
+          Versions: [
+            { Key: 'note.md', VersionId: 'v2', LastModified: new Date(2000), Size: 5, ETag: '"b"', IsLatest: true },
+          ],
+          IsTruncated: false,
+        });
+
+      const versions = await s3Service.listFileVersions('note.md');
+
+      expect(mockListObjectVersionsCommand).toHaveBeenLastCalledWith(expect.objectContaining({
+        Prefix: 'note.md',
+        KeyMarker: 'note.md',
+        VersionIdMarker: 'v1',
+      }));
+      expect(versions).toEqual([
+        { versionId: 'v2', mtime: 2000, size: 5, etag: '"b"', isLatest: true },
+        { versionId: 'v1', mtime: 1000, size: 3, etag: '"a"', isLatest: false },
+      ]);
+    });
+
+    test('Picks the version current at a point in time per file', async () => {
+      mockS3ClientSend.mockResolvedValue({
+        Versions: [
+          { Key: 'a.md', VersionId: 'a1', LastModified: new Date(1000) },
+          { Key: 'a.md', VersionId: 'a2', LastModified: new Date(3000), IsLatest: true },
+          { Key: 'b.md', VersionId: 'b1', LastModified: new Date(1000) },
+          { Key: 'c.md', VersionId: 'c1', LastModified: new Date(2500) },
+          { Key: '.hidden/d.md', VersionId: 'd1', LastModified: new Date(1000) },
+        ],
+        DeleteMarkers: [
+          { Key: 'b.md', VersionId: 'b2', LastModified: new Date(1500) },
+        ],
+        IsTruncated: false,
+      });
+
+      const versions = await s3Service.listVersionsAt(2000);
+
+      expect(Array.from(versions.keys())).toEqual(['a.md']);
+      expect(versions.get('a.md')!.versionId).toBe('a1');
+    });
+
+    test('Lists versions at a point in time below a folder', async () => {
+      mockS3ClientSend.mockResolvedValue({ Versions: [], IsTruncated: false });
+
+      await s3Service.listVersionsAt(2000, 'Journal');
+
+      expect(mockListObjectVersionsCommand).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'Journal/' }));
+    });
+
+    test('Downloads a specific version', async () => {
+      const testContent = new TextEncoder().encode('old content');
+      mockS3ClientSend.mockResolvedValue({
+        Body: {
+          transformToByteArray: () => Promise.resolve(testContent),
+        },
+      });
+
+      const result = await s3Service.downloadFileVersion('note.md', 'v1');
+
+      expect(mockGetObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'note.md',
+        VersionId: 'v1',
+      });
+      expect(new Uint8Array(result)).toEqual(testContent);
+    });
+  });
+
   describe('Get file metadata', () => {
     test('Gets metadata successfully', async () => {
       const mockLastModified = new Date('2024-01-15T10:05:00Z');
@@ -497,19 +1206,68 @@ describe('S3Service', () => {
       const unconfiguredService = new S3Service({
         ...settings,
         accessKeyId: '',
-      }, mockPlugin as any);
+      }, mockPlugin.asPlugin());
 
       await expect(unconfiguredService.getFileMetadata('test.md')).rejects.toThrow('S3 client not configured');
     });
   });
 
+  describe('Head file', () => {
+    test('Returns mtime, size, ETag and stored hash', async () => {
+      const mockLastModified = new Date('2024-01-15T10:05:00Z');
+
+      mockS3ClientSend.mockResolvedValue({
+        LastModified: mockLastModified,
+        ContentLength: 12,
+        ETag: '"abc123"',
+        Metadata: { sha256: 'deadbeef' },
+      });
+
+      const result = await s3Service.headFile('test.md');
+
+      expect(mockHeadObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'test.md',
+      });
+      expect(result).toEqual({
+        mtime: mockLastModified.getTime(),
+        size: 12,
+        etag: '"abc123"',
+        hash: 'deadbeef',
+      });
+    });
+
+    test('Returns undefined hash for objects uploaded without metadata', async () => {
+      mockS3ClientSend.mockResolvedValue({
+        LastModified: new Date('2024-01-15T10:05:00Z'),
+        ContentLength: 12,
+      });
+
+      const result = await s3Service.headFile('test.md');
+
+      expect(result.hash).toBeUndefined();
+    });
+
+    test('Returns the MD5 of single-part ETags only', async () => {
+      const md5 = '0123456789abcdef0123456789abcdef';
+      mockS3ClientSend
+        .mockResolvedValueOnce({ LastModified: new Date(), ETag: `"${md5}"` })
+        .mockResolvedValueOnce({ LastModified: new Date(), ETag: `"${md5}-3"` })
+        .mockResolvedValueOnce({ LastModified: new Date(), ETag: `"${md5}"`, ServerSideEncryption: 'aws:kms' });
+
+      expect((await s3Service.headFile('single.md')).md5).toBe(md5);
+      expect((await s3Service.headFile('multipart.mp4')).md5).toBeUndefined();
+      expect((await s3Service.headFile('encrypted.md')).md5).toBeUndefined();
+    });
+  });
+
   describe('Debug logging', () => {
     test('Debug logs are called when enabled', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
       const serviceWithDebug = new S3Service({
         ...settings,
         enableDebugLogging: true,
-      }, { ...mockPlugin, settings: { ...mockPlugin.settings, enableDebugLogging: true } } as any);
+      }, new MockPlugin({ enableDebugLogging: true }).asPlugin());
 
       mockS3ClientSend.mockResolvedValue({
         Contents: [],
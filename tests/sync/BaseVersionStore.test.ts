@@ -0,0 +1,49 @@
+import { BaseVersionStore } from '../../sync/BaseVersionStore';
+import { computeContentHash } from '../../sync/ContentHash';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('BaseVersionStore', () => {
+  let store: BaseVersionStore;
+  let mockApp: MockApp;
+  let mockPlugin: MockPlugin;
+  const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+    mockPlugin = new MockPlugin();
+    store = new BaseVersionStore(mockApp.asApp(), mockPlugin.asPlugin());
+  });
+
+  test('Saves and loads the base of a text file', async () => {
+    await store.save('folder/note.md', encode('base content'));
+
+    expect(await store.load('folder/note.md')).toBe('base content');
+    expect(mockApp.vault.adapter.getFilePaths()[0]).toMatch(/^\.obsidian\/plugins\/kisss3\/bases\/[0-9a-f]{64}$/);
+  });
+
+  test('Does not keep bases of binary files', async () => {
+    await store.save('image.png', encode('binary'));
+
+    expect(await store.load('image.png')).toBeNull();
+    expect(mockApp.vault.adapter.getFilePaths()).toHaveLength(0);
+  });
+
+  test('Returns null when no base exists', async () => {
+    expect(await store.load('missing.md')).toBeNull();
+  });
+
+  test('Ignores a base that does not match the synced hash', async () => {
+    await store.save('note.md', encode('old base'));
+
+    expect(await store.load('note.md', await computeContentHash(encode('old base')))).toBe('old base');
+    expect(await store.load('note.md', await computeContentHash(encode('newer content')))).toBeNull();
+  });
+
+  test('Removes a base', async () => {
+    await store.save('note.md', encode('base'));
+    await store.remove('note.md');
+
+    expect(await store.load('note.md')).toBeNull();
+  });
+});
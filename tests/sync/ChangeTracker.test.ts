@@ -0,0 +1,57 @@
+import { ChangeTracker } from '../../sync/ChangeTracker';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('ChangeTracker', () => {
+  const trackingPath = '.obsidian/plugins/kisss3/changes.json';
+  let mockApp: MockApp;
+  let tracker: ChangeTracker;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+    tracker = new ChangeTracker(mockApp.asApp(), new MockPlugin().asPlugin());
+  });
+
+  test('Saves dirty paths after a short delay', async () => {
+    tracker.markDirty('a.md');
+    tracker.markDirty('b.md');
+    expect(await mockApp.vault.adapter.exists(trackingPath)).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(2000);
+
+    const saved = JSON.parse(await mockApp.vault.adapter.read(trackingPath));
+    expect(saved.dirtyPaths).toEqual(['a.md', 'b.md']);
+  });
+
+  test('Taking the dirty set starts a new one, and a restarted tracker keeps unsynced paths', async () => {
+    tracker.markDirty('a.md');
+    await jest.advanceTimersByTimeAsync(2000);
+    tracker.markDirty('b.md');
+
+    expect(Array.from(await tracker.takeDirtyPaths())).toEqual(['a.md', 'b.md']);
+    expect((await tracker.takeDirtyPaths()).size).toBe(0);
+
+    await tracker.restoreDirtyPaths(['b.md']);
+    const restarted = new ChangeTracker(mockApp.asApp(), new MockPlugin().asPlugin());
+    expect(Array.from(await restarted.takeDirtyPaths())).toEqual(['b.md']);
+  });
+
+  test('A full sync is due at first and again after the interval', async () => {
+    expect(await tracker.isFullSyncDue(24)).toBe(true);
+
+    await tracker.recordFullSync();
+    expect(await tracker.isFullSyncDue(24)).toBe(false);
+
+    jest.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    expect(await tracker.isFullSyncDue(24)).toBe(true);
+  });
+
+  test('Remembers the remote manifest ETag', async () => {
+    expect(await tracker.getManifestEtag()).toBeNull();
+
+    await tracker.setManifestEtag('"etag"');
+
+    const restarted = new ChangeTracker(mockApp.asApp(), new MockPlugin().asPlugin());
+    expect(await restarted.getManifestEtag()).toBe('"etag"');
+  });
+});
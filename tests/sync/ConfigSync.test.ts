@@ -0,0 +1,56 @@
+import { getConfigCategory, isSyncedConfigFile } from '../../sync/ConfigSync';
+import { DEFAULT_SETTINGS } from '../../settings';
+
+describe('ConfigSync', () => {
+  describe('getConfigCategory', () => {
+    test('Files are assigned to their category', () => {
+      expect(getConfigCategory('plugins/dataview/main.js')).toBe('plugins');
+      expect(getConfigCategory('community-plugins.json')).toBe('plugins');
+      expect(getConfigCategory('themes/Minimal/theme.css')).toBe('themes');
+      expect(getConfigCategory('snippets/wide.css')).toBe('snippets');
+      expect(getConfigCategory('hotkeys.json')).toBe('hotkeys');
+      expect(getConfigCategory('app.json')).toBe('core');
+      expect(getConfigCategory('appearance.json')).toBe('core');
+      expect(getConfigCategory('workspace.json')).toBe('workspace');
+      expect(getConfigCategory('workspace-mobile.json')).toBe('workspace');
+    });
+
+    test('Unknown folders and files are not synced', () => {
+      expect(getConfigCategory('cache/index')).toBeNull();
+      expect(getConfigCategory('notes.txt')).toBeNull();
+    });
+  });
+
+  describe('isSyncedConfigFile', () => {
+    const settings = { ...DEFAULT_SETTINGS, enableConfigSync: true };
+    const isSynced = (filePath: string, overrides = {}) =>
+      isSyncedConfigFile(filePath, '.obsidian', '.obsidian/plugins/kisss3', { ...settings, ...overrides });
+
+    test('Nothing is synced unless enabled', () => {
+      expect(isSynced('.obsidian/app.json', { enableConfigSync: false })).toBe(false);
+    });
+
+    test('Workspace files are excluded by default', () => {
+      expect(isSynced('.obsidian/app.json')).toBe(true);
+      expect(isSynced('.obsidian/workspace.json')).toBe(false);
+      expect(isSynced('.obsidian/workspace.json', { configSyncWorkspace: true })).toBe(true);
+    });
+
+    test('Categories can be turned off', () => {
+      expect(isSynced('.obsidian/themes/Minimal/theme.css', { configSyncThemes: false })).toBe(false);
+      expect(isSynced('.obsidian/hotkeys.json', { configSyncHotkeys: false })).toBe(false);
+      expect(isSynced('.obsidian/snippets/wide.css')).toBe(true);
+    });
+
+    test('Only the code of this plugin is synced', () => {
+      expect(isSynced('.obsidian/plugins/kisss3/main.js')).toBe(true);
+      expect(isSynced('.obsidian/plugins/kisss3/data.json')).toBe(false);
+      expect(isSynced('.obsidian/plugins/kisss3/bases/abc')).toBe(false);
+      expect(isSynced('.obsidian/plugins/dataview/data.json')).toBe(true);
+    });
+
+    test('Files outside the configuration folder are not configuration files', () => {
+      expect(isSynced('notes/app.json')).toBe(false);
+    });
+  });
+});
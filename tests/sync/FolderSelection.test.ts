@@ -0,0 +1,33 @@
+import { isInFolders, normalizeFolderSelection } from '../../sync/FolderSelection';
+
+describe('FolderSelection', () => {
+  describe('isInFolders', () => {
+    test('Empty selection includes the whole vault', () => {
+      expect(isInFolders('a/b/c.md', [])).toBe(true);
+    });
+
+    test('Files in selected folders and their subfolders are included', () => {
+      expect(isInFolders('Notes/a.md', ['Notes'])).toBe(true);
+      expect(isInFolders('Notes/2024/a.md', ['Notes'])).toBe(true);
+      expect(isInFolders('Attachments/a.png', ['Notes'])).toBe(false);
+    });
+
+    test('Folder names are matched as whole segments', () => {
+      expect(isInFolders('Notes Archive/a.md', ['Notes'])).toBe(false);
+    });
+
+    test('Files at the vault root are always included', () => {
+      expect(isInFolders('index.md', ['Notes'])).toBe(true);
+      expect(isInFolders('.kisss3ignore', ['Notes'])).toBe(true);
+    });
+  });
+
+  describe('normalizeFolderSelection', () => {
+    test('Drops folders included through a selected parent', () => {
+      expect(normalizeFolderSelection(['Notes/2024', 'Notes', 'Attachments', 'Notes'])).toEqual([
+        'Attachments',
+        'Notes',
+      ]);
+    });
+  });
+});
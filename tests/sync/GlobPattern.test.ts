@@ -0,0 +1,47 @@
+import { globToRegExp, matchesGlob } from '../../sync/GlobPattern';
+
+describe('GlobPattern', () => {
+  describe('globToRegExp', () => {
+    test('Single star does not cross folders', () => {
+      expect(globToRegExp('notes/*.md').test('notes/a.md')).toBe(true);
+      expect(globToRegExp('notes/*.md').test('notes/sub/a.md')).toBe(false);
+    });
+
+    test('Double star matches any number of folders', () => {
+      expect(globToRegExp('notes/**/*.md').test('notes/a.md')).toBe(true);
+      expect(globToRegExp('notes/**/*.md').test('notes/sub/deep/a.md')).toBe(true);
+      expect(globToRegExp('notes/**').test('notes/sub/a.png')).toBe(true);
+    });
+
+    test('Question mark matches a single character', () => {
+      expect(globToRegExp('file?.md').test('file1.md')).toBe(true);
+      expect(globToRegExp('file?.md').test('file10.md')).toBe(false);
+    });
+
+    test('Regex characters are matched literally', () => {
+      expect(globToRegExp('a+b (1).md').test('a+b (1).md')).toBe(true);
+      expect(globToRegExp('a.md').test('axmd')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    test('Folder pattern matches everything inside the folder', () => {
+      expect(matchesGlob('Journal/2024/day.md', 'Journal/')).toBe(true);
+      expect(matchesGlob('Other/Journal/day.md', 'Journal/')).toBe(false);
+    });
+
+    test('Pattern without slash matches the file name in any folder', () => {
+      expect(matchesGlob('a/b/board.canvas', '*.canvas')).toBe(true);
+      expect(matchesGlob('board.canvas.md', '*.canvas')).toBe(false);
+    });
+
+    test('Pattern with slash matches the full path', () => {
+      expect(matchesGlob('a/board.canvas', 'a/*.canvas')).toBe(true);
+      expect(matchesGlob('b/a/board.canvas', 'a/*.canvas')).toBe(false);
+    });
+
+    test('Empty pattern matches nothing', () => {
+      expect(matchesGlob('a.md', '  ')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { IgnoreRules } from '../../sync/IgnoreRules';
+
+describe('IgnoreRules', () => {
+  test('Comments and blank lines are skipped', () => {
+    const rules = new IgnoreRules('# drafts\n\n   \n');
+    expect(rules.isEmpty).toBe(true);
+    expect(rules.isIgnored('drafts/a.md')).toBe(false);
+  });
+
+  test('Pattern without slash matches in any folder', () => {
+    const rules = new IgnoreRules('*.tmp\nscratch.md');
+    expect(rules.isIgnored('a.tmp')).toBe(true);
+    expect(rules.isIgnored('deep/folder/b.tmp')).toBe(true);
+    expect(rules.isIgnored('notes/scratch.md')).toBe(true);
+    expect(rules.isIgnored('notes/scratch.md.bak')).toBe(false);
+  });
+
+  test('Pattern with slash is anchored to the vault root', () => {
+    const rules = new IgnoreRules('/todo.md\nArchive/*.pdf');
+    expect(rules.isIgnored('todo.md')).toBe(true);
+    expect(rules.isIgnored('notes/todo.md')).toBe(false);
+    expect(rules.isIgnored('Archive/a.pdf')).toBe(true);
+    expect(rules.isIgnored('Archive/2024/a.pdf')).toBe(false);
+    expect(rules.isIgnored('Other/Archive/a.pdf')).toBe(false);
+  });
+
+  test('Directory rules match everything inside the folder', () => {
+    const rules = new IgnoreRules('build/\n/Private/');
+    expect(rules.isIgnored('build/out.js')).toBe(true);
+    expect(rules.isIgnored('project/build/deep/out.js')).toBe(true);
+    expect(rules.isIgnored('build')).toBe(false); // A file named like the folder
+    expect(rules.isIgnored('Private/diary.md')).toBe(true);
+    expect(rules.isIgnored('Notes/Private/diary.md')).toBe(false);
+  });
+
+  test('Negation re-includes files and the last matching rule wins', () => {
+    const rules = new IgnoreRules('*.pdf\n!keep.pdf');
+    expect(rules.isIgnored('a.pdf')).toBe(true);
+    expect(rules.isIgnored('docs/keep.pdf')).toBe(false);
+
+    const reversed = new IgnoreRules('!keep.pdf\n*.pdf');
+    expect(reversed.isIgnored('docs/keep.pdf')).toBe(true);
+  });
+
+  test('Files inside an ignored folder cannot be re-included', () => {
+    const rules = new IgnoreRules('Attachments/\n!Attachments/logo.png');
+    expect(rules.isIgnored('Attachments/logo.png')).toBe(true);
+
+    const contents = new IgnoreRules('Attachments/*\n!Attachments/logo.png');
+    expect(contents.isIgnored('Attachments/logo.png')).toBe(false);
+    expect(contents.isIgnored('Attachments/other.png')).toBe(true);
+  });
+
+  test('Escaped characters are matched literally', () => {
+    const rules = new IgnoreRules('\\#hash.md\n\\!bang.md\ntrailing\\ ');
+    expect(rules.isIgnored('#hash.md')).toBe(true);
+    expect(rules.isIgnored('!bang.md')).toBe(true);
+    expect(rules.isIgnored('trailing ')).toBe(true);
+  });
+});
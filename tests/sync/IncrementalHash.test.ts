@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+import { computeMd5, createMd5, createSha256 } from '../../sync/IncrementalHash';
+
+describe('IncrementalHash', () => {
+  const content = new Uint8Array(1000).map((_, index) => (index * 7) % 256);
+  const expected = (algorithm: string, data: Uint8Array) => createHash(algorithm).update(data).digest('hex');
+
+  test('Matches SHA-256 and MD5 for every length around the padding boundaries', () => {
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 128, 1000]) {
+      const data = content.subarray(0, length);
+      expect(createSha256().update(data).digest()).toBe(expected('sha256', data));
+      expect(createMd5().update(data).digest()).toBe(expected('md5', data));
+    }
+  });
+
+  test('Gives the same hash when the content is fed in pieces', () => {
+    const sha256 = createSha256();
+    const md5 = createMd5();
+    for (const [start, end] of [[0, 3], [3, 70], [70, 70], [70, 500], [500, 1000]]) {
+      sha256.update(content.slice(start, end).buffer);
+      md5.update(content.subarray(start, end));
+    }
+
+    expect(sha256.digest()).toBe(expected('sha256', content));
+    expect(md5.digest()).toBe(expected('md5', content));
+  });
+
+  test('Computes the MD5 of a buffer', () => {
+    expect(computeMd5(new TextEncoder().encode('note').buffer)).toBe(expected('md5', new TextEncoder().encode('note')));
+  });
+});
@@ -0,0 +1,41 @@
+import { LivePushQueue } from '../../sync/LivePushQueue';
+
+describe('LivePushQueue', () => {
+  let push: jest.Mock<Promise<string[]>, [string[]]>;
+  let queue: LivePushQueue;
+
+  beforeEach(() => {
+    push = jest.fn(async (_paths: string[]) => [] as string[]);
+    queue = new LivePushQueue(() => 10000, push);
+  });
+
+  test('Pushes once after the quiet period', async () => {
+    queue.add('a.md');
+    await jest.advanceTimersByTimeAsync(9000);
+    queue.add('b.md');
+    queue.add('a.md');
+    await jest.advanceTimersByTimeAsync(9000);
+    expect(push).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(push).toHaveBeenCalledWith(['a.md', 'b.md']);
+  });
+
+  test('Queues paths again that could not be pushed', async () => {
+    push.mockResolvedValueOnce(['a.md']);
+    queue.add('a.md');
+    await jest.advanceTimersByTimeAsync(10000);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(push).toHaveBeenCalledTimes(2);
+    expect(push).toHaveBeenLastCalledWith(['a.md']);
+  });
+
+  test('Cancel drops queued paths', async () => {
+    queue.add('a.md');
+    queue.cancel();
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(push).not.toHaveBeenCalled();
+  });
+});
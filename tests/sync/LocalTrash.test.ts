@@ -0,0 +1,79 @@
+import { LocalTrash } from '../../sync/LocalTrash';
+import { computeContentHash } from '../../sync/ContentHash';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('LocalTrash', () => {
+  let trash: LocalTrash;
+  let mockApp: MockApp;
+  let mockPlugin: MockPlugin;
+  const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+    mockPlugin = new MockPlugin();
+    trash = new LocalTrash(mockApp.asApp(), mockPlugin.asPlugin());
+  });
+
+  test('Moves files to the vault trash by default', async () => {
+    const file = mockApp.vault.addFile('folder/note.md', 1000, encode('note'));
+
+    const record = await trash.deleteFile(file, 'hash');
+
+    expect(record).toMatchObject({ path: 'folder/note.md', mode: 'vault-trash', hash: 'hash' });
+    expect(mockApp.vault.getAbstractFileByPath('folder/note.md')).toBeNull();
+    expect(mockApp.vault.adapter.getFilePaths()).toEqual(['.trash/note.md']);
+  });
+
+  test('Uses the system trash or deletes permanently if configured', async () => {
+    const trashSpy = jest.spyOn(mockApp.vault, 'trash');
+    const deleteSpy = jest.spyOn(mockApp.vault, 'delete');
+    const systemTrashSpy = jest.spyOn(mockApp.vault.adapter, 'trashSystem').mockResolvedValue(true);
+
+    mockPlugin.settings.localDeleteMode = 'system-trash';
+    const record = await trash.deleteFile(mockApp.vault.addFile('a.md'));
+    expect(systemTrashSpy).toHaveBeenCalledWith('a.md');
+    expect(trashSpy).not.toHaveBeenCalled();
+    expect(record.mode).toBe('system-trash');
+
+    mockPlugin.settings.localDeleteMode = 'delete';
+    await trash.deleteFile(mockApp.vault.addFile('b.md'));
+    expect(trashSpy).not.toHaveBeenCalled();
+    expect(deleteSpy).toHaveBeenLastCalledWith(expect.objectContaining({ path: 'b.md' }));
+  });
+
+  test('Records the vault trash if the system trash is not available', async () => {
+    mockPlugin.settings.localDeleteMode = 'system-trash';
+    jest.spyOn(mockApp.vault.adapter, 'trashSystem').mockResolvedValue(false);
+
+    const record = await trash.deleteFile(mockApp.vault.addFile('note.md', 1000, encode('note')));
+
+    expect(record.mode).toBe('vault-trash');
+    expect(mockApp.vault.adapter.getFilePaths()).toEqual(['.trash/note.md']);
+  });
+
+  test('Saves and loads the recorded deletions', async () => {
+    expect(await trash.loadDeletions()).toEqual([]);
+
+    const records = [{ path: 'note.md', deletedAt: 1000, mode: 'vault-trash' as const }];
+    await trash.saveDeletions(records);
+
+    expect(await trash.loadDeletions()).toEqual(records);
+  });
+
+  test('Finds a file in the vault trash by name and hash', async () => {
+    await trash.deleteFile(mockApp.vault.addFile('one/note.md', 1000, encode('first')));
+    await trash.deleteFile(mockApp.vault.addFile('two/note.md', 1000, encode('second')));
+
+    const record = {
+      path: 'two/note.md',
+      deletedAt: 1000,
+      mode: 'vault-trash' as const,
+      hash: await computeContentHash(encode('second')),
+    };
+
+    expect(await trash.findInVaultTrash(record)).toBe('.trash/note 1.md');
+    expect(await trash.findInVaultTrash({ ...record, hash: 'unknown' })).toBeNull();
+    expect(await trash.findInVaultTrash({ ...record, path: 'other.md' })).toBeNull();
+  });
+});
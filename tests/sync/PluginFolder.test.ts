@@ -0,0 +1,72 @@
+import { PluginJsonFile, getPluginDir } from '../../sync/PluginFolder';
+import { MockApp } from '../mocks/MockObsidianApp';
+import { MockPlugin } from '../mocks/MockPlugin';
+
+describe('getPluginDir', () => {
+  test('Uses the folder the plugin was loaded from', () => {
+    expect(getPluginDir(new MockApp().asApp(), new MockPlugin().asPlugin())).toBe('.obsidian/plugins/kisss3');
+  });
+
+  test('Falls back to the plugin id in the configuration folder', () => {
+    const plugin = new MockPlugin();
+    plugin.manifest.dir = undefined;
+
+    expect(getPluginDir(new MockApp().asApp(), plugin.asPlugin())).toBe('.obsidian/plugins/kisss3');
+  });
+});
+
+describe('PluginJsonFile', () => {
+  const path = '.obsidian/plugins/kisss3/data/test.json';
+  let mockApp: MockApp;
+  const createFile = () =>
+    new PluginJsonFile<{ items: string[]; count: number }>(mockApp.asApp(), new MockPlugin().asPlugin(), 'data/test.json', 'test data', () => ({
+      items: [],
+      count: 0,
+    }));
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+  });
+
+  test('Reads the file once and fills in missing fields', async () => {
+    await mockApp.vault.adapter.write(path, JSON.stringify({ items: ['a'] }));
+    const read = jest.spyOn(mockApp.vault.adapter, 'read');
+    const file = createFile();
+
+    const [first, second] = await Promise.all([file.load(), file.load()]);
+
+    expect(first).toBe(second);
+    expect(first).toEqual({ items: ['a'], count: 0 });
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  test('Writes the latest content one write at a time, creating its folder', async () => {
+    const file = createFile();
+    const data = await file.load();
+    let writing = 0;
+    const write = mockApp.vault.adapter.write.bind(mockApp.vault.adapter);
+    jest.spyOn(mockApp.vault.adapter, 'write').mockImplementation(async (writePath, content) => {
+      expect(writing++).toBe(0);
+      await Promise.resolve();
+      await write(writePath, content);
+      writing--;
+    });
+
+    data.count = 1;
+    const saved = file.save();
+    data.items.push('b');
+    await Promise.all([saved, file.save()]);
+
+    expect(await mockApp.vault.adapter.exists('.obsidian/plugins/kisss3/data')).toBe(true);
+    expect(await createFile().load()).toEqual({ items: ['b'], count: 1 });
+  });
+
+  test('Starts with the defaults if the file cannot be read', async () => {
+    await mockApp.vault.adapter.write(path, '{');
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await createFile().load()).toEqual({ items: [], count: 0 });
+    expect(consoleWarn).toHaveBeenCalledWith('S3 Sync: Could not load test data:', expect.any(SyntaxError));
+    consoleWarn.mockRestore();
+  });
+});
@@ -0,0 +1,27 @@
+import { CachedMetadata } from 'obsidian';
+import { isPrivateNote } from '../../sync/PrivateNotes';
+
+describe('PrivateNotes', () => {
+  test('Frontmatter flag kisss3: false makes a note private', () => {
+    expect(isPrivateNote({ frontmatter: { kisss3: false } } as CachedMetadata, '')).toBe(true);
+    expect(isPrivateNote({ frontmatter: { kisss3: 'false' } } as CachedMetadata, '')).toBe(true);
+    expect(isPrivateNote({ frontmatter: { kisss3: true } } as CachedMetadata, '')).toBe(false);
+    expect(isPrivateNote({} as CachedMetadata, '')).toBe(false);
+  });
+
+  test('Inline and frontmatter tags make a note private', () => {
+    expect(isPrivateNote({ tags: [{ tag: '#local-only' }] } as CachedMetadata, '#local-only')).toBe(true);
+    expect(isPrivateNote({ frontmatter: { tags: ['local-only'] } } as CachedMetadata, '#local-only')).toBe(true);
+    expect(isPrivateNote({ tags: [{ tag: '#other' }] } as CachedMetadata, '#local-only')).toBe(false);
+  });
+
+  test('Tags match case-insensitively, with nested tags and without "#"', () => {
+    expect(isPrivateNote({ tags: [{ tag: '#Local-Only' }] } as CachedMetadata, 'local-only')).toBe(true);
+    expect(isPrivateNote({ tags: [{ tag: '#local-only/journal' }] } as CachedMetadata, '#local-only')).toBe(true);
+    expect(isPrivateNote({ tags: [{ tag: '#local-only-not' }] } as CachedMetadata, '#local-only')).toBe(false);
+  });
+
+  test('Empty tag setting only uses the frontmatter', () => {
+    expect(isPrivateNote({ tags: [{ tag: '#local-only' }] } as CachedMetadata, ' ')).toBe(false);
+  });
+});
@@ -17,7 +17,7 @@ describe('SyncDecisionEngine', () => {
 
   beforeEach(() => {
     mockPlugin = new MockPlugin();
-    engine = new SyncDecisionEngine(mockPlugin as any);
+    engine = new SyncDecisionEngine(mockPlugin.asPlugin());
   });
 
   describe('Single-source changes (no conflicts)', () => {
@@ -243,6 +243,12 @@ describe('SyncDecisionEngine', () => {
   });
 
   describe('Conflict resolution: Both sides changed', () => {
+    beforeEach(() => {
+      mockPlugin.settings.conflictPolicy = 'newest-wins';
+      mockPlugin.settings.enableThreeWayMerge = false;
+      mockPlugin.settings.enableFrontmatterMerge = false;
+    });
+
     test('Both created - newer wins by mtime (local newer)', () => {
       const localFiles = new Map<string, LocalFile>([
         ['test.md', { path: 'test.md', mtime: 2000 }]
@@ -350,6 +356,269 @@ describe('SyncDecisionEngine', () => {
     });
   });
 
+  describe('Conflict resolution: Policies', () => {
+    beforeEach(() => {
+      mockPlugin.settings.enableThreeWayMerge = false;
+      mockPlugin.settings.enableFrontmatterMerge = false;
+    });
+
+    const bothModified = () => engine.generateSyncDecisions(
+      new Map<string, LocalFile>([
+        ['notes/test.md', { path: 'notes/test.md', mtime: 3000 }]
+      ]),
+      new Map<string, RemoteFile>([
+        ['notes/test.md', { path: 'notes/test.md', mtime: 2500, key: 'notes/test.md' }]
+      ]),
+      new Map<string, SyncFileState>([
+        ['notes/test.md', { localMtime: 1000, remoteMtime: 1500 }]
+      ]),
+    );
+
+    test('keep-both (default) - should flag a conflict', () => {
+      const decisions = bothModified();
+
+      expect(decisions[0]).toMatchObject({
+        action: SyncAction.CONFLICT,
+        conflictPolicy: 'keep-both'
+      });
+    });
+
+    test('keep-local - should upload', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+
+      expect(bothModified()[0].action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('keep-remote - should download even if local is newer', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-remote';
+
+      expect(bothModified()[0].action).toBe(SyncAction.DOWNLOAD);
+    });
+
+    test('ask - should flag a conflict for the user', () => {
+      mockPlugin.settings.conflictPolicy = 'ask';
+
+      expect(bothModified()[0]).toMatchObject({
+        action: SyncAction.CONFLICT,
+        conflictPolicy: 'ask'
+      });
+    });
+
+    test('Folder override takes precedence over the global policy', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-both';
+      mockPlugin.settings.conflictPolicyOverrides = [
+        { pattern: 'other/', policy: 'keep-local' },
+        { pattern: 'notes/', policy: 'keep-remote' },
+      ];
+
+      expect(bothModified()[0].action).toBe(SyncAction.DOWNLOAD);
+    });
+
+    test('Extension override matches files in any folder', () => {
+      mockPlugin.settings.conflictPolicyOverrides = [
+        { pattern: '*.md', policy: 'keep-local' },
+      ];
+
+      expect(bothModified()[0].action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('Policy does not affect modification vs deletion', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-remote';
+      const decisions = engine.generateSyncDecisions(
+        new Map<string, LocalFile>([
+          ['test.md', { path: 'test.md', mtime: 3000 }]
+        ]),
+        new Map<string, RemoteFile>(),
+        new Map<string, SyncFileState>([
+          ['test.md', { localMtime: 1000, remoteMtime: 1500 }]
+        ]),
+      );
+
+      expect(decisions[0].action).toBe(SyncAction.UPLOAD);
+    });
+  });
+
+  describe('Conflict resolution: Merge', () => {
+    const decide = (filePath: string, localStatus: 'created' | 'modified') => engine.generateSyncDecisions(
+      new Map<string, LocalFile>([
+        [filePath, { path: filePath, mtime: 3000 }]
+      ]),
+      new Map<string, RemoteFile>([
+        [filePath, { path: filePath, mtime: 2500, key: filePath }]
+      ]),
+      localStatus === 'modified'
+        ? new Map<string, SyncFileState>([[filePath, { localMtime: 1000, remoteMtime: 1500 }]])
+        : new Map<string, SyncFileState>(),
+    )[0];
+
+    test('Markdown modified on both sides - should be merged', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+
+      expect(decide('note.md', 'modified')).toMatchObject({
+        action: SyncAction.CONFLICT,
+        conflictPolicy: 'keep-local',
+        mergeStrategy: 'text'
+      });
+    });
+
+    test('Markdown created on both sides - no base, policy applies', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+
+      expect(decide('note.md', 'created').action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('Binary files are not merged', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+
+      expect(decide('image.png', 'modified').action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('Canvas created on both sides - should be merged without base', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+
+      expect(decide('board.canvas', 'created')).toMatchObject({
+        action: SyncAction.CONFLICT,
+        mergeStrategy: 'canvas'
+      });
+    });
+
+    test('Canvas merge can be disabled', () => {
+      mockPlugin.settings.conflictPolicy = 'keep-local';
+      mockPlugin.settings.enableCanvasMerge = false;
+
+      expect(decide('board.canvas', 'modified').action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('Frontmatter merge alone still merges notes', () => {
+      mockPlugin.settings.enableThreeWayMerge = false;
+
+      expect(decide('note.md', 'modified').mergeStrategy).toBe('text');
+    });
+
+    test('Merge can be disabled', () => {
+      mockPlugin.settings.enableThreeWayMerge = false;
+      mockPlugin.settings.enableFrontmatterMerge = false;
+
+      expect(decide('note.md', 'modified').mergeStrategy).toBeUndefined();
+    });
+  });
+
+  describe('Folder selection', () => {
+    beforeEach(() => {
+      mockPlugin.settings.syncFolders = ['Notes'];
+    });
+
+    test('Remote files outside the selected folders are not downloaded', () => {
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Notes/a.md', { path: 'Notes/a.md', mtime: 1000, key: 'Notes/a.md' }],
+        ['Attachments/big.png', { path: 'Attachments/big.png', mtime: 1000, key: 'Attachments/big.png' }],
+        ['root.md', { path: 'root.md', mtime: 1000, key: 'root.md' }],
+      ]);
+
+      const decisions = engine.generateSyncDecisions(new Map(), remoteFiles, new Map());
+
+      expect(decisions.map((d) => d.filePath).sort()).toEqual(['Notes/a.md', 'root.md']);
+      expect(decisions.every((d) => d.action === SyncAction.DOWNLOAD)).toBe(true);
+    });
+
+    test('Locally absent files outside the selection are not deleted remotely', () => {
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Attachments/big.png', { path: 'Attachments/big.png', mtime: 1000, key: 'Attachments/big.png' }],
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['Attachments/big.png', { localMtime: 1000, remoteMtime: 1000 }],
+      ]);
+
+      const decisions = engine.generateSyncDecisions(new Map(), remoteFiles, stateFiles);
+
+      expect(decisions).toHaveLength(0);
+    });
+
+    test('Subfolders of a selected folder are synced', () => {
+      expect(engine.isInSelectedFolders('Notes/2024/day.md')).toBe(true);
+      expect(engine.isInSelectedFolders('NotesOld/day.md')).toBe(false);
+    });
+  });
+
+  describe('Rename detection', () => {
+    const synced: SyncFileState = { localMtime: 1000, remoteMtime: 1000, size: 4, hash: 'h1', remoteEtag: '"e1"' };
+
+    test('File moved locally becomes a rename instead of upload and delete', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['Archive/a.png', { path: 'Archive/a.png', mtime: 2000, size: 4, hash: 'h1' }],
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Inbox/a.png', { path: 'Inbox/a.png', mtime: 1000, key: 'Inbox/a.png', size: 4, etag: '"e1"' }],
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([['Inbox/a.png', synced]]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions).toHaveLength(1);
+      expect(decisions[0]).toMatchObject({
+        filePath: 'Archive/a.png',
+        previousPath: 'Inbox/a.png',
+        localStatus: FileStatus.CREATED,
+        action: SyncAction.RENAME,
+      });
+    });
+
+    test('File moved remotely is matched by size and ETag', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['Inbox/a.png', { path: 'Inbox/a.png', mtime: 1000, size: 4 }],
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Archive/a.png', { path: 'Archive/a.png', mtime: 2000, key: 'Archive/a.png', size: 4, etag: '"e1"' }],
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([['Inbox/a.png', synced]]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions).toHaveLength(1);
+      expect(decisions[0]).toMatchObject({
+        filePath: 'Archive/a.png',
+        previousPath: 'Inbox/a.png',
+        remoteStatus: FileStatus.CREATED,
+        action: SyncAction.RENAME,
+      });
+    });
+
+    test('Different content is not paired', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['Archive/a.png', { path: 'Archive/a.png', mtime: 2000, size: 4, hash: 'h2' }],
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Inbox/a.png', { path: 'Inbox/a.png', mtime: 1000, key: 'Inbox/a.png', size: 4 }],
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([['Inbox/a.png', synced]]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions.map((d) => d.action).sort()).toEqual([SyncAction.DELETE_REMOTE, SyncAction.UPLOAD]);
+    });
+
+    test('Identical files are paired by file name', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['New/a.md', { path: 'New/a.md', mtime: 2000, size: 4, hash: 'h1' }],
+        ['New/b.md', { path: 'New/b.md', mtime: 2000, size: 4, hash: 'h1' }],
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['Old/b.md', { path: 'Old/b.md', mtime: 1000, key: 'Old/b.md', size: 4 }],
+        ['Old/a.md', { path: 'Old/a.md', mtime: 1000, key: 'Old/a.md', size: 4 }],
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['Old/b.md', synced],
+        ['Old/a.md', synced],
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions).toHaveLength(2);
+      expect(decisions.find((d) => d.filePath === 'New/a.md')?.previousPath).toBe('Old/a.md');
+      expect(decisions.find((d) => d.filePath === 'New/b.md')?.previousPath).toBe('Old/b.md');
+    });
+  });
+
   describe('Edge cases and complex scenarios', () => {
     test('Multiple files with different sync actions', () => {
       const localFiles = new Map<string, LocalFile>([
@@ -430,6 +699,135 @@ describe('SyncDecisionEngine', () => {
     });
   });
 
+  describe('Content-based change detection', () => {
+    test('Touched local file with identical hash - should only update state', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 2000, size: 10, hash: 'aaa' }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 1500, key: 'test.md', size: 10, etag: '"e1"' }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa', remoteEtag: '"e1"' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0]).toMatchObject({
+        localStatus: FileStatus.UNCHANGED,
+        remoteStatus: FileStatus.UNCHANGED,
+        action: SyncAction.UPDATE_STATE
+      });
+    });
+
+    test('Local file with different size - should upload without hash', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 2000, size: 12 }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 1500, key: 'test.md', size: 10 }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0]).toMatchObject({
+        localStatus: FileStatus.MODIFIED,
+        action: SyncAction.UPLOAD
+      });
+    });
+
+    test('Local file with same size but different hash - should upload', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 2000, size: 10, hash: 'bbb' }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 1500, key: 'test.md', size: 10 }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0].action).toBe(SyncAction.UPLOAD);
+    });
+
+    test('Remote file rewritten with the same ETag - should only update state', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 1000, size: 10 }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 3000, key: 'test.md', size: 10, etag: '"e1"' }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa', remoteEtag: '"e1"' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0]).toMatchObject({
+        remoteStatus: FileStatus.UNCHANGED,
+        action: SyncAction.UPDATE_STATE
+      });
+    });
+
+    test('Remote file with a new ETag - should download', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 1000, size: 10 }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 3000, key: 'test.md', size: 10, etag: '"e2"' }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa', remoteEtag: '"e1"' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0].action).toBe(SyncAction.DOWNLOAD);
+    });
+
+    test('Both sides created with identical content - should only update state', () => {
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 2000, size: 10, hash: 'aaa' }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 1000, key: 'test.md', size: 10, hash: 'aaa' }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>();
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0]).toMatchObject({
+        localStatus: FileStatus.CREATED,
+        remoteStatus: FileStatus.CREATED,
+        action: SyncAction.UPDATE_STATE
+      });
+    });
+
+    test('Both sides modified with different content - newest wins', () => {
+      mockPlugin.settings.conflictPolicy = 'newest-wins';
+      mockPlugin.settings.enableThreeWayMerge = false;
+      mockPlugin.settings.enableFrontmatterMerge = false;
+      const localFiles = new Map<string, LocalFile>([
+        ['test.md', { path: 'test.md', mtime: 2000, size: 10, hash: 'bbb' }]
+      ]);
+      const remoteFiles = new Map<string, RemoteFile>([
+        ['test.md', { path: 'test.md', mtime: 2500, key: 'test.md', size: 10, hash: 'ccc' }]
+      ]);
+      const stateFiles = new Map<string, SyncFileState>([
+        ['test.md', { localMtime: 1000, remoteMtime: 1500, size: 10, hash: 'aaa' }]
+      ]);
+
+      const decisions = engine.generateSyncDecisions(localFiles, remoteFiles, stateFiles);
+
+      expect(decisions[0].action).toBe(SyncAction.DOWNLOAD);
+    });
+  });
+
   describe('Debug logging', () => {
     test('Debug logs are called when enabled', () => {
       const consoleSpy = jest.spyOn(console, 'log');
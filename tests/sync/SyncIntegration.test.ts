@@ -22,8 +22,8 @@ describe('Sync Integration Tests', () => {
   beforeEach(() => {
     mockApp = new MockApp();
     mockPlugin = new MockPlugin();
-    decisionEngine = new SyncDecisionEngine(mockPlugin as any);
-    stateManager = new SyncStateManager(mockApp as any, mockPlugin as any);
+    decisionEngine = new SyncDecisionEngine(mockPlugin.asPlugin());
+    stateManager = new SyncStateManager(mockApp.asApp(), mockPlugin.asPlugin());
   });
 
   describe('Complete sync scenarios', () => {
@@ -94,6 +94,9 @@ describe('Sync Integration Tests', () => {
     });
 
     test('Sync with bidirectional changes', async () => {
+      mockPlugin.settings.conflictPolicy = 'newest-wins';
+      mockPlugin.settings.enableThreeWayMerge = false;
+      mockPlugin.settings.enableFrontmatterMerge = false;
       // Setup: Both local and remote changes
       const localFiles = new Map<string, LocalFile>([
         ['local-only.md', { path: 'local-only.md', mtime: 1000 }],
@@ -1,6 +1,14 @@
+import { CachedMetadata, Notice, TFile } from 'obsidian';
 import { SyncManager } from '../../sync/SyncManager';
-import { MockApp } from '../mocks/MockObsidianApp';
+import { MockApp, MockTFile } from '../mocks/MockObsidianApp';
 import { MockPlugin } from '../mocks/MockPlugin';
+import { MockS3Service } from '../mocks/MockS3Service';
+import { FileSyncDecision, SyncAction } from '../../sync/SyncTypes';
+import { MassDeleteModal } from '../../ui/MassDeleteModal';
+import { PrivateNotesModal } from '../../ui/PrivateNotesModal';
+import { RemoteTrashModal } from '../../ui/RemoteTrashModal';
+import { RestoreToDateModal } from '../../ui/RestoreToDateModal';
+import { SyncPreviewModal } from '../../ui/SyncPreviewModal';
 
 describe('SyncManager', () => {
   let syncManager: SyncManager;
@@ -10,7 +18,7 @@ describe('SyncManager', () => {
   beforeEach(() => {
     mockApp = new MockApp();
     mockPlugin = new MockPlugin();
-    syncManager = new SyncManager(mockApp as any, mockPlugin as any);
+    syncManager = new SyncManager(mockApp.asApp(), mockPlugin.asPlugin());
   });
 
   describe('Basic functionality', () => {
@@ -34,7 +42,7 @@ describe('SyncManager', () => {
       const incompletePlugin = new MockPlugin({
         accessKeyId: '', // Missing required setting
       });
-      const managerWithIncompleteSettings = new SyncManager(mockApp as any, incompletePlugin as any);
+      const managerWithIncompleteSettings = new SyncManager(mockApp.asApp(), incompletePlugin.asPlugin());
       
       // Should not throw when calling runSync
       expect(() => managerWithIncompleteSettings.runSync()).not.toThrow();
@@ -44,7 +52,7 @@ describe('SyncManager', () => {
   describe('File exclusion logic', () => {
     test('shouldIgnoreFile correctly identifies hidden files', () => {
       // Access private method through reflection for testing
-      const shouldIgnore = (syncManager as any).shouldIgnoreFile.bind(syncManager);
+      const shouldIgnore = syncManager['shouldIgnoreFile'].bind(syncManager);
       
       expect(shouldIgnore('.hidden')).toBe(true);
       expect(shouldIgnore('folder/.hidden')).toBe(true);
@@ -53,4 +61,1084 @@ describe('SyncManager', () => {
       expect(shouldIgnore('folder/normal-file.md')).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('Ignore file', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(() => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+    });
+
+    test('Ignored files are neither uploaded nor downloaded, the ignore file syncs', async () => {
+      await mockApp.vault.adapter.write('.kisss3ignore', '*.tmp\nPrivate/\n', { mtime: 1000 });
+      mockApp.vault.addFile('note.md', 1000, encode('note'));
+      mockApp.vault.addFile('scratch.tmp', 1000, encode('tmp'));
+      mockApp.vault.addFile('Private/diary.md', 1000, encode('diary'));
+      mockS3.addRemoteFile('Private/remote.md', new Date(1000), encode('remote'));
+
+      await syncManager.runSync();
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual([
+        '.kisss3ignore',
+        'Private/remote.md',
+        'note.md',
+      ]);
+      expect(mockApp.vault.getAbstractFileByPath('Private/remote.md')).toBeNull();
+      expect(Object.keys(mockPlugin.getPluginData().syncState).sort()).toEqual(['.kisss3ignore', 'note.md']);
+    });
+
+    test('Rules from another device apply before the ignore file is downloaded', async () => {
+      mockApp.vault.addFile('big.pdf', 1000, encode('pdf'));
+      mockS3.addRemoteFile('.kisss3ignore', new Date(2000), encode('*.pdf'));
+
+      await syncManager.runSync();
+
+      expect(mockS3.getRemoteFiles().has('big.pdf')).toBe(false);
+      expect(await mockApp.vault.adapter.read('.kisss3ignore')).toBe('*.pdf');
+    });
+
+    test('Files ignored after syncing are not treated as deleted', async () => {
+      mockApp.vault.addFile('a.pdf', 1000, encode('a'));
+      mockApp.vault.addFile('b.pdf', 1000, encode('b'));
+      await syncManager.runSync();
+
+      await mockApp.vault.adapter.write('.kisss3ignore', '*.pdf');
+      mockApp.vault.removeFile('a.pdf');
+      mockS3.removeRemoteFile('b.pdf');
+      await syncManager.runSync();
+
+      expect(mockS3.getRemoteFiles().has('a.pdf')).toBe(true);
+      expect(mockApp.vault.getAbstractFileByPath('b.pdf')).not.toBeNull();
+      expect(mockPlugin.getPluginData().syncState['a.pdf']).toBeUndefined();
+    });
+
+    test('Local deletions of ignored files are not propagated', async () => {
+      mockS3.addRemoteFile('a.tmp', new Date(1000), encode('tmp'));
+      await mockApp.vault.adapter.write('.kisss3ignore', '*.tmp');
+      await syncManager.runSync();
+
+      await syncManager.handleLocalDelete(new MockTFile('a.tmp'));
+
+      expect(mockS3.getRemoteFiles().has('a.tmp')).toBe(true);
+    });
+  });
+
+  describe('Folder selection', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('Notes/a.md', 1000, encode('a'));
+      mockApp.vault.addFile('Attachments/big.png', 1000, encode('big'));
+      mockApp.vault.addFile('Attachments/edited.png', 1000, encode('edited'));
+      await syncManager.runSync();
+    });
+
+    test('Deselected folders are removed locally and kept remotely', async () => {
+      const edited = mockApp.vault.getAbstractFileByPath('Attachments/edited.png') as TFile;
+      await mockApp.vault.modifyBinary(edited, encode('changed'), { mtime: 5000 });
+
+      await syncManager.changeSyncFolders(['Notes']);
+
+      expect(mockPlugin.settings.syncFolders).toEqual(['Notes']);
+      expect(mockApp.vault.getAbstractFileByPath('Attachments/big.png')).toBeNull();
+      // Unsynced changes are kept
+      expect(mockApp.vault.getAbstractFileByPath('Attachments/edited.png')).not.toBeNull();
+      expect(mockS3.getRemoteFiles().has('Attachments/big.png')).toBe(true);
+      expect(new TextDecoder().decode(mockS3.getRemoteFiles().get('Attachments/edited.png')!.content)).toBe('edited');
+      expect(Object.keys(mockPlugin.getPluginData().syncState)).toEqual(['Notes/a.md']);
+    });
+
+    test('Deselected files are moved to the trash', async () => {
+      await syncManager.changeSyncFolders(['Notes']);
+
+      expect(await mockApp.vault.adapter.read('.trash/big.png')).toBe('big');
+    });
+
+    test('Asks before removing more files than the threshold', async () => {
+      mockPlugin.settings.deleteThreshold = 1;
+      const confirm = jest.spyOn(MassDeleteModal, 'confirm').mockResolvedValue(false);
+
+      await syncManager.changeSyncFolders(['Notes']);
+
+      expect(confirm.mock.calls[0][1].map((d) => d.filePath)).toEqual([
+        'Attachments/big.png',
+        'Attachments/edited.png',
+      ]);
+      expect(mockPlugin.settings.syncFolders).toEqual([]);
+      expect(mockApp.vault.getFiles()).toHaveLength(3);
+      confirm.mockRestore();
+    });
+
+    test('Selecting a folder again downloads it', async () => {
+      await syncManager.changeSyncFolders(['Notes']);
+      mockS3.addRemoteFile('Attachments/new.png', new Date(), encode('new'));
+      await syncManager.runSync();
+      expect(mockApp.vault.getAbstractFileByPath('Attachments/new.png')).toBeNull();
+
+      await syncManager.changeSyncFolders([]);
+
+      expect(mockApp.vault.getAbstractFileByPath('Attachments/big.png')).not.toBeNull();
+      expect(mockApp.vault.getAbstractFileByPath('Attachments/new.png')).not.toBeNull();
+    });
+
+    test('Local deletions are propagated without listing the bucket, inside the selected folders only', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      mockPlugin.settings.syncFolders = ['Notes'];
+      const note = mockApp.vault.getAbstractFileByPath('Notes/a.md') as MockTFile;
+      const attachment = mockApp.vault.getAbstractFileByPath('Attachments/big.png') as MockTFile;
+      mockApp.vault.removeFile(note.path);
+      mockApp.vault.removeFile(attachment.path);
+
+      await syncManager.handleLocalDelete(note);
+      await syncManager.handleLocalDelete(attachment);
+
+      expect(mockS3.getRemoteFiles().has('Notes/a.md')).toBe(false);
+      expect(mockS3.getRemoteFiles().has('Attachments/big.png')).toBe(true);
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+    });
+
+    test('Remote-only folders can be selected', async () => {
+      mockS3.addRemoteFile('Archive/2020/old.md', new Date(), encode('old'));
+
+      expect(await syncManager.listSelectableFolders()).toEqual([
+        'Archive',
+        'Archive/2020',
+        'Attachments',
+        'Notes',
+      ]);
+    });
+  });
+
+  describe('Configuration folder', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service({ enableConfigSync: true });
+      mockS3.attachTo(syncManager);
+      const adapter = mockApp.vault.adapter;
+      await adapter.write('.obsidian/app.json', '{}');
+      await adapter.write('.obsidian/workspace.json', '{}');
+      await adapter.write('.obsidian/snippets/wide.css', 'body {}');
+      await adapter.write('.obsidian/plugins/kisss3/main.js', 'code');
+      await adapter.write('.obsidian/plugins/kisss3/data.json', '{"secretAccessKey":"secret"}');
+      await adapter.write('.obsidian/plugins/dataview/data.json', '{}');
+    });
+
+    test('Nothing is synced unless enabled', async () => {
+      await syncManager.runSync();
+
+      expect(mockS3.getRemoteFiles().size).toBe(0);
+    });
+
+    test('Selected configuration files are uploaded, credentials never', async () => {
+      mockPlugin.settings.enableConfigSync = true;
+
+      await syncManager.runSync();
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual([
+        '.obsidian/app.json',
+        '.obsidian/plugins/dataview/data.json',
+        '.obsidian/plugins/kisss3/main.js',
+        '.obsidian/snippets/wide.css',
+      ]);
+    });
+
+    test('Changing the selected folders keeps the state of configuration files', async () => {
+      mockPlugin.settings.enableConfigSync = true;
+      await syncManager.runSync();
+      jest.setSystemTime(Date.now() + 1000);
+      await mockApp.vault.adapter.write('.obsidian/app.json', '{"edited":true}');
+
+      await syncManager.changeSyncFolders(['Notes']);
+
+      // A local edit, not a conflict between two new files
+      expect(new TextDecoder().decode(mockS3.getRemoteFiles().get('.obsidian/app.json')!.content)).toBe('{"edited":true}');
+      expect(mockApp.vault.adapter.getFilePaths().filter((p) => p.startsWith('.obsidian/app'))).toEqual([
+        '.obsidian/app.json',
+      ]);
+    });
+
+    test('Configuration files are downloaded through the adapter', async () => {
+      mockPlugin.settings.enableConfigSync = true;
+      mockPlugin.settings.syncFolders = ['Notes'];
+      mockS3.addRemoteFile('.obsidian/hotkeys.json', new Date(), encode('{"a":1}'));
+      mockS3.addRemoteFile('.obsidian/plugins/kisss3/data.json', new Date(), encode('{}'));
+
+      await syncManager.runSync();
+
+      expect(await mockApp.vault.adapter.read('.obsidian/hotkeys.json')).toBe('{"a":1}');
+      expect(await mockApp.vault.adapter.read('.obsidian/plugins/kisss3/data.json')).toBe(
+        '{"secretAccessKey":"secret"}',
+      );
+    });
+  });
+
+  describe('Private notes', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(() => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('journal.md', 1000, encode('private'));
+      mockApp.vault.addFile('tagged.md', 1000, encode('#local-only/diary'));
+      mockApp.vault.addFile('public.md', 1000, encode('public'));
+    });
+
+    test('Notes with the frontmatter flag or the private tag are not uploaded', async () => {
+      mockApp.metadataCache.setFileCache('journal.md', { frontmatter: { kisss3: false } } as CachedMetadata);
+      mockApp.metadataCache.setFileCache('tagged.md', { tags: [{ tag: '#local-only/diary' }] } as CachedMetadata);
+
+      await syncManager.runSync();
+
+      expect(Array.from(mockS3.getRemoteFiles().keys())).toEqual(['public.md']);
+    });
+
+    test('Notes not indexed yet are neither uploaded nor deleted', async () => {
+      await syncManager.runSync();
+      mockApp.metadataCache.setFileCache('public.md', null);
+      mockS3.addRemoteFile('public.md', new Date(Date.now() + 1000), encode('remote change'));
+
+      await syncManager.runSync();
+
+      const note = mockApp.vault.getAbstractFileByPath('public.md') as TFile;
+      expect(new TextDecoder().decode(await mockApp.vault.readBinary(note))).toBe('public');
+      expect(mockS3.getRemoteFiles().has('public.md')).toBe(true);
+    });
+
+    test('Local deletions of private notes are not propagated', async () => {
+      await syncManager.runSync();
+      mockApp.metadataCache.setFileCache('public.md', { frontmatter: { kisss3: false } } as CachedMetadata);
+      const note = mockApp.vault.getAbstractFileByPath('public.md') as MockTFile;
+      mockApp.vault.removeFile(note.path);
+
+      await syncManager.handleLocalDelete(note);
+
+      expect(mockS3.getRemoteFiles().has('public.md')).toBe(true);
+    });
+
+    test('Notes unindexed for one sync keep their state', async () => {
+      await syncManager.runSync();
+      mockApp.metadataCache.setFileCache('public.md', null);
+      await syncManager.runSync();
+      expect(mockPlugin.getPluginData().syncState['public.md']).toBeDefined();
+
+      mockApp.metadataCache.setFileCache('public.md', {});
+      await mockS3.deleteRemoteFile('public.md');
+      await syncManager.runSync();
+
+      expect(mockS3.getRemoteFiles().has('public.md')).toBe(false);
+      expect(mockApp.vault.getAbstractFileByPath('public.md')).toBeNull();
+    });
+
+    test('Offers once to delete the remote copy of a note that became private', async () => {
+      await syncManager.runSync();
+      const confirm = jest.spyOn(PrivateNotesModal, 'confirm').mockResolvedValue(true);
+      mockApp.metadataCache.setFileCache('journal.md', { frontmatter: { kisss3: false } } as CachedMetadata);
+
+      await syncManager.runSync();
+      await syncManager.runSync();
+
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(confirm).toHaveBeenCalledWith(mockApp, ['journal.md']);
+      expect(mockS3.getRemoteFiles().has('journal.md')).toBe(false);
+      expect(mockApp.vault.getAbstractFileByPath('journal.md')).not.toBeNull();
+      confirm.mockRestore();
+    });
+
+    test('Declining keeps both copies, and remote changes are not downloaded', async () => {
+      await syncManager.runSync();
+      const confirm = jest.spyOn(PrivateNotesModal, 'confirm').mockResolvedValue(false);
+      mockApp.metadataCache.setFileCache('journal.md', { frontmatter: { kisss3: false } } as CachedMetadata);
+
+      await syncManager.runSync();
+      mockS3.addRemoteFile('journal.md', new Date(Date.now() + 1000), encode('remote change'));
+      await syncManager.runSync();
+
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(mockS3.getRemoteFiles().has('journal.md')).toBe(true);
+      const journal = mockApp.vault.getAbstractFileByPath('journal.md') as TFile;
+      expect(new TextDecoder().decode(await mockApp.vault.readBinary(journal))).toBe('private');
+      confirm.mockRestore();
+    });
+  });
+
+  describe('Live push', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('a.md', 1000, encode('a'));
+      mockApp.vault.addFile('b.md', 1000, encode('b'));
+      await syncManager.runSync();
+    });
+
+    test('Uploads an edited file without listing the bucket', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      const before = mockPlugin.getPluginData().syncState;
+      const file = mockApp.vault.getAbstractFileByPath('a.md') as TFile;
+      await mockApp.vault.modifyBinary(file, encode('edited'), { mtime: 5000 });
+
+      expect(await syncManager.pushLocalFiles(['a.md'])).toEqual([]);
+
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+      expect(new TextDecoder().decode(await mockS3.downloadFileAtPath('a.md'))).toBe('edited');
+      const state = mockPlugin.getPluginData().syncState;
+      expect(state['a.md'].localMtime).toBe(5000);
+      expect(state['b.md']).toEqual(before['b.md']);
+    });
+
+    test('Pushes new files, but leaves files changed remotely to the next sync', async () => {
+      const putFile = jest.spyOn(mockS3, 'putFile');
+      jest.setSystemTime(Date.now() + 1000);
+      mockS3.addRemoteFile('b.md', new Date(), encode('remote'));
+      const b = mockApp.vault.getAbstractFileByPath('b.md') as TFile;
+      await mockApp.vault.modifyBinary(b, encode('local'), { mtime: 5000 });
+      mockApp.vault.addFile('new.md', 5000, encode('new'));
+
+      await syncManager.pushLocalFiles(['b.md', 'new.md']);
+
+      expect(putFile).toHaveBeenCalledTimes(1);
+      expect(putFile).toHaveBeenCalledWith('new.md', expect.anything());
+      expect(new TextDecoder().decode(await mockS3.downloadFileAtPath('b.md'))).toBe('remote');
+    });
+
+    test('Hands the paths back while a sync is running', async () => {
+      syncManager['running'] = true;
+
+      expect(await syncManager.pushLocalFiles(['a.md'])).toEqual(['a.md']);
+    });
+  });
+
+  describe('Incremental sync', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+    const decode = (buffer: ArrayBuffer) => new TextDecoder().decode(buffer);
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockPlugin.settings.enableIncrementalSync = true;
+      mockApp.vault.addFile('a.md', 1000, encode('a'));
+      mockApp.vault.addFile('b.md', 1000, encode('b'));
+      await syncManager.runSync();
+    });
+
+    test('Syncs dirty files without listing the bucket', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      const file = mockApp.vault.getAbstractFileByPath('a.md')!;
+      await mockApp.vault.modifyBinary(file as TFile, encode('edited'), { mtime: 5000 });
+      syncManager.trackLocalChange(file);
+
+      await syncManager.runSync();
+      await syncManager.runSync();
+
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+      expect(decode(await mockS3.downloadFileAtPath('a.md'))).toBe('edited');
+      expect(mockPlugin.getPluginData().syncState['a.md'].localMtime).toBe(5000);
+    });
+
+    test('Compares the manifest when another device published changes', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      jest.setSystemTime(Date.now() + 1000);
+      mockS3.addRemoteFile('b.md', new Date(), encode('remote'));
+      mockS3.addRemoteFile('c.md', new Date(), encode('new'));
+
+      await syncManager.runSync();
+
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+      const b = mockApp.vault.getAbstractFileByPath('b.md') as TFile;
+      expect(decode(await mockApp.vault.readBinary(b))).toBe('remote');
+      expect(mockApp.vault.getAbstractFileByPath('c.md')).not.toBeNull();
+    });
+
+    test('A full sync compares every file', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      const file = mockApp.vault.getAbstractFileByPath('b.md')!;
+      await mockApp.vault.modifyBinary(file as TFile, encode('untracked'), { mtime: 5000 });
+
+      await syncManager.runSync();
+      expect(decode(await mockS3.downloadFileAtPath('b.md'))).toBe('b');
+
+      await syncManager.runFullSync();
+      expect(listRemoteFiles).toHaveBeenCalledTimes(1);
+      expect(decode(await mockS3.downloadFileAtPath('b.md'))).toBe('untracked');
+    });
+
+    test('Actions unticked in the preview are offered again', async () => {
+      const file = mockApp.vault.getAbstractFileByPath('a.md')!;
+      await mockApp.vault.modifyBinary(file as TFile, encode('edited'), { mtime: 5000 });
+      syncManager.trackLocalChange(file);
+      jest.setSystemTime(Date.now() + 1000);
+      mockS3.addRemoteFile('b.md', new Date(), encode('remote'));
+
+      await syncManager.runSync(async () => []);
+      const offered = jest.fn(async (decisions: FileSyncDecision[]) => decisions);
+      await syncManager.runSync(offered);
+
+      expect(offered.mock.calls[0][0].map((d) => [d.filePath, d.action])).toEqual(
+        expect.arrayContaining([
+          ['a.md', SyncAction.UPLOAD],
+          ['b.md', SyncAction.DOWNLOAD],
+        ]),
+      );
+      expect(decode(await mockS3.downloadFileAtPath('a.md'))).toBe('edited');
+    });
+  });
+
+  describe('Parallel transfers', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(() => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockPlugin.settings.downloadConcurrency = 3;
+      mockPlugin.settings.uploadConcurrency = 2;
+    });
+
+    test('Transfers several files at a time, uploading only after all downloads', async () => {
+      for (let i = 1; i <= 6; i++) {
+        mockS3.addRemoteFile(`Remote/${i}.md`, new Date(), encode(`remote ${i}`));
+        mockApp.vault.addFile(`local-${i}.md`, 1000, encode(`local ${i}`));
+      }
+      const events: string[] = [];
+      const active = { download: 0, upload: 0 };
+      const maxActive = { download: 0, upload: 0 };
+      const track = async <T>(kind: 'download' | 'upload', transfer: () => Promise<T>): Promise<T> => {
+        events.push(kind);
+        maxActive[kind] = Math.max(maxActive[kind], ++active[kind]);
+        await Promise.resolve();
+        await Promise.resolve();
+        active[kind]--;
+        return transfer();
+      };
+      const downloadFile = mockS3.downloadFile.bind(mockS3);
+      const putFile = mockS3.putFile.bind(mockS3);
+      jest.spyOn(mockS3, 'downloadFile').mockImplementation((s3Object) => track('download', () => downloadFile(s3Object)));
+      jest.spyOn(mockS3, 'putFile').mockImplementation((path, content) => track('upload', () => putFile(path, content)));
+      const setMessage = jest.spyOn(Notice.prototype, 'setMessage');
+
+      await syncManager.runSync();
+
+      expect(maxActive).toEqual({ download: 3, upload: 2 });
+      expect(events.lastIndexOf('download')).toBeLessThan(events.indexOf('upload'));
+      expect(Object.keys(mockPlugin.getPluginData().syncState)).toHaveLength(12);
+      expect(setMessage).toHaveBeenCalledWith('S3 Sync: Downloading Remote/6.md (6/6)');
+      expect(setMessage).toHaveBeenCalledWith('S3 Sync: Uploading local-6.md (6/6)');
+      setMessage.mockRestore();
+    });
+
+    test('A failed transfer stops the sync without saving the state', async () => {
+      for (let i = 1; i <= 4; i++) {
+        mockS3.addRemoteFile(`${i}.md`, new Date(), encode(`${i}`));
+      }
+      const downloadFile = mockS3.downloadFile.bind(mockS3);
+      const download = jest.spyOn(mockS3, 'downloadFile').mockImplementation(async (s3Object) => {
+        if (s3Object.Key === '2.md') {
+          throw new Error('Connection reset');
+        }
+        return downloadFile(s3Object);
+      });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await syncManager.runSync();
+
+      expect(download).toHaveBeenCalledTimes(3);
+      expect(mockPlugin.getPluginData().syncState ?? {}).toEqual({});
+      consoleError.mockRestore();
+    });
+
+    test('Passes the size of large files and shows their download progress', async () => {
+      mockS3.addRemoteFile('video.mp4', new Date(), new ArrayBuffer(40));
+      const downloadFile = mockS3.downloadFile.bind(mockS3);
+      const download = jest.spyOn(mockS3, 'downloadFile').mockImplementation(async (s3Object, onProgress) => {
+        onProgress?.(10, 40);
+        return downloadFile(s3Object);
+      });
+      const setMessage = jest.spyOn(Notice.prototype, 'setMessage');
+
+      await syncManager.runSync();
+
+      expect(download).toHaveBeenCalledWith(expect.objectContaining({ Key: 'video.mp4', Size: 40 }), expect.any(Function));
+      expect(setMessage).toHaveBeenCalledWith('S3 Sync: Downloading video.mp4 (1/1), 25%');
+      setMessage.mockRestore();
+    });
+
+    test('Compares files on a first sync several at a time, by MD5 for files uploaded by other tools', async () => {
+      for (let i = 1; i <= 6; i++) {
+        mockS3.addRemoteFile(`${i}.md`, new Date(), encode(`same ${i}`), i > 3);
+        mockApp.vault.addFile(`${i}.md`, 1000, encode(`same ${i}`));
+      }
+      let active = 0;
+      let maxActive = 0;
+      const headFile = mockS3.headFile.bind(mockS3);
+      jest.spyOn(mockS3, 'headFile').mockImplementation(async (path) => {
+        maxActive = Math.max(maxActive, ++active);
+        await Promise.resolve();
+        active--;
+        return headFile(path);
+      });
+      const download = jest.spyOn(mockS3, 'downloadFile');
+      const upload = jest.spyOn(mockS3, 'putFile');
+
+      await syncManager.runSync();
+
+      expect(maxActive).toBe(3);
+      expect(download).not.toHaveBeenCalled();
+      expect(upload).not.toHaveBeenCalled();
+      expect(Object.keys(mockPlugin.getPluginData().syncState)).toHaveLength(6);
+    });
+  });
+
+  describe('Remote manifest', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('a.md', 1000, encode('a'));
+      await syncManager.runSync();
+    });
+
+    test('Takes the remote files from the manifest instead of listing the bucket', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      mockS3.addRemoteFile('b.md', new Date(), encode('b'));
+
+      await syncManager.runSync();
+
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+      expect(mockApp.vault.getAbstractFileByPath('b.md')).not.toBeNull();
+    });
+
+    test('Lists the bucket if the manifest is missing or inconsistent', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+      mockS3.setManifestAvailable(false);
+      mockS3.addRemoteFile('b.md', new Date(), encode('b'));
+
+      await syncManager.runSync();
+
+      expect(listRemoteFiles).toHaveBeenCalledTimes(1);
+      expect(mockApp.vault.getAbstractFileByPath('b.md')).not.toBeNull();
+    });
+
+    test('Lists the bucket once the full sync interval passed', async () => {
+      const listRemoteFiles = jest.spyOn(mockS3, 'listRemoteFiles');
+
+      await syncManager.runSync();
+      expect(listRemoteFiles).not.toHaveBeenCalled();
+
+      jest.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+      await syncManager.runSync();
+      expect(listRemoteFiles).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Rename events', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      await mockApp.vault.createFolder('Inbox');
+      mockApp.vault.addFile('Inbox/a.md', 1000, encode('a'));
+      mockApp.vault.addFile('Inbox/b.md', 1000, encode('b'));
+      await syncManager.runSync();
+    });
+
+    test('A renamed file is moved remotely and the next sync has nothing to do', async () => {
+      const file = mockApp.vault.getAbstractFileByPath('Inbox/a.md')!;
+      await mockApp.vault.rename(file, 'Inbox/renamed.md');
+
+      await syncManager.handleLocalRename(file, 'Inbox/a.md');
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual(['Inbox/b.md', 'Inbox/renamed.md']);
+      expect(Object.keys(mockPlugin.getPluginData().syncState).sort()).toEqual(['Inbox/b.md', 'Inbox/renamed.md']);
+
+      const approve = jest.fn(async (decisions: FileSyncDecision[]) => decisions);
+      await syncManager.runSync(approve);
+      expect(approve.mock.calls[0][0].filter((d) => d.action !== SyncAction.DO_NOTHING)).toEqual([]);
+    });
+
+    test('A renamed folder is moved as a batch with progress', async () => {
+      const setMessage = jest.spyOn(Notice.prototype, 'setMessage');
+      const folder = mockApp.vault.getAbstractFileByPath('Inbox')!;
+      await mockApp.vault.rename(folder, 'Archive');
+
+      await syncManager.handleLocalRename(folder, 'Inbox');
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual(['Archive/a.md', 'Archive/b.md']);
+      expect(setMessage).toHaveBeenCalledWith('S3 Sync: Moving Archive (2/2)...');
+      expect(setMessage).toHaveBeenCalledWith('S3 Sync: Moved 2 of 2 files to Archive.');
+      setMessage.mockRestore();
+    });
+
+    test('A file changed remotely since the last sync is left to the next sync', async () => {
+      jest.setSystemTime(Date.now() + 1000);
+      mockS3.addRemoteFile('Inbox/a.md', new Date(), encode('changed'));
+      const file = mockApp.vault.getAbstractFileByPath('Inbox/a.md')!;
+      await mockApp.vault.rename(file, 'Inbox/renamed.md');
+
+      await syncManager.handleLocalRename(file, 'Inbox/a.md');
+
+      expect(mockS3.getRemoteFiles().has('Inbox/a.md')).toBe(true);
+      expect(mockS3.getRemoteFiles().has('Inbox/renamed.md')).toBe(false);
+      expect(mockPlugin.getPluginData().syncState['Inbox/a.md']).toBeDefined();
+    });
+  });
+
+  describe('Sync scope', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+    const day = 24 * 60 * 60 * 1000;
+
+    beforeEach(() => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+    });
+
+    test('Large files and excluded extensions are neither uploaded nor downloaded', async () => {
+      mockPlugin.settings.maxFileSizeMB = 1;
+      mockPlugin.settings.excludeExtensions = ['mov'];
+      mockApp.vault.addFile('note.md', Date.now(), encode('note'));
+      mockApp.vault.addFile('video.mp4', Date.now(), new ArrayBuffer(2 * 1024 * 1024));
+      mockS3.addRemoteFile('clip.mov', new Date(), encode('clip'));
+      const setMessage = jest.spyOn(Notice.prototype, 'setMessage');
+
+      await syncManager.runSync();
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual(['clip.mov', 'note.md']);
+      expect(mockApp.vault.getAbstractFileByPath('clip.mov')).toBeNull();
+      expect(setMessage).toHaveBeenCalledWith(
+        'S3 Sync: Sync complete! Skipped 2 files out of scope (1 too large, 1 by extension).',
+      );
+      setMessage.mockRestore();
+    });
+
+    test('Files that leave the scope are not deleted and keep their state', async () => {
+      mockApp.vault.addFile('a.png', Date.now(), encode('a'));
+      mockApp.vault.addFile('b.png', Date.now(), encode('b'));
+      await syncManager.runSync();
+
+      mockPlugin.settings.includeExtensions = ['md'];
+      mockApp.vault.removeFile('a.png');
+      mockS3.removeRemoteFile('b.png');
+      await syncManager.runSync();
+
+      expect(mockS3.getRemoteFiles().has('a.png')).toBe(true);
+      expect(mockApp.vault.getAbstractFileByPath('b.png')).not.toBeNull();
+      expect(Object.keys(mockPlugin.getPluginData().syncState).sort()).toEqual(['a.png', 'b.png']);
+    });
+
+    test('Recent only mode skips old files', async () => {
+      mockPlugin.settings.recentOnlyDays = 30;
+      mockApp.vault.addFile('old.md', Date.now() - 60 * day, encode('old'));
+      mockApp.vault.addFile('new.md', Date.now(), encode('new'));
+      mockS3.addRemoteFile('remote-old.md', new Date(Date.now() - 60 * day), encode('remote'));
+
+      await syncManager.runSync();
+
+      expect(Array.from(mockS3.getRemoteFiles().keys()).sort()).toEqual(['new.md', 'remote-old.md']);
+      expect(mockApp.vault.getAbstractFileByPath('remote-old.md')).toBeNull();
+    });
+
+    test('Old files changed recently on the other side are synced', async () => {
+      mockApp.vault.addFile('changed.md', Date.now() - 60 * day, encode('v1'));
+      await syncManager.runSync();
+      jest.setSystemTime(Date.now() + 1000);
+      mockS3.addRemoteFile('changed.md', new Date(), encode('v2'));
+      mockPlugin.settings.recentOnlyDays = 30;
+
+      await syncManager.runSync();
+
+      const changed = mockApp.vault.getAbstractFileByPath('changed.md') as TFile;
+      expect(new TextDecoder().decode(await mockApp.vault.readBinary(changed))).toBe('v2');
+    });
+  });
+
+  describe('Renames', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('Inbox/photo.png', 1000, encode('photo'));
+      await syncManager.runSync();
+    });
+
+    test('A file moved locally is moved remotely without uploading it again', async () => {
+      const putFile = jest.spyOn(mockS3, 'putFile');
+      const photo = mockApp.vault.getAbstractFileByPath('Inbox/photo.png')!;
+      await mockApp.vault.rename(photo, 'Archive/photo.png');
+
+      await syncManager.runSync();
+
+      expect(putFile).not.toHaveBeenCalled();
+      expect(Array.from(mockS3.getRemoteFiles().keys())).toEqual(['Archive/photo.png']);
+      const state = mockPlugin.getPluginData().syncState;
+      expect(Object.keys(state)).toEqual(['Archive/photo.png']);
+      expect(state['Archive/photo.png'].hash).toBeDefined();
+    });
+
+    test('A file moved remotely is renamed locally instead of downloaded', async () => {
+      const renameFile = jest.spyOn(mockApp.fileManager, 'renameFile');
+      const downloadFile = jest.spyOn(mockS3, 'downloadFile');
+      await mockS3.renameRemoteFile('Inbox/photo.png', 'Archive/photo.png');
+
+      await syncManager.runSync();
+
+      expect(renameFile).toHaveBeenCalledWith(expect.anything(), 'Archive/photo.png');
+      expect(downloadFile).not.toHaveBeenCalled();
+      expect(mockApp.vault.getAbstractFileByPath('Inbox/photo.png')).toBeNull();
+      expect(mockApp.vault.getAbstractFileByPath('Archive/photo.png')).not.toBeNull();
+      expect(Object.keys(mockPlugin.getPluginData().syncState)).toEqual(['Archive/photo.png']);
+    });
+  });
+
+  describe('Sync preview', () => {
+    let mockS3: MockS3Service;
+
+    beforeEach(() => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('note-a.md', 1000, new TextEncoder().encode('a').buffer);
+      mockApp.vault.addFile('note-b.md', 1000, new TextEncoder().encode('b').buffer);
+    });
+
+    test('Only approved actions are executed and recorded in state', async () => {
+      const approve = jest.fn(async (decisions: FileSyncDecision[]) =>
+        decisions.filter((d) => d.filePath === 'note-a.md'),
+      );
+
+      await syncManager.runSync(approve);
+
+      const planned = approve.mock.calls[0][0];
+      expect(planned.map((d) => d.action)).toEqual([SyncAction.UPLOAD, SyncAction.UPLOAD]);
+      expect(Array.from(mockS3.getRemoteFiles().keys())).toEqual(['note-a.md']);
+
+      const state = mockPlugin.getPluginData().syncState;
+      expect(Object.keys(state)).toEqual(['note-a.md']);
+    });
+
+    test('Cancelling the preview leaves remote and state untouched', async () => {
+      await syncManager.runSync(async () => null);
+
+      expect(mockS3.getRemoteFiles().size).toBe(0);
+      expect(mockPlugin.getPluginData().syncState).toBeUndefined();
+    });
+  });
+
+  describe('Mass-deletion safeguard', () => {
+    let mockS3: MockS3Service;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      for (let i = 0; i < 4; i++) {
+        const content = new TextEncoder().encode(`note ${i}`).buffer;
+        mockApp.vault.addFile(`note-${i}.md`, 1000, content);
+      }
+      await syncManager.runSync();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('Refuses to sync when the remote is empty but state has files', async () => {
+      const confirm = jest.spyOn(MassDeleteModal, 'confirm');
+      mockS3.clearRemoteFiles();
+
+      await syncManager.runSync();
+
+      expect(confirm).not.toHaveBeenCalled();
+      expect(mockApp.vault.getFiles()).toHaveLength(4);
+      expect(Object.keys(mockPlugin.getPluginData().syncState)).toHaveLength(4);
+    });
+
+    test('Asks before deleting more files than the threshold', async () => {
+      mockPlugin.settings.deleteThreshold = 2;
+      const confirm = jest.spyOn(MassDeleteModal, 'confirm').mockResolvedValue(false);
+      ['note-0.md', 'note-1.md', 'note-2.md'].forEach((path) => mockS3.removeRemoteFile(path));
+
+      await syncManager.runSync();
+
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(confirm.mock.calls[0][1]).toHaveLength(3);
+      expect(mockApp.vault.getFiles()).toHaveLength(4);
+
+      confirm.mockResolvedValue(true);
+      await syncManager.runSync();
+
+      expect(mockApp.vault.getFiles().map((f) => f.path)).toEqual(['note-3.md']);
+    });
+
+    test('Percentage threshold is relative to the synced files', async () => {
+      mockPlugin.settings.deleteThreshold = 50;
+      mockPlugin.settings.deleteThresholdUnit = 'percent';
+      const confirm = jest.spyOn(MassDeleteModal, 'confirm').mockResolvedValue(true);
+
+      // Two of four synced files are deleted, which is exactly 50%
+      mockS3.removeRemoteFile('note-0.md');
+      mockS3.removeRemoteFile('note-1.md');
+      await syncManager.runSync();
+      expect(confirm).not.toHaveBeenCalled();
+
+      // Both remaining synced files are deleted, which is 100%
+      mockApp.vault.removeFile('note-2.md');
+      mockApp.vault.removeFile('note-3.md');
+      await syncManager.runSync();
+      expect(confirm).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Restoring deleted files', () => {
+    let mockS3: MockS3Service;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockApp.vault.addFile('keep.md', 1000, new TextEncoder().encode('keep').buffer);
+      mockApp.vault.addFile('folder/note.md', 1000, new TextEncoder().encode('note').buffer);
+      await syncManager.runSync();
+      mockS3.removeRemoteFile('folder/note.md');
+      await syncManager.runSync();
+    });
+
+    test('Deleted files are moved to the vault trash and recorded', async () => {
+      expect(mockApp.vault.getAbstractFileByPath('folder/note.md')).toBeNull();
+      expect(mockApp.vault.adapter.getFilePaths()).toContain('.trash/note.md');
+      expect(mockPlugin.getPluginData().lastSyncDeletions).toEqual([
+        expect.objectContaining({ path: 'folder/note.md', mode: 'vault-trash' }),
+      ]);
+    });
+
+    test('Restores files from the vault trash and uploads them again', async () => {
+      await syncManager.restoreLastDeletions();
+
+      expect(mockApp.vault.getAbstractFileByPath('folder/note.md')).not.toBeNull();
+      expect(mockApp.vault.adapter.getFilePaths()).not.toContain('.trash/note.md');
+      expect(mockPlugin.getPluginData().syncState['folder/note.md']).toBeUndefined();
+      expect(mockPlugin.getPluginData().lastSyncDeletions).toEqual([]);
+
+      await syncManager.runSync();
+      expect(mockS3.getRemoteFiles().has('folder/note.md')).toBe(true);
+    });
+
+    test('A sync that deletes nothing keeps the record', async () => {
+      mockS3.addRemoteFile('new.md', new Date(), new TextEncoder().encode('new').buffer);
+      await syncManager.runSync();
+      await syncManager.runSync();
+
+      await syncManager.restoreLastDeletions();
+      expect(mockApp.vault.getAbstractFileByPath('folder/note.md')).not.toBeNull();
+    });
+  });
+
+  describe('Remote trash', () => {
+    let mockS3: MockS3Service;
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service({ enableRemoteTrash: true });
+      mockS3.attachTo(syncManager);
+      mockPlugin.settings.enableRemoteTrash = true;
+      mockApp.vault.addFile('note.md', 1000, new TextEncoder().encode('note').buffer);
+      await syncManager.runSync();
+      mockApp.vault.removeFile('note.md');
+      await syncManager.runSync();
+    });
+
+    test('Restored files are removed from state and downloaded by the next sync', async () => {
+      const [entry] = await mockS3.listRemoteTrash();
+      expect(entry.path).toBe('note.md');
+
+      expect(await syncManager.restoreRemoteTrashEntry(entry)).toBe(true);
+      expect(mockPlugin.getPluginData().syncState['note.md']).toBeUndefined();
+
+      await syncManager.runSync();
+      expect(mockApp.vault.getAbstractFileByPath('note.md')).not.toBeNull();
+      expect(await mockS3.listRemoteTrash()).toEqual([]);
+    });
+
+    test('Files are not restored over an existing remote file', async () => {
+      const [entry] = await mockS3.listRemoteTrash();
+      mockS3.addRemoteFile('note.md', new Date(), new TextEncoder().encode('new').buffer);
+
+      expect(await syncManager.restoreRemoteTrashEntry(entry)).toBe(false);
+      expect(await mockS3.listRemoteTrash()).toHaveLength(1);
+    });
+
+    test('Browsing and purging wait for a running sync', async () => {
+      const openModal = jest.spyOn(RemoteTrashModal.prototype, 'open').mockImplementation(() => undefined);
+      const deleteEntry = jest.spyOn(mockS3, 'deleteTrashEntry');
+
+      const sync = syncManager.runSync();
+      await syncManager.browseRemoteTrash();
+      await syncManager.purgeRemoteTrash();
+      await sync;
+
+      expect(openModal).not.toHaveBeenCalled();
+      expect(deleteEntry).not.toHaveBeenCalled();
+      await syncManager.browseRemoteTrash();
+      expect(openModal).toHaveBeenCalled();
+      openModal.mockRestore();
+    });
+
+    test('Expired files are purged after a sync', async () => {
+      const [entry] = await mockS3.listRemoteTrash();
+      mockPlugin.settings.remoteTrashRetentionDays = 1;
+      jest.spyOn(Date, 'now').mockReturnValue(entry.deletedAt + 2 * 24 * 60 * 60 * 1000);
+
+      await syncManager.runSync();
+      jest.restoreAllMocks();
+
+      expect(await mockS3.listRemoteTrash()).toEqual([]);
+    });
+  });
+
+  describe('Remote history', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+    const readLocal = (path: string) =>
+      mockApp.vault.readBinary(mockApp.vault.getAbstractFileByPath(path) as TFile).then((c) => new TextDecoder().decode(c));
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockS3.addRemoteFile('note.md', new Date(1000), encode('first'));
+      mockS3.addRemoteFile('note.md', new Date(2000), encode('second'));
+      await syncManager.runSync();
+    });
+
+    test('Restores a version as the current version', async () => {
+      const versions = await mockS3.listFileVersions('note.md');
+      const first = versions[versions.length - 1];
+
+      await syncManager.restoreFileVersion('note.md', first, false);
+
+      expect(await readLocal('note.md')).toBe('first');
+      expect(new TextDecoder().decode(mockS3.getRemoteFiles().get('note.md')!.content)).toBe('first');
+      const state = mockPlugin.getPluginData().syncState['note.md'];
+      expect(state.size).toBe(5);
+
+      // Local, remote and state agree, so the next sync has nothing to do
+      const uploadSpy = jest.spyOn(mockS3, 'putFile');
+      await syncManager.runSync();
+      expect(uploadSpy).not.toHaveBeenCalled();
+    });
+
+    test('Restores a version as a side copy', async () => {
+      const versions = await mockS3.listFileVersions('note.md');
+
+      await syncManager.restoreFileVersion('note.md', versions[1], true);
+
+      const copy = mockApp.vault.getFiles().find((f) => f.path.startsWith('note (version '));
+      expect(copy).toBeDefined();
+      expect(await readLocal(copy!.path)).toBe('first');
+      expect(await readLocal('note.md')).toBe('second');
+    });
+  });
+
+  describe('Snapshots', () => {
+    test('Are only created on devices that sync the whole vault', async () => {
+      new MockS3Service().attachTo(syncManager);
+      mockPlugin.settings.enableSnapshots = true;
+      const snapshotManager = syncManager['snapshotManager'];
+      jest.spyOn(snapshotManager, 'isSnapshotDue').mockResolvedValue(true);
+      jest.spyOn(snapshotManager, 'applyRetention').mockResolvedValue(0);
+      const create = jest.spyOn(snapshotManager, 'createSnapshot').mockResolvedValue(undefined);
+
+      mockPlugin.settings.syncFolders = ['Notes'];
+      await syncManager.createSnapshotIfDue();
+      mockPlugin.settings.syncFolders = [];
+      mockPlugin.settings.maxFileSizeMB = 10;
+      await syncManager.createSnapshot();
+      expect(create).not.toHaveBeenCalled();
+
+      mockPlugin.settings.maxFileSizeMB = 0;
+      await syncManager.createSnapshotIfDue();
+      expect(create).toHaveBeenCalledTimes(1);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('Restore vault to date', () => {
+    let mockS3: MockS3Service;
+    const encode = (text: string) => new TextEncoder().encode(text).buffer;
+    const readLocal = (path: string) =>
+      mockApp.vault.readBinary(mockApp.vault.getAbstractFileByPath(path) as TFile).then((c) => new TextDecoder().decode(c));
+
+    beforeEach(async () => {
+      mockS3 = new MockS3Service();
+      mockS3.attachTo(syncManager);
+      mockS3.addRemoteFile('a.md', new Date(1000), encode('old a'));
+      mockS3.addRemoteFile('a.md', new Date(3000), encode('new a'));
+      mockS3.addRemoteFile('b.md', new Date(3000), encode('b'));
+      mockS3.addRemoteFile('folder/c.md', new Date(1000), encode('c'));
+      await syncManager.runSync();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('Previews and applies the versions current at the date, then syncs them', async () => {
+      jest.spyOn(RestoreToDateModal, 'ask').mockResolvedValue({ timestamp: 2000, folder: '' });
+      const confirm = jest.spyOn(SyncPreviewModal, 'confirm').mockImplementation(async (_app, decisions) => decisions);
+
+      await syncManager.restoreToDate();
+
+      const planned = confirm.mock.calls[0][1];
+      expect(planned).toEqual([
+        expect.objectContaining({ filePath: 'a.md', action: SyncAction.DOWNLOAD, versionId: 'v1' }),
+        expect.objectContaining({ filePath: 'b.md', action: SyncAction.DELETE_LOCAL }),
+      ]);
+      expect(await readLocal('a.md')).toBe('old a');
+      expect(mockApp.vault.getAbstractFileByPath('b.md')).toBeNull();
+
+      // The following sync made remote and state match the restored vault
+      const remote = mockS3.getRemoteFiles();
+      expect(new TextDecoder().decode(remote.get('a.md')!.content)).toBe('old a');
+      expect(remote.has('b.md')).toBe(false);
+      expect(Object.keys(mockPlugin.getPluginData().syncState).sort()).toEqual(['a.md', 'folder/c.md']);
+    });
+
+    test('Only restores files in the chosen folder', async () => {
+      jest.spyOn(RestoreToDateModal, 'ask').mockResolvedValue({ timestamp: 500, folder: 'folder' });
+      const confirm = jest.spyOn(SyncPreviewModal, 'confirm').mockResolvedValue(null);
+
+      await syncManager.restoreToDate();
+
+      expect(confirm.mock.calls[0][1]).toEqual([
+        expect.objectContaining({ filePath: 'folder/c.md', action: SyncAction.DELETE_LOCAL }),
+      ]);
+      expect(mockApp.vault.getAbstractFileByPath('folder/c.md')).not.toBeNull();
+    });
+
+    test('Leaves out files outside the selected folders and private notes', async () => {
+      mockPlugin.settings.syncFolders = ['folder'];
+      mockApp.metadataCache.setFileCache('folder/c.md', { frontmatter: { kisss3: false } } as CachedMetadata);
+      mockApp.vault.addFile('folder/e.md', 4000, encode('e'));
+      mockApp.vault.addFile('other/local.md', 4000, encode('local'));
+      mockS3.addRemoteFile('other/remote.md', new Date(400), encode('remote'));
+      jest.spyOn(RestoreToDateModal, 'ask').mockResolvedValue({ timestamp: 500, folder: '' });
+      const confirm = jest.spyOn(SyncPreviewModal, 'confirm').mockResolvedValue(null);
+
+      await syncManager.restoreToDate();
+
+      // Files at the vault root are always synced
+      expect(confirm.mock.calls[0][1].map((d) => d.filePath)).toEqual(['a.md', 'b.md', 'folder/e.md']);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { getExtension, getScopeFilterReason } from '../../sync/SyncScope';
+import { DEFAULT_SETTINGS } from '../../settings';
+
+describe('SyncScope', () => {
+  const now = Date.UTC(2024, 0, 15);
+  const day = 24 * 60 * 60 * 1000;
+  const reason = (filePath: string, size: number | undefined, mtime: number, overrides = {}) =>
+    getScopeFilterReason(filePath, size, mtime, { ...DEFAULT_SETTINGS, ...overrides }, now);
+
+  test('Extensions are lowercase and without the dot', () => {
+    expect(getExtension('a/Video.MP4')).toBe('mp4');
+    expect(getExtension('a.b/README')).toBe('');
+    expect(getExtension('.hidden')).toBe('');
+  });
+
+  test('Everything is in scope by default', () => {
+    expect(reason('video.mp4', 10 * 1024 * 1024 * 1024, 0)).toBeNull();
+  });
+
+  test('Files above the maximum size are out of scope', () => {
+    expect(reason('video.mp4', 6 * 1024 * 1024, now, { maxFileSizeMB: 5 })).toBe('size');
+    expect(reason('note.md', 5 * 1024 * 1024, now, { maxFileSizeMB: 5 })).toBeNull();
+    expect(reason('unknown.bin', undefined, now, { maxFileSizeMB: 5 })).toBeNull();
+  });
+
+  test('Include and exclude lists filter by extension', () => {
+    expect(reason('a.png', 1, now, { includeExtensions: ['md'] })).toBe('extension');
+    expect(reason('a.MD', 1, now, { includeExtensions: ['md'] })).toBeNull();
+    expect(reason('a.mov', 1, now, { excludeExtensions: ['mov'] })).toBe('extension');
+  });
+
+  test('Recent only mode leaves out older files', () => {
+    expect(reason('a.md', 1, now - 31 * day, { recentOnlyDays: 30 })).toBe('age');
+    expect(reason('a.md', 1, now - 29 * day, { recentOnlyDays: 30 })).toBeNull();
+  });
+});
@@ -11,7 +11,7 @@ describe('SyncStateManager', () => {
   beforeEach(() => {
     mockApp = new MockApp();
     mockPlugin = new MockPlugin();
-    stateManager = new SyncStateManager(mockApp as any, mockPlugin as any);
+    stateManager = new SyncStateManager(mockApp.asApp(), mockPlugin.asPlugin());
   });
 
   afterEach(() => {
@@ -0,0 +1,73 @@
+import { runWithConcurrency } from '../../sync/TransferPool';
+
+describe('runWithConcurrency', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+  const flush = async () => {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+  };
+
+  test('Runs at most the given number of tasks at a time, in order', async () => {
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const done = runWithConcurrency(tasks, 2, async (task, index) => {
+      started.push(index);
+      await task.promise;
+    });
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks.forEach((task) => task.resolve());
+    await done;
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  test('Starts no further tasks after a failure and throws once running tasks finished', async () => {
+    const tasks = [deferred(), deferred(), deferred()];
+    const finished: number[] = [];
+    const done = runWithConcurrency(tasks, 2, async (task, index) => {
+      await task.promise;
+      finished.push(index);
+    });
+    let settled = false;
+    done.catch(() => (settled = true));
+
+    tasks[0].reject(new Error('failed'));
+    await flush();
+    expect(settled).toBe(false);
+
+    tasks[1].resolve();
+    await expect(done).rejects.toThrow('failed');
+    expect(finished).toEqual([1]);
+  });
+
+  test('Handles no items and a concurrency below one', async () => {
+    const task = jest.fn(async () => undefined);
+
+    await runWithConcurrency([], 4, task);
+    await runWithConcurrency(['a', 'b'], 0, task);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('Runs every task when the concurrency is not a number', async () => {
+    const task = jest.fn(async () => undefined);
+
+    await runWithConcurrency(['a', 'b'], NaN, task);
+    await runWithConcurrency(['c'], Infinity, task);
+
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+});
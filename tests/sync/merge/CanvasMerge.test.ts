@@ -0,0 +1,90 @@
+import { mergeCanvas } from '../../../sync/merge/CanvasMerge';
+
+describe('CanvasMerge', () => {
+  const node = (id: string, x = 0, text = id) => ({ id, type: 'text', text, x, y: 0, width: 250, height: 60 });
+  const edge = (id: string, fromNode: string, toNode: string) => ({ id, fromNode, fromSide: 'right', toNode, toSide: 'left' });
+  const canvas = (nodes: object[], edges: object[] = []) => JSON.stringify({ nodes, edges }, null, '\t');
+  const parse = (content: string | null) => JSON.parse(content!);
+
+  const base = canvas([node('a'), node('b'), node('c')], [edge('e1', 'a', 'b')]);
+
+  describe('With base version', () => {
+    test('Nodes moved on different sides are both kept', () => {
+      const local = canvas([node('a', 100), node('b'), node('c')], [edge('e1', 'a', 'b')]);
+      const remote = canvas([node('a'), node('b', 200), node('c')], [edge('e1', 'a', 'b')]);
+
+      const merged = parse(mergeCanvas(base, local, remote, true));
+
+      expect(merged.nodes).toEqual([node('a', 100), node('b', 200), node('c')]);
+      expect(merged.edges).toEqual([edge('e1', 'a', 'b')]);
+    });
+
+    test('Same node changed on both sides - newer side wins', () => {
+      const local = canvas([node('a', 100), node('b'), node('c')], [edge('e1', 'a', 'b')]);
+      const remote = canvas([node('a', 300), node('b'), node('c')], [edge('e1', 'a', 'b')]);
+
+      expect(parse(mergeCanvas(base, local, remote, true)).nodes[0]).toEqual(node('a', 100));
+      expect(parse(mergeCanvas(base, local, remote, false)).nodes[0]).toEqual(node('a', 300));
+    });
+
+    test('Nodes added on both sides are both kept', () => {
+      const local = canvas([node('a'), node('b'), node('c'), node('local')], [edge('e1', 'a', 'b')]);
+      const remote = canvas([node('a'), node('b'), node('c'), node('remote')], [edge('e1', 'a', 'b'), edge('e2', 'c', 'remote')]);
+
+      const merged = parse(mergeCanvas(base, local, remote, true));
+
+      expect(merged.nodes.map((n: { id: string }) => n.id)).toEqual(['a', 'b', 'c', 'local', 'remote']);
+      expect(merged.edges.map((e: { id: string }) => e.id)).toEqual(['e1', 'e2']);
+    });
+
+    test('Node deleted on one side is removed with its edges', () => {
+      const local = canvas([node('a'), node('c')], []);
+      const remote = canvas([node('a'), node('b'), node('c', 50)], [edge('e1', 'a', 'b')]);
+
+      const merged = parse(mergeCanvas(base, local, remote, false));
+
+      expect(merged.nodes).toEqual([node('a'), node('c', 50)]);
+      expect(merged.edges).toEqual([]);
+    });
+
+    test('Node deleted on one side but changed on the other is kept', () => {
+      const local = canvas([node('a'), node('c')], []);
+      const remote = canvas([node('a'), node('b', 75), node('c')], [edge('e1', 'a', 'b')]);
+
+      const merged = parse(mergeCanvas(base, local, remote, true));
+
+      expect(merged.nodes.map((n: { id: string }) => n.id)).toEqual(['a', 'c', 'b']);
+    });
+  });
+
+  describe('Without base version', () => {
+    test('Nodes of both sides are combined', () => {
+      const local = canvas([node('a'), node('b')]);
+      const remote = canvas([node('a', 10), node('c')]);
+
+      const merged = parse(mergeCanvas(null, local, remote, false));
+
+      expect(merged.nodes).toEqual([node('a', 10), node('b'), node('c')]);
+    });
+  });
+
+  describe('Invalid content', () => {
+    test('Returns null for invalid JSON', () => {
+      expect(mergeCanvas(base, '{ invalid', base, true)).toBeNull();
+    });
+
+    test('Returns null for nodes without id', () => {
+      expect(mergeCanvas(base, JSON.stringify({ nodes: [{ x: 1 }] }), base, true)).toBeNull();
+    });
+
+    test('Treats an empty file as an empty canvas', () => {
+      const merged = parse(mergeCanvas(null, '', canvas([node('a')]), true));
+
+      expect(merged.nodes).toEqual([node('a')]);
+    });
+  });
+
+  test('Writes tab-indented JSON like Obsidian', () => {
+    expect(mergeCanvas(base, base, base, true)).toBe(base);
+  });
+});
@@ -0,0 +1,89 @@
+import { mergeFrontmatter, parseFrontmatterProperties, splitFrontmatter } from '../../../sync/merge/FrontmatterMerge';
+
+describe('FrontmatterMerge', () => {
+  const note = (frontmatter: string[], body = '# Note\n\nSame body.\n') =>
+    ['---', ...frontmatter, '---', body].join('\n');
+
+  describe('splitFrontmatter', () => {
+    test('Splits frontmatter lines and body', () => {
+      expect(splitFrontmatter(note(['status: draft']))).toEqual({
+        frontmatter: ['status: draft'],
+        body: '# Note\n\nSame body.\n',
+      });
+    });
+
+    test('Note without frontmatter has only a body', () => {
+      expect(splitFrontmatter('# Note\n')).toEqual({ frontmatter: null, body: '# Note\n' });
+    });
+
+    test('Unclosed frontmatter is treated as body', () => {
+      expect(splitFrontmatter('---\nstatus: draft\n').frontmatter).toBeNull();
+    });
+  });
+
+  describe('parseFrontmatterProperties', () => {
+    test('Groups list items and nested values with their key', () => {
+      const properties = parseFrontmatterProperties(['tags:', '  - a', '  - b', 'status: done', 'nested:', '  key: value']);
+
+      expect(Array.from(properties.entries())).toEqual([
+        ['tags', 'tags:\n  - a\n  - b'],
+        ['status', 'status: done'],
+        ['nested', 'nested:\n  key: value'],
+      ]);
+    });
+  });
+
+  describe('mergeFrontmatter', () => {
+    const base = note(['tags:', '  - a', 'status: draft']);
+
+    test('Different keys changed on both sides are merged', () => {
+      const local = note(['tags:', '  - a', '  - b', 'status: draft']);
+      const remote = note(['tags:', '  - a', 'status: done']);
+
+      expect(mergeFrontmatter(base, local, remote)).toBe(note(['tags:', '  - a', '  - b', 'status: done']));
+    });
+
+    test('Keys added on both sides are merged', () => {
+      const local = note(['tags:', '  - a', 'status: draft', 'local: 1']);
+      const remote = note(['tags:', '  - a', 'status: draft', 'remote: 2']);
+
+      expect(mergeFrontmatter(base, local, remote)).toBe(
+        note(['tags:', '  - a', 'status: draft', 'local: 1', 'remote: 2']),
+      );
+    });
+
+    test('Key removed on one side is removed', () => {
+      const local = note(['tags:', '  - a']);
+      const remote = note(['tags:', '  - a', '  - c', 'status: draft']);
+
+      expect(mergeFrontmatter(base, local, remote)).toBe(note(['tags:', '  - a', '  - c']));
+    });
+
+    test('Same key with different values returns null', () => {
+      const local = note(['tags:', '  - a', 'status: review']);
+      const remote = note(['tags:', '  - a', 'status: done']);
+
+      expect(mergeFrontmatter(base, local, remote)).toBeNull();
+    });
+
+    test('Different bodies return null', () => {
+      const local = note(['status: done']);
+      const remote = note(['status: draft'], 'Other body.\n');
+
+      expect(mergeFrontmatter(base, local, remote)).toBeNull();
+    });
+
+    test('Without base, keys of both sides are combined', () => {
+      const local = note(['status: draft']);
+      const remote = note(['tags: [x]']);
+
+      expect(mergeFrontmatter(null, local, remote)).toBe(note(['status: draft', 'tags: [x]']));
+    });
+
+    test('Frontmatter added on one side is kept', () => {
+      const body = '# Note\n\nSame body.\n';
+
+      expect(mergeFrontmatter(null, body, note(['status: new']))).toBe(note(['status: new']));
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { diffLines } from '../../../sync/merge/LineDiff';
+
+describe('LineDiff', () => {
+  test('Identical texts only have unchanged lines', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  test('Reports removed and added lines in order', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  test('Lines added at the start come before the first match', () => {
+    expect(diffLines('b', 'a\nb')).toEqual([
+      { type: 'added', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+});
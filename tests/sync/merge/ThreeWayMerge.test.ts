@@ -0,0 +1,91 @@
+import { threeWayMerge, matchLines } from '../../../sync/merge/ThreeWayMerge';
+
+describe('ThreeWayMerge', () => {
+  const base = ['# Title', '', 'First paragraph.', '', 'Second paragraph.', '', 'Third paragraph.', ''].join('\n');
+
+  describe('Clean merges', () => {
+    test('Edits in different paragraphs are combined', () => {
+      const local = base.replace('First paragraph.', 'First paragraph, edited locally.');
+      const remote = base.replace('Third paragraph.', 'Third paragraph, edited remotely.');
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.lines.join('\n')).toBe(
+        base
+          .replace('First paragraph.', 'First paragraph, edited locally.')
+          .replace('Third paragraph.', 'Third paragraph, edited remotely.'),
+      );
+    });
+
+    test('Insertions and deletions on different sides are combined', () => {
+      const local = base.replace('Second paragraph.\n\n', '');
+      const remote = base + 'Appended remotely.\n';
+
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.lines.join('\n')).toBe(base.replace('Second paragraph.\n\n', '') + 'Appended remotely.\n');
+    });
+
+    test('Identical edits on both sides are taken once', () => {
+      const edited = base.replace('Second paragraph.', 'Same edit.');
+
+      const result = threeWayMerge(base, edited, edited);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.lines.join('\n')).toBe(edited);
+    });
+
+    test('Unchanged side takes the other side completely', () => {
+      const remote = 'Completely rewritten.\n';
+
+      const result = threeWayMerge(base, base, remote);
+
+      expect(result.conflicts).toBe(0);
+      expect(result.lines.join('\n')).toBe(remote);
+    });
+  });
+
+  describe('Overlapping hunks', () => {
+    const local = base.replace('Second paragraph.', 'Local version.');
+    const remote = base.replace('Second paragraph.', 'Remote version.');
+
+    test('Are counted as conflicts', () => {
+      const result = threeWayMerge(base, local, remote);
+
+      expect(result.conflicts).toBe(1);
+    });
+
+    test('Are written with conflict markers when requested', () => {
+      const result = threeWayMerge(base, local, remote, { markers: true });
+
+      expect(result.lines).toEqual([
+        '# Title', '', 'First paragraph.', '',
+        '<<<<<<< local',
+        'Local version.',
+        '=======',
+        'Remote version.',
+        '>>>>>>> remote',
+        '', 'Third paragraph.', '',
+      ]);
+    });
+
+    test('Different insertions at the same position conflict', () => {
+      const result = threeWayMerge('a\nb', 'a\nlocal\nb', 'a\nremote\nb');
+
+      expect(result.conflicts).toBe(1);
+    });
+  });
+
+  describe('matchLines', () => {
+    test('Maps lines of a longest common subsequence', () => {
+      expect(matchLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([0, -1, 2, 3]);
+    });
+
+    test('Handles empty inputs', () => {
+      expect(matchLines([], ['a'])).toEqual([]);
+      expect(matchLines(['a'], [])).toEqual([-1]);
+    });
+  });
+});
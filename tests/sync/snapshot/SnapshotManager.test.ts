@@ -0,0 +1,125 @@
+import { Platform } from 'obsidian';
+import { SnapshotManager } from '../../../sync/snapshot/SnapshotManager';
+import { MockApp } from '../../mocks/MockObsidianApp';
+import { MockPlugin } from '../../mocks/MockPlugin';
+import { MockS3Service } from '../../mocks/MockS3Service';
+
+describe('SnapshotManager', () => {
+  let snapshotManager: SnapshotManager;
+  let mockApp: MockApp;
+  let mockPlugin: MockPlugin;
+  let mockS3: MockS3Service;
+  const encode = (text: string) => new TextEncoder().encode(text).buffer;
+  const decode = (content: ArrayBuffer) => new TextDecoder().decode(content);
+
+  beforeEach(() => {
+    mockApp = new MockApp();
+    mockPlugin = new MockPlugin();
+    mockS3 = new MockS3Service();
+    snapshotManager = new SnapshotManager(mockApp.asApp(), mockPlugin.asPlugin(), mockS3.asS3Service());
+    mockApp.vault.addFile('note.md', 1700000000000, encode('note'));
+    mockApp.vault.addFile('folder/copy.md', 1700000000000, encode('note'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Creates and reads a tar.gz snapshot', async () => {
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+
+    const [snapshot] = await snapshotManager.listSnapshots();
+    expect(snapshot.format).toBe('tar.gz');
+    expect(snapshot.path).toMatch(/^\.kisss3\/snapshots\/.+\.tar\.gz$/);
+
+    const entries = await snapshotManager.readSnapshot(snapshot);
+    expect(entries.map((e) => [e.path, decode(e.content), e.mtime])).toEqual([
+      ['note.md', 'note', 1700000000000],
+      ['folder/copy.md', 'note', 1700000000000],
+    ]);
+  });
+
+  test('Manifest snapshots store each content once', async () => {
+    mockPlugin.settings.snapshotFormat = 'manifest';
+
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+
+    const remotePaths = Array.from(mockS3.getRemoteFiles().keys());
+    expect(remotePaths.filter((p) => p.startsWith('.kisss3/snapshots/objects/'))).toHaveLength(1);
+
+    const [snapshot] = await snapshotManager.listSnapshots();
+    expect(snapshot.format).toBe('manifest');
+    const entries = await snapshotManager.readSnapshot(snapshot);
+    expect(entries.map((e) => [e.path, decode(e.content)])).toEqual([
+      ['note.md', 'note'],
+      ['folder/copy.md', 'note'],
+    ]);
+  });
+
+  test('A snapshot is due when the newest is older than the interval', async () => {
+    expect(await snapshotManager.isSnapshotDue()).toBe(true);
+
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+    expect(await snapshotManager.isSnapshotDue()).toBe(false);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+    expect(await snapshotManager.isSnapshotDue()).toBe(true);
+  });
+
+  test('Retention removes expired snapshots and unreferenced contents', async () => {
+    mockPlugin.settings.snapshotFormat = 'manifest';
+    mockPlugin.settings.snapshotKeepDaily = 1;
+    mockPlugin.settings.snapshotKeepWeekly = 0;
+    const day = 24 * 60 * 60 * 1000;
+
+    // An old snapshot with a content that is no longer in the vault
+    mockApp.vault.addFile('old.md', 1000, encode('old'));
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+    const [old] = await snapshotManager.listSnapshots();
+    mockS3.getRemoteFiles().get(old.path)!.LastModified = new Date(Date.now() - 3 * day);
+
+    mockApp.vault.removeFile('old.md');
+    jest.setSystemTime(Date.now() + 1000); // Snapshots are named by time
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+
+    expect(await snapshotManager.applyRetention()).toBe(1);
+
+    const snapshots = await snapshotManager.listSnapshots();
+    expect(snapshots).toHaveLength(1);
+    const objects = Array.from(mockS3.getRemoteFiles().keys()).filter((p) => p.includes('/objects/'));
+    expect(objects).toHaveLength(1);
+  });
+
+  test('Retention keeps the newest snapshot with zero days and weeks', async () => {
+    mockPlugin.settings.snapshotKeepDaily = 0;
+    mockPlugin.settings.snapshotKeepWeekly = 0;
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+    jest.setSystemTime(Date.now() + 1000);
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+    const [newest] = await snapshotManager.listSnapshots();
+
+    expect(await snapshotManager.applyRetention()).toBe(1);
+    expect(await snapshotManager.listSnapshots()).toEqual([newest]);
+  });
+
+  test('Vaults too large to hold in memory get a manifest snapshot', async () => {
+    mockApp.vault.addFile('video.mp4', 1000, new ArrayBuffer(0)).stat.size = 600 * 1024 * 1024;
+
+    await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+
+    const [snapshot] = await snapshotManager.listSnapshots();
+    expect(snapshot.format).toBe('manifest');
+  });
+
+  test('Mobile devices create manifest snapshots', async () => {
+    Platform.isMobile = true;
+    try {
+      await snapshotManager.createSnapshot(mockApp.vault.getFiles());
+    } finally {
+      Platform.isMobile = false;
+    }
+
+    const [snapshot] = await snapshotManager.listSnapshots();
+    expect(snapshot.format).toBe('manifest');
+  });
+});
@@ -0,0 +1,38 @@
+import { selectSnapshotsToKeep } from '../../../sync/snapshot/SnapshotRetention';
+
+describe('SnapshotRetention', () => {
+  const day = 24 * 60 * 60 * 1000;
+  // Monday, 2024-01-15 12:00 local time
+  const monday = new Date(2024, 0, 15, 12).getTime();
+
+  test('Keeps the newest snapshot of each of the last N days', () => {
+    const snapshots = [monday, monday - 2 * 60 * 60 * 1000, monday - day, monday - 2 * day];
+
+    const keep = selectSnapshotsToKeep(snapshots, 2, 0);
+
+    expect(Array.from(keep).sort()).toEqual([monday - day, monday].sort());
+  });
+
+  test('Keeps the newest snapshot of each of the last M weeks', () => {
+    const snapshots = [monday, monday - day, monday - 7 * day, monday - 8 * day, monday - 14 * day];
+
+    const keep = selectSnapshotsToKeep(snapshots, 0, 2);
+
+    // Monday starts a new week: the week before is represented by Sunday
+    expect(Array.from(keep).sort()).toEqual([monday - day, monday].sort());
+  });
+
+  test('Daily and weekly rules are combined', () => {
+    const snapshots = Array.from({ length: 30 }, (_, i) => monday - i * day);
+
+    const keep = selectSnapshotsToKeep(snapshots, 3, 3);
+
+    // Days: Monday, Sunday, Saturday; weeks: Monday, Sunday and the Sunday before
+    expect(Array.from(keep).sort()).toEqual([monday, monday - day, monday - 2 * day, monday - 8 * day].sort());
+  });
+
+  test('Always keeps the newest snapshot, even with zero days and weeks', () => {
+    expect(Array.from(selectSnapshotsToKeep([monday - day, monday], 0, 0))).toEqual([monday]);
+    expect(selectSnapshotsToKeep([], 0, 0).size).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { createTar, createTarGz, readTar, gzip, gunzip } from '../../../sync/snapshot/TarArchive';
+
+describe('TarArchive', () => {
+  const encode = (text: string) => new TextEncoder().encode(text).buffer;
+  const decode = (content: ArrayBuffer) => new TextDecoder().decode(content);
+
+  test('Writes and reads files with content and mtime', () => {
+    const archive = createTar([
+      { path: 'note.md', content: encode('hello'), mtime: 1700000000000 },
+      { path: 'folder/empty.md', content: new ArrayBuffer(0), mtime: 1700000001000 },
+    ]);
+
+    expect(archive.byteLength % 512).toBe(0);
+    const entries = readTar(archive);
+    expect(entries.map((e) => [e.path, decode(e.content), e.mtime])).toEqual([
+      ['note.md', 'hello', 1700000000000],
+      ['folder/empty.md', '', 1700000001000],
+    ]);
+  });
+
+  test('Writes a valid ustar header checksum', () => {
+    const header = new Uint8Array(createTar([{ path: 'a.md', content: encode('a'), mtime: 0 }])).subarray(0, 512);
+    const stored = parseInt(new TextDecoder().decode(header.subarray(148, 154)), 8);
+    const computed = header.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 32 : byte), 0);
+
+    expect(new TextDecoder().decode(header.subarray(257, 262))).toBe('ustar');
+    expect(stored).toBe(computed);
+  });
+
+  test('Keeps long and non-ASCII paths', () => {
+    const splittable = `${'folder/'.repeat(20)}note.md`;
+    const unsplittable = `${'x'.repeat(120)}/${'ä'.repeat(60)}.md`;
+
+    const entries = readTar(createTar([
+      { path: splittable, content: encode('1'), mtime: 0 },
+      { path: unsplittable, content: encode('2'), mtime: 0 },
+    ]));
+
+    expect(entries.map((e) => e.path)).toEqual([splittable, unsplittable]);
+  });
+
+  test('Compresses and decompresses with gzip', async () => {
+    const data = encode('snapshot '.repeat(1000));
+
+    const compressed = await gzip(data);
+
+    expect(compressed.byteLength).toBeLessThan(data.byteLength);
+    expect(decode(await gunzip(compressed))).toBe(decode(data));
+  });
+
+  test('Packs files read one at a time into a compressed archive', async () => {
+    async function* files() {
+      yield { path: 'a.md', content: encode('a'), mtime: 1000 };
+      yield { path: 'b.md', content: encode('b'), mtime: 2000 };
+    }
+
+    const entries = readTar(await gunzip(await createTarGz(files())));
+
+    expect(entries.map((e) => [e.path, decode(e.content), e.mtime])).toEqual([
+      ['a.md', 'a', 1000],
+      ['b.md', 'b', 2000],
+    ]);
+  });
+});
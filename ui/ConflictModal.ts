@@ -0,0 +1,83 @@
+import { App, Modal, Setting } from "obsidian";
+
+export type ConflictChoice = "keep-local" | "keep-remote" | "keep-both";
+
+/**
+ * Asks the user how to resolve a file that was changed on both sides
+ */
+export class ConflictModal extends Modal {
+	private choice: ConflictChoice | null = null;
+
+	constructor(
+		app: App,
+		private filePath: string,
+		private localMtime: number,
+		private remoteMtime: number,
+		private onChoose: (choice: ConflictChoice | null) => void,
+	) {
+		super(app);
+	}
+
+	/**
+	 * Opens the modal and resolves with the user's choice, or null if the
+	 * modal was closed without choosing
+	 */
+	static ask(
+		app: App,
+		filePath: string,
+		localMtime: number,
+		remoteMtime: number,
+	): Promise<ConflictChoice | null> {
+		return new Promise((resolve) => {
+			new ConflictModal(
+				app,
+				filePath,
+				localMtime,
+				remoteMtime,
+				resolve,
+			).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Conflict" });
+		contentEl.createEl("p", {
+			text: `${this.filePath} was changed on this device and remotely.`,
+		});
+		contentEl.createEl("p", {
+			text: `Local: ${new Date(this.localMtime).toLocaleString()}`,
+		});
+		contentEl.createEl("p", {
+			text: `Remote: ${new Date(this.remoteMtime).toLocaleString()}`,
+		});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Keep local")
+					.onClick(() => this.choose("keep-local")),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Keep remote")
+					.onClick(() => this.choose("keep-remote")),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Keep both")
+					.setCta()
+					.onClick(() => this.choose("keep-both")),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onChoose(this.choice);
+	}
+
+	private choose(choice: ConflictChoice) {
+		this.choice = choice;
+		this.close();
+	}
+}
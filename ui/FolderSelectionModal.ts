@@ -0,0 +1,110 @@
+import { App, Modal, Setting } from "obsidian";
+import { normalizeFolderSelection } from "../sync/FolderSelection";
+
+/**
+ * Shows the vault's folders as a tree and lets the user pick the folders
+ * this device syncs. Subfolders of a selected folder are included and
+ * cannot be deselected on their own.
+ */
+export class FolderSelectionModal extends Modal {
+	private selected: Set<string>;
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private folders: string[],
+		selected: string[],
+		private onResult: (folders: string[] | null) => void,
+	) {
+		super(app);
+		this.selected = new Set(selected);
+	}
+
+	/**
+	 * Opens the folder tree and resolves with the selected folders (empty
+	 * for the whole vault), or null if the modal was closed
+	 */
+	static choose(
+		app: App,
+		folders: string[],
+		selected: string[],
+	): Promise<string[] | null> {
+		return new Promise((resolve) => {
+			new FolderSelectionModal(app, folders, selected, resolve).open();
+		});
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "S3 Sync: Folders on this device" });
+		contentEl.createEl("p", {
+			text: "Only the selected folders are synced on this device. Files at the vault root are always synced. Select nothing to sync the whole vault.",
+		});
+
+		const tree = contentEl.createDiv({ cls: "kisss3-folder-tree" });
+		for (const folder of this.folders) {
+			const parts = folder.split("/");
+			const inherited = this.hasSelectedParent(folder);
+			const setting = new Setting(tree)
+				.setName(parts[parts.length - 1])
+				.addToggle((toggle) =>
+					toggle
+						.setValue(inherited || this.selected.has(folder))
+						.setDisabled(inherited)
+						.onChange((value) => {
+							if (value) {
+								this.selected.add(folder);
+							} else {
+								this.selected.delete(folder);
+							}
+							this.render();
+						}),
+				);
+			setting.settingEl.addClass("kisss3-folder-tree-item");
+			setting.settingEl.style.setProperty(
+				"--kisss3-folder-depth",
+				String(parts.length - 1),
+			);
+		}
+		if (this.folders.length === 0) {
+			contentEl.createEl("p", { text: "The vault has no folders." });
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					}),
+			);
+	}
+
+	/**
+	 * Checks if a folder is included through a selected parent folder
+	 */
+	private hasSelectedParent(folder: string): boolean {
+		return Array.from(this.selected).some((selected) =>
+			folder.startsWith(`${selected}/`),
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(
+			this.confirmed
+				? normalizeFolderSelection(Array.from(this.selected))
+				: null,
+		);
+	}
+}
@@ -0,0 +1,81 @@
+import { App, Modal, Setting } from "obsidian";
+import { FileSyncDecision, SyncAction } from "../sync/SyncTypes";
+
+// Number of paths listed before the rest is summarized
+const MAX_LISTED_PATHS = 10;
+
+/**
+ * Asks the user to confirm a sync that would delete more files than the
+ * configured threshold
+ */
+export class MassDeleteModal extends Modal {
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private deletes: FileSyncDecision[],
+		private syncedFileCount: number,
+		private onResult: (confirmed: boolean) => void,
+	) {
+		super(app);
+	}
+
+	/**
+	 * Opens the modal and resolves with true if the user confirmed the
+	 * deletions, false if the sync should be stopped
+	 */
+	static confirm(
+		app: App,
+		deletes: FileSyncDecision[],
+		syncedFileCount: number,
+	): Promise<boolean> {
+		return new Promise((resolve) => {
+			new MassDeleteModal(app, deletes, syncedFileCount, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const localCount = this.deletes.filter(
+			(d) => d.action === SyncAction.DELETE_LOCAL,
+		).length;
+		const remoteCount = this.deletes.length - localCount;
+
+		contentEl.createEl("h2", { text: "S3 Sync: Confirm deletions" });
+		contentEl.createEl("p", {
+			text: `This sync would delete ${this.deletes.length} of ${this.syncedFileCount} synced files (${localCount} on this device, ${remoteCount} remotely). Check the bucket and prefix settings if this is unexpected.`,
+		});
+
+		const list = contentEl.createEl("ul");
+		for (const decision of this.deletes.slice(0, MAX_LISTED_PATHS)) {
+			list.createEl("li", { text: decision.filePath });
+		}
+		if (this.deletes.length > MAX_LISTED_PATHS) {
+			list.createEl("li", {
+				text: `... and ${this.deletes.length - MAX_LISTED_PATHS} more`,
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Stop sync")
+					.setCta()
+					.onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Delete files")
+					.setWarning()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					}),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(this.confirmed);
+	}
+}
@@ -0,0 +1,70 @@
+import { App, Modal, Setting } from "obsidian";
+
+// Number of paths listed before the rest is summarized
+const MAX_LISTED_PATHS = 10;
+
+/**
+ * Asks whether to delete the remote copies of notes that became private
+ * after they were synced. The local notes are never deleted.
+ */
+export class PrivateNotesModal extends Modal {
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private paths: string[],
+		private onResult: (confirmed: boolean) => void,
+	) {
+		super(app);
+	}
+
+	/**
+	 * Opens the modal and resolves with true if the remote copies should be
+	 * deleted
+	 */
+	static confirm(app: App, paths: string[]): Promise<boolean> {
+		return new Promise((resolve) => {
+			new PrivateNotesModal(app, paths, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Private notes" });
+		contentEl.createEl("p", {
+			text: `${this.paths.length} notes are now excluded from sync but were synced before. Their remote copies still exist. The notes on this device are kept either way.`,
+		});
+
+		const list = contentEl.createEl("ul");
+		for (const path of this.paths.slice(0, MAX_LISTED_PATHS)) {
+			list.createEl("li", { text: path });
+		}
+		if (this.paths.length > MAX_LISTED_PATHS) {
+			list.createEl("li", {
+				text: `... and ${this.paths.length - MAX_LISTED_PATHS} more`,
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Keep remote copies")
+					.setCta()
+					.onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Delete remote copies")
+					.setWarning()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					}),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(this.confirmed);
+	}
+}
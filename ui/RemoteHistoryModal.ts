@@ -0,0 +1,121 @@
+import { App, Modal, Setting } from "obsidian";
+import { RemoteFileVersion } from "../s3/S3Service";
+import { diffLines } from "../sync/merge/LineDiff";
+
+export interface RemoteHistoryActions {
+	loadVersion(version: RemoteFileVersion): Promise<ArrayBuffer>;
+	readLocal(): Promise<string | null>; // null if the file is not stored locally
+	restore(version: RemoteFileVersion, asCopy: boolean): Promise<void>;
+}
+
+/**
+ * Lists the remote versions of a file. A version can be previewed, compared
+ * with the local file, or restored as the current version or a side copy.
+ */
+export class RemoteHistoryModal extends Modal {
+	constructor(
+		app: App,
+		private filePath: string,
+		private versions: RemoteFileVersion[],
+		private isText: boolean,
+		private actions: RemoteHistoryActions,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		this.showVersions();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private showVersions() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: `S3 Sync: History of ${this.filePath}` });
+
+		for (const version of this.versions) {
+			const setting = new Setting(contentEl)
+				.setName(new Date(version.mtime).toLocaleString())
+				.setDesc(
+					(version.size !== undefined ? `${version.size} bytes` : "") +
+						(version.isLatest ? " (current)" : ""),
+				);
+			if (this.isText) {
+				setting
+					.addButton((button) =>
+						button
+							.setButtonText("Preview")
+							.onClick(() => this.showPreview(version)),
+					)
+					.addButton((button) =>
+						button
+							.setButtonText("Diff")
+							.onClick(() => this.showDiff(version)),
+					);
+			}
+			setting
+				.addButton((button) =>
+					button
+						.setButtonText("Restore")
+						.setDisabled(version.isLatest)
+						.onClick(() => this.restore(version, false)),
+				)
+				.addButton((button) =>
+					button
+						.setButtonText("Save copy")
+						.onClick(() => this.restore(version, true)),
+				);
+		}
+	}
+
+	private async showPreview(version: RemoteFileVersion) {
+		const content = new TextDecoder().decode(
+			await this.actions.loadVersion(version),
+		);
+		this.showDetail(version, "Preview");
+		this.contentEl.createEl("pre", { text: content });
+	}
+
+	private async showDiff(version: RemoteFileVersion) {
+		const [remoteContent, localContent] = await Promise.all([
+			this.actions.loadVersion(version),
+			this.actions.readLocal(),
+		]);
+		this.showDetail(version, "Changes from this version to the local file");
+
+		const pre = this.contentEl.createEl("pre");
+		const lines = diffLines(
+			new TextDecoder().decode(remoteContent),
+			localContent ?? "",
+		);
+		for (const line of lines) {
+			const prefix =
+				line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  ";
+			pre.createEl("div", {
+				text: prefix + line.text,
+				cls: `kisss3-diff-${line.type}`,
+			});
+		}
+	}
+
+	private showDetail(version: RemoteFileVersion, title: string) {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", {
+			text: `${this.filePath}, ${new Date(version.mtime).toLocaleString()}`,
+		});
+		new Setting(contentEl)
+			.setName(title)
+			.addButton((button) =>
+				button.setButtonText("Back").onClick(() => this.showVersions()),
+			);
+	}
+
+	private async restore(version: RemoteFileVersion, asCopy: boolean) {
+		await this.actions.restore(version, asCopy);
+		this.close();
+	}
+}
@@ -0,0 +1,43 @@
+import { App, Modal, Setting } from "obsidian";
+import { RemoteTrashEntry } from "../s3/S3Service";
+
+/**
+ * Lists the files in the remote trash and restores them on request
+ */
+export class RemoteTrashModal extends Modal {
+	constructor(
+		app: App,
+		private entries: RemoteTrashEntry[],
+		private onRestore: (entry: RemoteTrashEntry) => Promise<boolean>,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Remote trash" });
+
+		for (const entry of this.entries) {
+			const setting = new Setting(contentEl)
+				.setName(entry.path)
+				.setDesc(
+					`Deleted ${new Date(entry.deletedAt).toLocaleString()}` +
+						(entry.size !== undefined ? `, ${entry.size} bytes` : ""),
+				);
+			setting.addButton((button) =>
+				button.setButtonText("Restore").onClick(async () => {
+					button.setDisabled(true);
+					if (await this.onRestore(entry)) {
+						setting.settingEl.remove();
+					} else {
+						button.setDisabled(false);
+					}
+				}),
+			);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
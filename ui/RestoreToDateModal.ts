@@ -0,0 +1,80 @@
+import { App, Modal, Setting, normalizePath } from "obsidian";
+
+export interface RestoreTarget {
+	timestamp: number; // Point in time in milliseconds
+	folder: string; // Folder to restore, empty for the whole vault
+}
+
+/**
+ * Asks for the date and, optionally, the folder to restore from the
+ * remote versions
+ */
+export class RestoreToDateModal extends Modal {
+	private dateValue = "";
+	private folderValue = "";
+	private target: RestoreTarget | null = null;
+
+	constructor(
+		app: App,
+		private onResult: (target: RestoreTarget | null) => void,
+	) {
+		super(app);
+	}
+
+	/**
+	 * Opens the modal and resolves with the restore target, or null if the
+	 * modal was closed
+	 */
+	static ask(app: App): Promise<RestoreTarget | null> {
+		return new Promise((resolve) => {
+			new RestoreToDateModal(app, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Restore vault to date" });
+		contentEl.createEl("p", {
+			text: "Files are restored to the remote version that was current at this time. The changes are shown before anything is restored.",
+		});
+
+		new Setting(contentEl).setName("Date and time").addText((text) => {
+			text.inputEl.type = "datetime-local";
+			text.onChange((value) => (this.dateValue = value));
+		});
+
+		new Setting(contentEl)
+			.setName("Folder")
+			.setDesc("Only restore this folder. Leave empty for the whole vault.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Journal/2024")
+					.onChange((value) => (this.folderValue = value)),
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Preview changes")
+					.setCta()
+					.onClick(() => {
+						const timestamp = new Date(this.dateValue).getTime();
+						if (isNaN(timestamp)) return;
+						const folder = this.folderValue.trim();
+						this.target = {
+							timestamp,
+							folder: folder ? normalizePath(folder) : "",
+						};
+						this.close();
+					}),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(this.target);
+	}
+}
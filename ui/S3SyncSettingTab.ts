@@ -1,5 +1,61 @@
 import { App, PluginSettingTab, Setting, normalizePath } from "obsidian";
 import S3SyncPlugin from "../main";
+import {
+	ConflictPolicy,
+	ConflictPolicyOverride,
+	DeleteThresholdUnit,
+	LocalDeleteMode,
+	SnapshotFormat,
+	S3SyncSettings,
+	DEFAULT_SETTINGS,
+} from "../settings";
+import { FolderSelectionModal } from "./FolderSelectionModal";
+
+// Settings that hold a number
+type NumberSettingKey = {
+	[K in keyof S3SyncSettings]: S3SyncSettings[K] extends number ? K : never;
+}[keyof S3SyncSettings];
+
+// Settings that hold a toggle
+type BooleanSettingKey = {
+	[K in keyof S3SyncSettings]: S3SyncSettings[K] extends boolean ? K : never;
+}[keyof S3SyncSettings];
+
+const CONFLICT_POLICY_OPTIONS: Record<ConflictPolicy, string> = {
+	"keep-both": "Keep both (save remote as conflict copy)",
+	"keep-local": "Keep local",
+	"keep-remote": "Keep remote",
+	"newest-wins": "Newest wins",
+	ask: "Ask",
+};
+
+/**
+ * Parses `pattern = policy` lines, skipping lines with an unknown policy
+ */
+function parseConflictPolicyOverrides(value: string): ConflictPolicyOverride[] {
+	const overrides: ConflictPolicyOverride[] = [];
+	for (const line of value.split("\n")) {
+		const separator = line.lastIndexOf("=");
+		if (separator === -1) continue;
+		const pattern = line.substring(0, separator).trim();
+		const policy = line.substring(separator + 1).trim();
+		if (pattern && policy in CONFLICT_POLICY_OPTIONS) {
+			overrides.push({ pattern, policy: policy as ConflictPolicy });
+		}
+	}
+	return overrides;
+}
+
+/**
+ * Parses a comma- or space-separated extension list into lowercase
+ * extensions without the leading dot
+ */
+function parseExtensionList(value: string): string[] {
+	return value
+		.split(/[\s,]+/)
+		.map((extension) => extension.replace(/^\./, "").toLowerCase())
+		.filter((extension) => extension.length > 0);
+}
 
 export class S3SyncSettingTab extends PluginSettingTab {
 	plugin: S3SyncPlugin;
@@ -99,49 +155,437 @@ export class S3SyncSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl).setHeading().setName("Automatic sync");
 
+		this.addToggleSetting(
+			containerEl,
+			"Enable automatic sync",
+			"Enable syncing at a regular interval.",
+			"enableAutomaticSync",
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Sync interval (minutes)",
+			"How often to sync automatically. Must be a number greater than 0.",
+			"syncIntervalMinutes",
+			1,
+		);
+
+		this.addToggleSetting(
+			containerEl,
+			"Push edits right away",
+			"Upload edited, created and renamed files shortly after you stop editing, without waiting for the next sync. Remote changes are still picked up by the next sync.",
+			"enableLivePush",
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Quiet period (seconds)",
+			"How long no file must change before edits are pushed.",
+			"livePushDelaySeconds",
+			1,
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Incremental sync",
+			"Only analyze files changed on this device, and files changed by other devices, instead of the whole vault and bucket. Use the \"Full sync now\" command to compare everything.",
+			"enableIncrementalSync",
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Full sync interval (hours)",
+			"List the whole bucket this often, instead of relying on the remote manifest. With incremental sync, also compare the whole vault.",
+			"fullSyncIntervalHours",
+			1,
+		);
+
+		new Setting(containerEl).setHeading().setName("Transfers");
+
+		this.addNumberSetting(
+			containerEl,
+			"Parallel downloads",
+			"How many files a sync downloads at the same time. Use 1 to download one file after the other.",
+			"downloadConcurrency",
+			1,
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Parallel uploads",
+			"How many files a sync uploads at the same time. Use 1 to upload one file after the other.",
+			"uploadConcurrency",
+			1,
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Multipart upload threshold (MB)",
+			"Upload larger files in parts. Failed parts are retried, and an interrupted upload continues on the next sync.",
+			"multipartThresholdMB",
+			5,
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Ranged download threshold (MB)",
+			"Download larger files in chunks. Failed chunks are retried, an interrupted download continues on the next sync, and the file is only written once its size and checksum are verified.",
+			"rangedDownloadThresholdMB",
+			1,
+		);
+
+		new Setting(containerEl).setHeading().setName("Folders");
+
+		const syncFolders = this.plugin.settings.syncFolders;
 		new Setting(containerEl)
-			.setName("Enable automatic sync")
-			.setDesc("Enable syncing at a regular interval.")
-			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.enableAutomaticSync)
+			.setName("Folders on this device")
+			.setDesc(
+				syncFolders.length > 0
+					? `Only these folders are synced on this device: ${syncFolders.join(", ")}`
+					: "This device syncs the whole vault.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Choose folders").onClick(async () => {
+					const folders = await FolderSelectionModal.choose(
+						this.app,
+						await this.plugin.syncManager.listSelectableFolders(),
+						syncFolders,
+					);
+					if (folders) {
+						await this.plugin.syncManager.changeSyncFolders(folders);
+						this.display();
+					}
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Private note tag")
+			.setDesc(
+				"Notes with this tag, or with kisss3: false in the frontmatter, never leave this device. Leave empty to only use the frontmatter.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.privateNoteTag)
+					.setValue(this.plugin.settings.privateNoteTag)
 					.onChange(async (value) => {
-						this.plugin.settings.enableAutomaticSync = value;
+						this.plugin.settings.privateNoteTag = value.trim();
 						await this.plugin.saveSettings();
 					}),
 			);
 
+		new Setting(containerEl).setHeading().setName("Sync scope");
+
+		this.addNumberSetting(
+			containerEl,
+			"Maximum file size (MB)",
+			"Larger files are not synced. Set to 0 for no limit.",
+			"maxFileSizeMB",
+			0,
+		);
+
 		new Setting(containerEl)
-			.setName("Sync interval (minutes)")
+			.setName("Only sync extensions")
 			.setDesc(
-				"How often to sync automatically. Must be a number greater than 0.",
+				"Comma-separated list, e.g. md, canvas, png. Leave empty to sync all extensions.",
 			)
 			.addText((text) =>
 				text
-					.setPlaceholder("15")
+					.setValue(this.plugin.settings.includeExtensions.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.includeExtensions =
+							parseExtensionList(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Never sync extensions")
+			.setDesc("Comma-separated list, e.g. mp4, mov.")
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.excludeExtensions.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.excludeExtensions =
+							parseExtensionList(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.addNumberSetting(
+			containerEl,
+			"Recent files only (days)",
+			"Only sync files modified on either side within this many days. Set to 0 to sync all files.",
+			"recentOnlyDays",
+			0,
+		);
+
+		new Setting(containerEl).setHeading().setName("Configuration folder");
+
+		const configDir = this.app.vault.configDir;
+		this.addToggleSetting(
+			containerEl,
+			"Sync configuration folder",
+			`Sync the selected parts of ${configDir} between devices. The credentials and sync state of this plugin are never synced.`,
+			"enableConfigSync",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Plugins",
+			"Community plugins, their settings and the list of enabled plugins.",
+			"configSyncPlugins",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Themes",
+			"Installed themes.",
+			"configSyncThemes",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"CSS snippets",
+			"CSS snippets.",
+			"configSyncSnippets",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Hotkeys",
+			"Custom hotkeys.",
+			"configSyncHotkeys",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Core settings",
+			"App, appearance and core plugin settings.",
+			"configSyncCore",
+		);
+		this.addToggleSetting(
+			containerEl,
+			"Workspace",
+			"Open panes and files (workspace*.json). Usually differs per device.",
+			"configSyncWorkspace",
+		);
+
+		new Setting(containerEl).setHeading().setName("Deletions");
+
+		this.addNumberSetting(
+			containerEl,
+			"Confirm mass deletions",
+			"Ask before a sync deletes more files than this. Set to 0 to disable.",
+			"deleteThreshold",
+			0,
+		).addDropdown((dropdown) =>
+			dropdown
+				.addOptions({ files: "files", percent: "% of synced files" })
+				.setValue(this.plugin.settings.deleteThresholdUnit)
+				.onChange(async (value) => {
+					this.plugin.settings.deleteThresholdUnit =
+						value as DeleteThresholdUnit;
+					await this.plugin.saveSettings();
+				}),
+		);
+
+		new Setting(containerEl)
+			.setName("Deleted local files")
+			.setDesc(
+				"Where files go that a sync deletes on this device. Only files in the vault trash can be restored with the \"Restore files deleted by last sync\" command.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						"vault-trash": "Move to vault trash (.trash)",
+						"system-trash": "Move to system trash",
+						delete: "Delete permanently",
+					})
+					.setValue(this.plugin.settings.localDeleteMode)
+					.onChange(async (value) => {
+						this.plugin.settings.localDeleteMode =
+							value as LocalDeleteMode;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.addToggleSetting(
+			containerEl,
+			"Remote trash",
+			"Move files deleted remotely to the .trash folder below the remote prefix instead of deleting them.",
+			"enableRemoteTrash",
+		);
+
+		this.addNumberSetting(
+			containerEl,
+			"Remote trash retention (days)",
+			"Files in the remote trash older than this are deleted after a sync. Set to 0 to keep them until purged.",
+			"remoteTrashRetentionDays",
+			0,
+		);
+
+		new Setting(containerEl).setHeading().setName("Conflicts");
+
+		new Setting(containerEl)
+			.setName("Conflict policy")
+			.setDesc(
+				"How to resolve files that were changed on this device and remotely.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(CONFLICT_POLICY_OPTIONS)
+					.setValue(this.plugin.settings.conflictPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.conflictPolicy =
+							value as ConflictPolicy;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Conflict policy overrides")
+			.setDesc(
+				"One rule per line as `pattern = policy`, e.g. `*.canvas = keep-both` or `Journal/ = keep-local`. The first matching rule wins.",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Journal/ = keep-local")
 					.setValue(
-						this.plugin.settings.syncIntervalMinutes.toString(),
+						this.plugin.settings.conflictPolicyOverrides
+							.map((o) => `${o.pattern} = ${o.policy}`)
+							.join("\n"),
 					)
 					.onChange(async (value) => {
-						const numValue = parseInt(value, 10);
-						if (!isNaN(numValue) && numValue > 0) {
-							this.plugin.settings.syncIntervalMinutes = numValue;
-							await this.plugin.saveSettings();
-						}
+						this.plugin.settings.conflictPolicyOverrides =
+							parseConflictPolicyOverrides(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.addToggleSetting(
+			containerEl,
+			"Merge Markdown notes",
+			"Merge notes changed on both sides line by line against the last synced version. The conflict policy only applies if the changes overlap.",
+			"enableThreeWayMerge",
+		);
+
+		this.addToggleSetting(
+			containerEl,
+			"Merge frontmatter",
+			"Merge the properties of notes changed on both sides key by key if the note body is identical. The conflict policy applies if a key has different values.",
+			"enableFrontmatterMerge",
+		);
+
+		this.addToggleSetting(
+			containerEl,
+			"Write conflict markers",
+			"Keep overlapping changes in the note between conflict markers instead of applying the conflict policy.",
+			"mergeConflictMarkers",
+		);
+
+		this.addToggleSetting(
+			containerEl,
+			"Merge canvas files",
+			"Merge canvases changed on both sides by node and edge. If the same node was changed on both sides, the newer version wins.",
+			"enableCanvasMerge",
+		);
+
+		new Setting(containerEl).setHeading().setName("Snapshots");
+
+		this.addToggleSetting(
+			containerEl,
+			"Create snapshots",
+			"Upload a full snapshot of the vault to .kisss3/snapshots/ below the remote prefix. Checked at the sync interval, only on devices without selected folders or scope filters.",
+			"enableSnapshots",
+		);
+
+		new Setting(containerEl)
+			.setName("Snapshot format")
+			.setDesc(
+				"A manifest stores each file content only once across all snapshots. Mobile devices and vaults over 512 MB always create manifests.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						"tar.gz": "Compressed archive (tar.gz)",
+						manifest: "Manifest with content-addressed files",
+					})
+					.setValue(this.plugin.settings.snapshotFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.snapshotFormat =
+							value as SnapshotFormat;
+						await this.plugin.saveSettings();
 					}),
 			);
+
+		this.addNumberSetting(
+			containerEl,
+			"Snapshot interval (hours)",
+			"Minimum time between two snapshots.",
+			"snapshotIntervalHours",
+			1,
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Keep daily snapshots",
+			"Keep the newest snapshot of this many days.",
+			"snapshotKeepDaily",
+			0,
+		);
+		this.addNumberSetting(
+			containerEl,
+			"Keep weekly snapshots",
+			"Keep the newest snapshot of this many weeks. The newest snapshot is always kept.",
+			"snapshotKeepWeekly",
+			0,
+		);
+
 		new Setting(containerEl).setHeading().setName("Debug");
 
+		this.addToggleSetting(
+			containerEl,
+			"Enable debug logging",
+			"Enable logging to Obsidian's log file.",
+			"enableDebugLogging",
+		);
+	}
+
+	/**
+	 * Adds a toggle for a boolean setting
+	 */
+	private addToggleSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: BooleanSettingKey,
+	) {
 		new Setting(containerEl)
-			.setName("Enable debug logging")
-			.setDesc("Enable logging to Obsidian's log file.")
+			.setName(name)
+			.setDesc(desc)
 			.addToggle((toggle) =>
 				toggle
-					.setValue(this.plugin.settings.enableDebugLogging)
+					.setValue(this.plugin.settings[key])
 					.onChange(async (value) => {
-						this.plugin.settings.enableDebugLogging = value;
+						this.plugin.settings[key] = value;
 						await this.plugin.saveSettings();
 					}),
 			);
 	}
+
+	/**
+	 * Adds a text setting for a whole number that is at least `min`
+	 * @returns The setting, to add further controls
+	 */
+	private addNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: NumberSettingKey,
+		min: number,
+	): Setting {
+		return new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS[key].toString())
+					.setValue(this.plugin.settings[key].toString())
+					.onChange(async (value) => {
+						const numValue = parseInt(value, 10);
+						if (!isNaN(numValue) && numValue >= min) {
+							this.plugin.settings[key] = numValue;
+							await this.plugin.saveSettings();
+						}
+					}),
+			);
+	}
 }
@@ -0,0 +1,55 @@
+import { App, Modal, Setting, normalizePath } from "obsidian";
+import { SnapshotInfo } from "../sync/snapshot/SnapshotManager";
+
+/**
+ * Lists the remote snapshots and extracts one into a vault folder
+ */
+export class SnapshotsModal extends Modal {
+	private targetFolder = "Snapshots";
+
+	constructor(
+		app: App,
+		private snapshots: SnapshotInfo[],
+		private onExtract: (snapshot: SnapshotInfo, folder: string) => Promise<void>,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Snapshots" });
+
+		new Setting(contentEl)
+			.setName("Extract to folder")
+			.setDesc("Each snapshot is extracted into a subfolder named after its date.")
+			.addText((text) =>
+				text
+					.setValue(this.targetFolder)
+					.onChange((value) => (this.targetFolder = value)),
+			);
+
+		for (const snapshot of this.snapshots) {
+			const createdAt = new Date(snapshot.createdAt);
+			new Setting(contentEl)
+				.setName(createdAt.toLocaleString())
+				.setDesc(
+					snapshot.format +
+						(snapshot.size !== undefined ? `, ${snapshot.size} bytes` : ""),
+				)
+				.addButton((button) =>
+					button.setButtonText("Extract").onClick(async () => {
+						const name = createdAt.toISOString().replace(/[:.]/g, "-");
+						const folder = normalizePath(
+							`${this.targetFolder.trim() || "Snapshots"}/${name}`,
+						);
+						this.close();
+						await this.onExtract(snapshot, folder);
+					}),
+				);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,108 @@
+import { App, Modal, Setting } from "obsidian";
+import { FileSyncDecision, SyncAction } from "../sync/SyncTypes";
+
+// Actions shown for approval, in execution order
+const PREVIEW_GROUPS: { action: SyncAction; title: string }[] = [
+	{ action: SyncAction.RENAME, title: "Rename" },
+	{ action: SyncAction.DOWNLOAD, title: "Download" },
+	{ action: SyncAction.UPLOAD, title: "Upload" },
+	{ action: SyncAction.DELETE_LOCAL, title: "Delete locally" },
+	{ action: SyncAction.DELETE_REMOTE, title: "Delete remotely" },
+	{ action: SyncAction.CONFLICT, title: "Resolve conflict" },
+];
+
+/**
+ * Shows the planned sync actions grouped by action and lets the user
+ * untick individual files before the sync is executed
+ */
+export class SyncPreviewModal extends Modal {
+	private selected: Set<FileSyncDecision>;
+	private confirmed = false;
+
+	constructor(
+		app: App,
+		private decisions: FileSyncDecision[],
+		private onResult: (approved: FileSyncDecision[] | null) => void,
+	) {
+		super(app);
+		this.selected = new Set(decisions);
+	}
+
+	/**
+	 * Opens the preview and resolves with the approved decisions, or null if
+	 * the sync was cancelled. Decisions without a transfer (do nothing,
+	 * update state) are always approved.
+	 */
+	static confirm(
+		app: App,
+		decisions: FileSyncDecision[],
+	): Promise<FileSyncDecision[] | null> {
+		return new Promise((resolve) => {
+			new SyncPreviewModal(app, decisions, resolve).open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h2", { text: "S3 Sync: Preview" });
+
+		let actionCount = 0;
+		for (const group of PREVIEW_GROUPS) {
+			const groupDecisions = this.decisions.filter(
+				(d) => d.action === group.action,
+			);
+			if (groupDecisions.length === 0) continue;
+			actionCount += groupDecisions.length;
+
+			contentEl.createEl("h3", {
+				text: `${group.title} (${groupDecisions.length})`,
+			});
+			for (const decision of groupDecisions) {
+				new Setting(contentEl)
+					.setName(decision.filePath)
+					.setDesc(
+						decision.conflictType ??
+							(decision.previousPath
+								? `Renamed from ${decision.previousPath}`
+								: `Local: ${decision.localStatus}, Remote: ${decision.remoteStatus}`),
+					)
+					.addToggle((toggle) =>
+						toggle.setValue(true).onChange((value) => {
+							if (value) {
+								this.selected.add(decision);
+							} else {
+								this.selected.delete(decision);
+							}
+						}),
+					);
+			}
+		}
+
+		if (actionCount === 0) {
+			contentEl.createEl("p", { text: "Everything is in sync." });
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Sync selected")
+					.setCta()
+					.onClick(() => {
+						this.confirmed = true;
+						this.close();
+					}),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResult(
+			this.confirmed
+				? this.decisions.filter((d) => this.selected.has(d))
+				: null,
+		);
+	}
+}